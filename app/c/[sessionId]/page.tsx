@@ -0,0 +1,6 @@
+import ChatPage from '../../components/ChatPage'
+
+export default async function SessionPage({ params }: { params: Promise<{ sessionId: string }> }) {
+  const { sessionId } = await params
+  return <ChatPage sessionId={sessionId} />
+}
@@ -1,49 +1,83 @@
 'use client'
 
-import { ArrowUp } from 'lucide-react'
-import { FormEvent, KeyboardEvent, useRef, useEffect } from 'react'
+import { ArrowUp, Square } from 'lucide-react'
+import { FormEvent, KeyboardEvent, useRef, useEffect, useMemo, useState } from 'react'
 import { usePlaceholderRotation } from '../hooks/usePlaceholderRotation'
+import PrivacyGuard from './PrivacyGuard'
+import { detectPII, PII_RULES, PIIRule, redactPII } from '../../lib/pii'
 
 interface ChatInputProps {
   value: string
   onChange: (value: string) => void
-  onSubmit: (e: FormEvent) => void
+  // `message` is set when it differs from `value` (redacted by the privacy guard)
+  onSubmit: (e: FormEvent, message?: string) => void
+  onStop?: () => void
   isLoading: boolean
+  // The reason and expiry are shown by RestrictionBanner
   isBanned?: boolean
-  banExpiresAt?: string | null
   placeholder?: string
   suggestions?: string[]
   onSuggestionClick?: (suggestion: string) => void
   hasMessages?: boolean
+  // Personal data to warn about before sending
+  privacyRules?: PIIRule[]
 }
 
 export default function ChatInput({
   value,
   onChange,
   onSubmit,
+  onStop,
   isLoading,
   isBanned = false,
-  banExpiresAt = null,
   placeholder = 'Ask me anything about SELVE...',
   suggestions = [],
   onSuggestionClick,
   hasMessages = false,
+  privacyRules = PII_RULES,
 }: ChatInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  // The text the privacy guard is asking about; editing it dismisses the guard
+  const [guardedValue, setGuardedValue] = useState<string | null>(null)
+  const isGuardOpen = guardedValue !== null && guardedValue === value
+  const detected = useMemo(
+    () => (isGuardOpen ? detectPII(value, privacyRules) : []),
+    [isGuardOpen, value, privacyRules]
+  )
   const { currentPlaceholder, nextPlaceholder, isTransitioning } = usePlaceholderRotation(3000)
 
   // Static placeholder after first message
   const staticPlaceholder = "What's on your mind?"
 
+  // Check for personal data first; the guard then decides how to send
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    if (!value.trim() || isLoading || isBanned || isGuardOpen) return
+    if (detectPII(value, privacyRules).length > 0) {
+      setGuardedValue(value)
+      return
+    }
+    onSubmit(e)
+  }
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault()
-      if (value.trim() && !isLoading && !isBanned) {
-        onSubmit(e as unknown as FormEvent)
-      }
+      handleSubmit(e as unknown as FormEvent)
     }
   }
 
+  const closeGuard = () => setGuardedValue(null)
+
+  // Back to the textarea with the first detected span selected
+  const editDetected = () => {
+    const first = detected[0]
+    closeGuard()
+    const textarea = textareaRef.current
+    if (!textarea) return
+    textarea.focus()
+    if (first) textarea.setSelectionRange(first.start, first.end)
+  }
+
   const handleInput = () => {
     const textarea = textareaRef.current
     if (textarea) {
@@ -78,8 +112,24 @@ export default function ChatInput({
           </div>
         )}
 
+        {isGuardOpen && detected.length > 0 && (
+          <PrivacyGuard
+            text={value}
+            matches={detected}
+            onRedactAndSend={(e) => {
+              closeGuard()
+              onSubmit(e as unknown as FormEvent, redactPII(value, detected))
+            }}
+            onSendAnyway={(e) => {
+              closeGuard()
+              onSubmit(e as unknown as FormEvent)
+            }}
+            onEdit={editDetected}
+          />
+        )}
+
         {/* Input area */}
-        <form onSubmit={onSubmit} className="relative">
+        <form onSubmit={handleSubmit} className="relative">
           <div className="flex items-end gap-3 rounded-3xl border border-zinc-300/50 dark:border-[#24221f]/50 bg-white/70 dark:bg-[#1a1917]/70 backdrop-blur-sm px-4 py-2 focus-within:border-[#9d7bff] focus-within:ring-2 focus-within:ring-[#9d7bff]/25 shadow-sm dark:shadow-none transition-all duration-300">
             {/* Textarea */}
             <div className="relative flex-1">
@@ -132,25 +182,33 @@ export default function ChatInput({
               )}
             </div>
 
-            {/* Submit button */}
-            <button
-              type="submit"
-              disabled={!value.trim() || isLoading || isBanned}
-              className="shrink-0 rounded-xl bg-gradient-to-br from-[#b88dff] via-[#9d7bff] to-[#7f5af0] p-2.5 text-white transition-all enabled:hover:brightness-110 enabled:cursor-pointer disabled:from-zinc-300 disabled:via-zinc-300 disabled:to-zinc-300 dark:disabled:from-[#3f2f66] dark:disabled:via-[#3f2f66] dark:disabled:to-[#3f2f66] disabled:text-zinc-400 dark:disabled:text-zinc-500"
-              aria-label="Send message"
-            >
-              <ArrowUp className="h-5 w-5" aria-hidden="true" />
-            </button>
+            {/* Stop button while a response is streaming, submit otherwise */}
+            {isLoading && onStop ? (
+              <button
+                type="button"
+                onClick={onStop}
+                className="shrink-0 rounded-xl bg-zinc-800 dark:bg-zinc-200 p-2.5 text-white dark:text-zinc-900 transition-all hover:brightness-110 cursor-pointer"
+                aria-label="Stop generating"
+                title="Stop generating"
+              >
+                <Square className="h-5 w-5 fill-current" aria-hidden="true" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!value.trim() || isLoading || isBanned}
+                className="shrink-0 rounded-xl bg-gradient-to-br from-[#b88dff] via-[#9d7bff] to-[#7f5af0] p-2.5 text-white transition-all enabled:hover:brightness-110 enabled:cursor-pointer disabled:from-zinc-300 disabled:via-zinc-300 disabled:to-zinc-300 dark:disabled:from-[#3f2f66] dark:disabled:via-[#3f2f66] dark:disabled:to-[#3f2f66] disabled:text-zinc-400 dark:disabled:text-zinc-500"
+                aria-label="Send message"
+              >
+                <ArrowUp className="h-5 w-5" aria-hidden="true" />
+              </button>
+            )}
           </div>
         </form>
 
         {/* Bottom actions */}
         <div className="flex items-center justify-between text-xs text-zinc-500 transition-colors duration-300">
-          {isBanned && banExpiresAt ? (
-            <span className="text-red-400">
-              Access restricted. Try again at {new Date(banExpiresAt).toLocaleString()}
-            </span>
-          ) : (
+          {!isBanned && (
             <span className="hidden text-zinc-400 dark:text-zinc-500 md:inline">Press Enter to send, Shift+Enter for new line</span>
           )}
         </div>
@@ -1,15 +1,27 @@
 'use client'
 
-import { useMemo, useEffect, useState } from 'react'
+import { useMemo, useEffect, useRef, useState } from 'react'
+import { ChevronRight } from 'lucide-react'
 import ThinkingIndicator, { ThinkingStatus } from './ThinkingIndicator'
 import { useStreamingTypewriter, useSimpleStreamingTypewriter } from '../hooks/useTypewriter'
 import MarkdownRenderer from './MarkdownRenderer'
 import MessageActions, { UserMessageActions } from './MessageActions'
+import SourceCitations, { Citation } from './SourceCitations'
+import ReasoningTimeline from './ReasoningTimeline'
+import PrivacyGuard from './PrivacyGuard'
+import { detectPII, PII_RULES, PIIMatch, PIIRule, redactPII } from '../../lib/pii'
+import type { MessageStatus } from '../hooks/useChat'
+import type { BranchInfo } from '../lib/messageTree'
+import type { ReasoningStep } from '../lib/reasoning'
+import type { MessageFeedback } from '../lib/feedback'
+import type { ConversationCompression } from '../lib/contextWindow'
 
 interface Message {
   role: 'user' | 'assistant'
   content: string
   id?: string
+  clientId?: string
+  status?: MessageStatus
 }
 
 interface ChatMessagesProps {
@@ -17,26 +29,67 @@ interface ChatMessagesProps {
   streamingContent: string
   isLoading: boolean
   thinkingStatus: ThinkingStatus | null
+  // Status events of the answer in progress
+  thinkingSteps?: ReasoningStep[]
+  isResuming?: boolean
   enableTypewriter?: boolean
   onRegenerate?: (messageId: string) => void
-  onFeedback?: (messageId: string, type: 'helpful' | 'not_helpful') => void
+  onContinue?: (messageIndex: number) => void
+  // `message` replaces the failed text (redacted by the privacy guard)
+  onRetryMessage?: (clientMessageId: string, message?: string) => void
+  onEditFailedMessage?: (clientMessageId: string) => void
+  continuingMessageIndex?: number | null
+  onFeedback?: (messageId: string, feedback: MessageFeedback | null) => void
+  // The user's feedback, keyed by message ID
+  messageFeedback?: Record<string, MessageFeedback>
   onEditMessage?: (messageIndex: number) => void
   regeneratingMessageId?: string
   editingMessageIndex?: number | null
   editingContent?: string
   onEditingContentChange?: (content: string) => void
-  onSaveEdit?: () => void
+  // `message` replaces the edited text (redacted by the privacy guard)
+  onSaveEdit?: (message?: string) => void
   onCancelEdit?: () => void
+  // Hide every action (shared conversations)
+  readOnly?: boolean
+  // Sources shown under each assistant message, keyed by message ID
+  messageCitations?: Record<string, Citation[]>
+  // Status events behind each answer, keyed by message ID
+  messageReasoning?: Record<string, ReasoningStep[]>
+  // Version position of each message (regenerated answers, edited questions)
+  messageBranches?: BranchInfo[]
+  onNavigateBranch?: (messageIndex: number, direction: 'prev' | 'next') => void
+  // Marks where a summary replaced the older messages in the model's context
+  compression?: ConversationCompression | null
+  // Personal data to check edits and retries for before they are sent
+  privacyRules?: PIIRule[]
 }
 
+// Text held back by the privacy guard and how to send it once the user decides
+interface PrivacyCheck {
+  key: string
+  text: string
+  matches: PIIMatch[]
+  send: (message?: string) => void
+}
+
+const CITATION_HIGHLIGHT_MS = 2000
+
 export default function ChatMessages({
   messages,
   streamingContent,
   isLoading,
   thinkingStatus,
+  thinkingSteps,
+  isResuming = false,
   enableTypewriter = true,
   onRegenerate,
+  onContinue,
+  onRetryMessage,
+  onEditFailedMessage,
+  continuingMessageIndex = null,
   onFeedback,
+  messageFeedback,
   onEditMessage,
   regeneratingMessageId,
   editingMessageIndex,
@@ -44,6 +97,13 @@ export default function ChatMessages({
   onEditingContentChange,
   onSaveEdit,
   onCancelEdit,
+  readOnly = false,
+  messageCitations,
+  messageReasoning,
+  messageBranches,
+  onNavigateBranch,
+  compression,
+  privacyRules = PII_RULES,
 }: ChatMessagesProps) {
   // Detect mobile device
   const [isMobile, setIsMobile] = useState(false)
@@ -87,10 +147,60 @@ export default function ChatMessages({
     return -1
   }, [messages])
 
+  // Edits and retries go through the same privacy guard as the input;
+  // changing the text dismisses it
+  const [privacyCheck, setPrivacyCheck] = useState<PrivacyCheck | null>(null)
+
+  const sendChecked = (key: string, text: string, send: (message?: string) => void) => {
+    const matches = detectPII(text, privacyRules)
+    if (matches.length > 0) {
+      setPrivacyCheck({ key, text, matches, send })
+    } else {
+      send()
+    }
+  }
+
+  const renderPrivacyGuard = (key: string, text: string, onEdit?: () => void) => {
+    if (privacyCheck?.key !== key || privacyCheck.text !== text) return null
+    const { matches, send } = privacyCheck
+    return (
+      <PrivacyGuard
+        text={text}
+        matches={matches}
+        onRedactAndSend={() => {
+          setPrivacyCheck(null)
+          send(redactPII(text, matches))
+        }}
+        onSendAnyway={() => {
+          setPrivacyCheck(null)
+          send()
+        }}
+        onEdit={() => {
+          setPrivacyCheck(null)
+          onEdit?.()
+        }}
+      />
+    )
+  }
+
+  // Source picked from an inline citation marker, highlighted briefly
+  const [highlightedCitation, setHighlightedCitation] = useState<{ messageId: string; index: number } | null>(null)
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => () => {
+    if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current)
+  }, [])
+
+  const highlightCitation = (messageId: string, index: number) => {
+    if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current)
+    setHighlightedCitation({ messageId, index })
+    highlightTimerRef.current = setTimeout(() => setHighlightedCitation(null), CITATION_HIGHLIGHT_MS)
+  }
+
   return (
     <div className="space-y-6 py-6" role="log" aria-live="polite" aria-label="Chat messages">
       {messages.map((message, index) => (
-        <div key={message.id || index} className="group" role="article" aria-label={`${message.role === 'user' ? 'User' : 'Assistant'} message`}>
+        <div key={message.id || message.clientId || index} className="group" role="article" aria-label={`${message.role === 'user' ? 'User' : 'Assistant'} message`}>
           {message.role === 'user' ? (
             <div className="flex justify-end">
               <div className={`${editingMessageIndex === index ? 'w-full' : 'max-w-[70%]'} space-y-1`}>
@@ -111,25 +221,72 @@ export default function ChatMessages({
                         Cancel
                       </button>
                       <button
-                        onClick={onSaveEdit}
+                        onClick={() => onSaveEdit && sendChecked('edit', editingContent ?? '', onSaveEdit)}
                         className="px-4 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors cursor-pointer"
                         aria-label="Save edited message"
                       >
                         Save
                       </button>
                     </div>
+                    {renderPrivacyGuard('edit', editingContent ?? '')}
                   </div>
                 ) : (
                   <>
-                    <div className="rounded-tl-2xl rounded-tr-2xl rounded-bl-2xl rounded-br-sm bg-gradient-to-br from-[#b88dff] via-[#9d7bff] to-[#7f5af0] px-4 py-2.5 text-sm leading-relaxed text-white shadow-[0_10px_30px_rgba(0,0,0,0.35)] transition-all duration-500">
+                    <div
+                      className={`rounded-tl-2xl rounded-tr-2xl rounded-bl-2xl rounded-br-sm bg-gradient-to-br from-[#b88dff] via-[#9d7bff] to-[#7f5af0] px-4 py-2.5 text-sm leading-relaxed text-white shadow-[0_10px_30px_rgba(0,0,0,0.35)] transition-all duration-500 ${
+                        message.status === 'failed'
+                          ? 'opacity-60 ring-2 ring-red-500/60'
+                          : message.status === 'pending'
+                            ? 'opacity-80'
+                            : ''
+                      }`}
+                    >
                       <p className="whitespace-pre-wrap">{message.content}</p>
                     </div>
-                    <div className="flex justify-end">
-                      <UserMessageActions
-                        content={message.content}
-                        onEdit={onEditMessage ? () => onEditMessage(index) : undefined}
-                      />
-                    </div>
+                    {readOnly ? null : message.status === 'failed' && message.clientId ? (
+                      <div className="flex items-center justify-end gap-3 pt-1 text-xs" role="alert">
+                        <span className="text-red-600 dark:text-red-400">Not sent</span>
+                        {onRetryMessage && (
+                          <button
+                            onClick={() =>
+                              sendChecked(`retry:${message.clientId}`, message.content, (text) =>
+                                onRetryMessage(message.clientId!, text)
+                              )
+                            }
+                            disabled={isLoading}
+                            className="font-medium text-purple-600 dark:text-purple-400 hover:underline disabled:cursor-not-allowed disabled:opacity-50 cursor-pointer"
+                          >
+                            Retry
+                          </button>
+                        )}
+                        {onEditFailedMessage && (
+                          <button
+                            onClick={() => onEditFailedMessage(message.clientId!)}
+                            className="font-medium text-zinc-600 dark:text-zinc-400 hover:underline cursor-pointer"
+                          >
+                            Edit &amp; resend
+                          </button>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="flex justify-end">
+                        <UserMessageActions
+                          content={message.content}
+                          onEdit={onEditMessage && !isLoading ? () => onEditMessage(index) : undefined}
+                          versionIndex={messageBranches?.[index]?.index}
+                          totalVersions={messageBranches?.[index]?.total}
+                          onNavigateVersions={
+                            onNavigateBranch && !isLoading ? (direction) => onNavigateBranch(index, direction) : undefined
+                          }
+                        />
+                      </div>
+                    )}
+                    {message.clientId &&
+                      renderPrivacyGuard(
+                        `retry:${message.clientId}`,
+                        message.content,
+                        onEditFailedMessage && (() => onEditFailedMessage(message.clientId!))
+                      )}
                   </>
                 )}
               </div>
@@ -138,24 +295,68 @@ export default function ChatMessages({
             <div className="flex justify-start">
               <div className="w-full space-y-1">
                 <div className="rounded-2xl px-4 py-3 text-sm leading-relaxed text-zinc-800 dark:text-[#f4f0e6] transition-colors duration-500">
-                  <MarkdownRenderer content={message.content} />
+                  {/* A continuation streams straight into the message it extends */}
+                  <MarkdownRenderer
+                    content={index === continuingMessageIndex ? message.content + displayContent : message.content}
+                    citations={message.id ? messageCitations?.[message.id] : undefined}
+                    onCitationClick={message.id ? (citationIndex) => highlightCitation(message.id!, citationIndex) : undefined}
+                  />
                 </div>
-                <MessageActions
-                  messageId={message.id || `temp-${index}`}
-                  content={message.content}
-                  onRegenerate={onRegenerate ? () => onRegenerate(message.id || `temp-${index}`) : undefined}
-                  onFeedback={onFeedback ? (type) => onFeedback(message.id || `temp-${index}`, type) : undefined}
-                  isRegenerating={regeneratingMessageId === (message.id || `temp-${index}`)}
-                  isVisible={index === lastAssistantMessageIndex}
-                />
+                {message.status === 'interrupted' && index !== continuingMessageIndex && (
+                  <div className="pl-4">
+                    <span className="inline-flex items-center rounded-full bg-amber-500/10 px-2 py-0.5 text-[10px] font-medium text-amber-600 dark:text-amber-400">
+                      Response stopped
+                    </span>
+                  </div>
+                )}
+                {message.id && messageReasoning?.[message.id]?.length ? (
+                  <div className="px-4">
+                    <ReasoningTimeline steps={messageReasoning[message.id]} />
+                  </div>
+                ) : null}
+                {message.id && messageCitations?.[message.id]?.length ? (
+                  <div className="px-4">
+                    <SourceCitations
+                      sources={messageCitations[message.id]}
+                      highlight={highlightedCitation?.messageId === message.id ? highlightedCitation : null}
+                    />
+                  </div>
+                ) : null}
+                {!readOnly && message.id && (
+                  <MessageActions
+                    messageId={message.id}
+                    content={message.content}
+                    onRegenerate={onRegenerate ? () => onRegenerate(message.id!) : undefined}
+                    onContinue={
+                      onContinue &&
+                      message.status === 'interrupted' &&
+                      index === messages.length - 1 &&
+                      !isLoading
+                        ? () => onContinue(index)
+                        : undefined
+                    }
+                    feedback={messageFeedback?.[message.id]}
+                    onFeedback={onFeedback ? (feedback) => onFeedback(message.id!, feedback) : undefined}
+                    isRegenerating={regeneratingMessageId === message.id}
+                    isVisible={index === lastAssistantMessageIndex || (messageBranches?.[index]?.total ?? 0) > 1}
+                    regenerationIndex={messageBranches?.[index]?.index}
+                    totalRegenerations={messageBranches?.[index]?.total}
+                    onNavigateRegenerations={
+                      onNavigateBranch && !isLoading ? (direction) => onNavigateBranch(index, direction) : undefined
+                    }
+                  />
+                )}
               </div>
             </div>
           )}
+          {compression && message.id === compression.compressedThroughId && index < messages.length - 1 && (
+            <CompressionDivider summary={compression.summary} />
+          )}
         </div>
       ))}
 
       {/* Streaming content with typewriter effect */}
-      {displayContent && (
+      {displayContent && continuingMessageIndex === null && (
         <div className="flex justify-start">
           <div className="w-full rounded-2xl px-4 py-3 text-zinc-800 dark:text-[#f4f0e6]">
             <MarkdownRenderer content={displayContent} />
@@ -169,11 +370,20 @@ export default function ChatMessages({
         </div>
       )}
 
+      {/* Reconnecting after a dropped connection */}
+      {isResuming && (
+        <div className="flex items-center gap-2 px-4 text-xs text-amber-600 dark:text-amber-400" role="status">
+          <span className="inline-block h-3 w-1 animate-pulse bg-amber-500" aria-hidden="true" />
+          Connection lost, resuming your answer...
+        </div>
+      )}
+
       {/* Thinking indicator - show when loading and no content yet */}
       {isLoading && (
-        <ThinkingIndicator 
-          status={thinkingStatus} 
-          isVisible={isLoading && !displayContent} 
+        <ThinkingIndicator
+          status={thinkingStatus}
+          isVisible={isLoading && !displayContent}
+          steps={thinkingSteps}
         />
       )}
 
@@ -191,4 +401,36 @@ export default function ChatMessages({
       )}
     </div>
   )
-}
\ No newline at end of file
+}
+
+/**
+ * Divider after the last message a conversation summary covers, rendered at
+ * the end of that message. The messages above stay readable; the model only
+ * sees the summary of them.
+ */
+function CompressionDivider({ summary }: { summary: string }) {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  return (
+    <div role="separator" aria-label="Earlier messages summarized" className="mt-6 py-2">
+      <div className="flex items-center gap-3 text-xs text-zinc-500">
+        <span className="h-px flex-1 bg-zinc-300/60 dark:bg-zinc-700/60" />
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-1.5 hover:text-zinc-700 dark:hover:text-zinc-300 transition-colors cursor-pointer"
+          aria-expanded={isExpanded}
+        >
+          <ChevronRight className={`h-3.5 w-3.5 transition-transform duration-200 ${isExpanded ? 'rotate-90' : ''}`} />
+          Earlier messages summarized
+        </button>
+        <span className="h-px flex-1 bg-zinc-300/60 dark:bg-zinc-700/60" />
+      </div>
+      {isExpanded && (
+        <p className="mx-auto mt-2 max-w-2xl whitespace-pre-wrap rounded-lg bg-zinc-100 dark:bg-zinc-900/60 px-4 py-3 text-xs text-zinc-600 dark:text-zinc-300">
+          {summary}
+        </p>
+      )}
+    </div>
+  )
+}
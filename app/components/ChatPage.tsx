@@ -0,0 +1,497 @@
+'use client'
+
+import { useRef, useEffect, useState } from 'react'
+import { useUser } from '@clerk/nextjs'
+import Sidebar from './Sidebar'
+import TopBar from './TopBar'
+import ShareDialog from './ShareDialog'
+import ChatInput from './ChatInput'
+import ChatMessages from './ChatMessages'
+import WelcomeScreen from './WelcomeScreen'
+import LoadingScreen from './LoadingScreen'
+import RetryIndicator from './RetryIndicator'
+import RestrictionBanner from './RestrictionBanner'
+import { useChat } from '../hooks/useChat'
+import { apiClient } from '../lib/apiClient'
+import { buildConversationExport, exportConversation, ExportFormat } from '../lib/conversationExport'
+import { buildShareRequest, getStoredShareId, shareUrl, storeShareId } from '../lib/share'
+import { logger } from '../../lib/logger'
+
+const log = logger.child({ component: 'ChatPage' })
+
+interface ChatPageProps {
+  // From the `/c/[sessionId]` route; absent on `/`
+  sessionId?: string
+}
+
+/**
+ * Main Chat Page Component
+ * 
+ * This page orchestrates the chat experience by composing
+ * modular UI components with the useChat hook for state management.
+ * Rendered by both `/` and `/c/[sessionId]`.
+ */
+export default function ChatPage({ sessionId: routeSessionId }: ChatPageProps) {
+  const { user, isLoaded: isUserLoaded } = useUser()
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [showSignInPrompt, setShowSignInPrompt] = useState(false)
+  const [editingMessageIndex, setEditingMessageIndex] = useState<number | null>(null)
+  const [editingContent, setEditingContent] = useState('')
+  const [regeneratingMessageId, setRegeneratingMessageId] = useState<string | null>(null)
+  const [isShareOpen, setIsShareOpen] = useState(false)
+  const [shareId, setShareId] = useState<string | null>(null)
+  const messagesEndRef = useRef<HTMLDivElement>(null)
+  const messagesContainerRef = useRef<HTMLDivElement>(null)
+  const SIGNIN_DISMISSED_KEY = 'selve_signin_prompt_dismissed'
+  const SIDEBAR_STATE_KEY = 'selve_sidebar_open'
+
+  const mainAppBase = (
+    process.env.NEXT_PUBLIC_MAIN_APP_URL ||
+    process.env.MAIN_APP_URL ||
+    process.env.MAIN_APP_URL_DEV ||
+    process.env.MAIN_APP_URL_PROD ||
+    (typeof window !== 'undefined' ? window.location.origin : 'http://localhost:3000')
+  ).trim()
+
+  const chatUrl = (
+    process.env.NEXT_PUBLIC_CHATBOT_URL ||
+    (typeof window !== 'undefined' ? window.location.origin : 'http://localhost:4000')
+  ).trim()
+
+  const signInUrl = `${mainAppBase.replace(/\/$/, '')}/auth/redirect?redirect_to=${encodeURIComponent(chatUrl)}`
+
+  const {
+    messages,
+    input,
+    setInput,
+    isLoading,
+    streamingContent,
+    isResumingStream,
+    continuingMessageIndex,
+    sessionId,
+    isLoadingSession,
+    sessions,
+    error,
+    userProfile,
+    userAccount,
+    messageCitations,
+    messageReasoning,
+    messageFeedback,
+    messageBranches,
+    thinkingStatus,
+    liveReasoning,
+    hasMessages,
+    isBanned,
+    restriction,
+    securityWarning,
+    compressionNeeded,
+    contextUsage,
+    compression,
+    isCompressing,
+    sessionNotFound,
+    retryState,
+    handleSubmit,
+    continueGeneration,
+    retryFailedMessage,
+    editFailedMessage,
+    regenerateResponse,
+    editMessage,
+    switchBranch,
+    submitFeedback,
+    compressConversation,
+    submitAppeal,
+    cancelStream,
+    cancelRetry,
+    switchSession,
+    createNewConversation,
+    deleteSession,
+    importConversations,
+    clearError,
+    isLoadingAccount,
+  } = useChat({
+    userId: user?.id,
+    userName: user?.firstName || user?.username,
+    signInUrl: signInUrl,
+    initialSessionId: routeSessionId,
+  })
+
+  // Scroll to bottom when messages change
+  useEffect(() => {
+    // Use requestAnimationFrame to ensure DOM has updated before scrolling
+    requestAnimationFrame(() => {
+      const container = messagesContainerRef.current
+      if (container) {
+        container.scrollTop = container.scrollHeight
+      }
+    })
+  }, [messages, streamingContent])
+
+  useEffect(() => {
+    if (!isUserLoaded) return
+    const dismissed = typeof window !== 'undefined' ? localStorage.getItem(SIGNIN_DISMISSED_KEY) : null
+    if (!user && !dismissed) {
+      setShowSignInPrompt(true)
+    }
+  }, [user, isUserLoaded])
+
+  // Load sidebar state from localStorage on mount
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      const savedState = localStorage.getItem(SIDEBAR_STATE_KEY)
+      if (savedState !== null) {
+        setIsSidebarOpen(savedState === 'true')
+      }
+    }
+  }, [])
+
+  // Save sidebar state to localStorage when it changes
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(SIDEBAR_STATE_KEY, String(isSidebarOpen))
+    }
+  }, [isSidebarOpen])
+
+  const dismissSignInPrompt = () => {
+    setShowSignInPrompt(false)
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(SIGNIN_DISMISSED_KEY, '1')
+    }
+  }
+
+  const handleSuggestionClick = (suggestion: string) => {
+    setInput(suggestion)
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    const conversation = buildConversationExport({
+      title: sessions.find((session) => session.id === sessionId)?.title,
+      sessionId,
+      messages,
+      messageCitations,
+    })
+
+    try {
+      await exportConversation(format, conversation)
+    } catch (error) {
+      log.error('Error exporting conversation', { action: 'export', format, error })
+    }
+  }
+
+  const handleShare = () => {
+    if (!sessionId) return
+    setShareId(getStoredShareId(sessionId))
+    setIsShareOpen(true)
+  }
+
+  const handleCreateShare = async () => {
+    if (!sessionId || !user) return
+    const request = buildShareRequest({
+      sessionId,
+      title: sessions.find((session) => session.id === sessionId)?.title,
+      messages,
+      messageCitations,
+      ownerNames: [userAccount?.user_name, user.fullName, user.firstName, user.lastName, user.username],
+    })
+    const { share_id } = await apiClient.createShare(request, user.id)
+    storeShareId(sessionId, share_id)
+    setShareId(share_id)
+  }
+
+  const handleRevokeShare = async () => {
+    if (!sessionId || !user || !shareId) return
+    await apiClient.revokeShare(shareId, user.id)
+    storeShareId(sessionId, null)
+    setShareId(null)
+  }
+
+  const handleRegenerate = async (messageId: string) => {
+    const messageIndex = messages.findIndex((m) => m.id === messageId)
+    if (messageIndex === -1) return
+
+    setRegeneratingMessageId(messageId)
+
+    try {
+      // The new answer becomes another version next to this one
+      await regenerateResponse(messageIndex)
+    } catch (error) {
+      log.error('Error regenerating', { action: 'regenerate', error })
+    } finally {
+      setRegeneratingMessageId(null)
+    }
+  }
+
+  const handleEditMessage = (index: number) => {
+    setEditingMessageIndex(index)
+    setEditingContent(messages[index].content)
+  }
+
+  // `message` is the edit as the privacy guard let it through (e.g. redacted)
+  const handleSaveEdit = async (message: string = editingContent) => {
+    if (editingMessageIndex === null) return
+
+    // Close edit mode
+    const messageIndex = editingMessageIndex
+    const contentToSend = message
+    setEditingMessageIndex(null)
+    setEditingContent('')
+
+    // The edited question starts a new branch; the original keeps its own
+    await editMessage(messageIndex, contentToSend)
+  }
+
+  const handleCancelEdit = () => {
+    setEditingMessageIndex(null)
+    setEditingContent('')
+  }
+
+  // Loading state (a linked session can't be checked until we know who is asking)
+  if (isLoadingSession || isLoadingAccount || (routeSessionId && !isUserLoaded)) {
+    return <LoadingScreen />
+  }
+
+  return (
+    <div
+      className={`relative z-10 flex h-screen text-zinc-900 dark:text-white transition-all duration-300 ease-out ${user && isSidebarOpen ? 'lg:pl-64' : 'lg:pl-0'}`}
+    >
+      {/* Error toast */}
+      {error && (
+        <ErrorToast message={error} onDismiss={clearError} />
+      )}
+
+      {/* Sign-in prompt for guests */}
+      {showSignInPrompt && (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/70 dark:bg-black/70 px-4">
+          <div className="w-full max-w-md rounded-2xl border border-zinc-300 dark:border-[#2c261f] bg-white dark:bg-[#141312] p-6 shadow-2xl shadow-black/20 dark:shadow-black/40">
+            <div className="mb-4 text-lg font-semibold text-zinc-900 dark:text-white">Sign in for personalized SELVE chat</div>
+            <p className="mb-6 text-sm text-zinc-600 dark:text-zinc-300">
+              Sign in to sync your assessment scores, save conversations, and get tailored insights. You can continue as a guest if you prefer.
+            </p>
+            <div className="flex flex-col gap-3 sm:flex-row justify-center">
+              <button
+                onClick={dismissSignInPrompt}
+                className="rounded-lg border border-zinc-300 dark:border-[#2c261f] px-4 py-2 text-sm font-medium text-zinc-900 dark:text-white transition hover:border-zinc-400 dark:hover:border-[#3a3127] hover:bg-zinc-100 dark:hover:bg-[#1a1917] cursor-pointer"
+              >
+                Continue as guest
+              </button>
+              <a
+                href={signInUrl}
+                className="flex items-center justify-center rounded-lg bg-[#de6b35] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[#f07c45] cursor-pointer"
+              >
+                Sign in
+              </a>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Share link dialog */}
+      <ShareDialog
+        isOpen={isShareOpen}
+        onClose={() => setIsShareOpen(false)}
+        shareUrl={shareId ? shareUrl(shareId) : null}
+        onCreate={handleCreateShare}
+        onRevoke={handleRevokeShare}
+      />
+
+      {/* Sidebar - Only show for authenticated users */}
+      {user && (
+        <Sidebar
+          sessions={sessions}
+          activeSessionId={sessionId}
+          onSessionSelect={switchSession}
+          onNewChat={createNewConversation}
+          onDeleteSession={deleteSession}
+          isOpen={isSidebarOpen}
+          onToggle={() => setIsSidebarOpen(!isSidebarOpen)}
+          userName={userAccount?.user_name || user?.fullName || user?.firstName || user?.username || undefined}
+          userPlan={userAccount?.subscription_plan || userProfile?.subscriptionPlan}
+          profilePicture={userAccount?.profile_picture}
+          isSignedIn={!!user}
+          signInUrl={signInUrl}
+          currentMessages={messages}
+          onImport={importConversations}
+        />
+      )}
+
+      {/* Main content area */}
+      <main className="flex flex-1 flex-col">
+        <TopBar
+          onMenuClick={() => setIsSidebarOpen(!isSidebarOpen)}
+          title="SELVE Chat"
+          showMenuButton={!!user}
+          onExport={messages.length > 0 ? handleExport : undefined}
+          onShare={user && sessionId && messages.length > 0 ? handleShare : undefined}
+          contextUsage={messages.length > 0 ? contextUsage : null}
+          onCompress={sessionId ? compressConversation : undefined}
+          isCompressing={isCompressing}
+        />
+
+        <div className="flex flex-1 flex-col overflow-hidden min-h-0">
+          {sessionNotFound ? (
+            <SessionNotFound
+              isSignedIn={!!user}
+              signInUrl={signInUrl}
+              onNewChat={() => createNewConversation()}
+            />
+          ) : hasMessages ? (
+            <div ref={messagesContainerRef} className="flex-1 overflow-y-auto">
+              <div className="mx-auto w-full max-w-4xl px-2 sm:px-8 md:px-12 lg:px-14 pb-8">
+                <ChatMessages
+                  messages={messages}
+                  streamingContent={streamingContent}
+                  isLoading={isLoading}
+                  thinkingStatus={thinkingStatus}
+                  thinkingSteps={liveReasoning}
+                  isResuming={isResumingStream}
+                  onRegenerate={handleRegenerate}
+                  onContinue={continueGeneration}
+                  onRetryMessage={retryFailedMessage}
+                  onEditFailedMessage={editFailedMessage}
+                  continuingMessageIndex={continuingMessageIndex}
+                  onFeedback={submitFeedback}
+                  messageFeedback={messageFeedback}
+                  onEditMessage={handleEditMessage}
+                  regeneratingMessageId={regeneratingMessageId || undefined}
+                  editingMessageIndex={editingMessageIndex}
+                  editingContent={editingContent}
+                  onEditingContentChange={setEditingContent}
+                  onSaveEdit={handleSaveEdit}
+                  onCancelEdit={handleCancelEdit}
+                  messageCitations={messageCitations}
+                  messageReasoning={messageReasoning}
+                  messageBranches={messageBranches}
+                  onNavigateBranch={switchBranch}
+                  compression={compression}
+                />
+                <div ref={messagesEndRef} />
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-1 flex-col min-h-0">
+              <WelcomeScreen
+                onSuggestionClick={handleSuggestionClick}
+                userName={user?.firstName || user?.username || undefined}
+              />
+            </div>
+          )}
+
+          {/* Security warning banner */}
+          {securityWarning && (
+            <div className="border-t border-[#1f1e1c] bg-orange-950/30 px-4 py-3">
+              <div className="mx-auto max-w-5xl">
+                <p className="text-sm text-orange-300">{securityWarning}</p>
+              </div>
+            </div>
+          )}
+
+          {restriction && (
+            <RestrictionBanner restriction={restriction} onAppeal={user ? submitAppeal : undefined} />
+          )}
+
+          {/* Stays until the conversation is compressed */}
+          {sessionId && (compressionNeeded || (contextUsage && contextUsage.level !== 'ok')) && (
+            <div className="mx-auto w-full max-w-4xl px-6 sm:px-12 md:px-14 lg:px-16">
+              <div
+                role="status"
+                className="flex items-center justify-between gap-3 rounded-lg border border-amber-500/40 bg-amber-50 dark:bg-amber-950/30 px-4 py-2.5"
+              >
+                <p className="text-sm text-amber-800 dark:text-amber-300">
+                  {contextUsage?.level === 'critical'
+                    ? 'This conversation is nearly out of context. Compress it so earlier details are not dropped.'
+                    : 'This conversation is getting long. Compress it to keep answers accurate.'}
+                </p>
+                <button
+                  onClick={compressConversation}
+                  disabled={isCompressing || isLoading}
+                  className="shrink-0 rounded-lg bg-[#de6b35] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[#f07c45] disabled:cursor-not-allowed disabled:opacity-60 cursor-pointer"
+                >
+                  {isCompressing ? 'Compressing…' : 'Compress'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Automatic retry countdown for transient failures */}
+          {retryState.isRetrying && (
+            <div className="mx-auto w-full max-w-4xl px-6 sm:px-12 md:px-14 lg:px-16">
+              <RetryIndicator retryState={retryState} onCancel={cancelRetry} />
+            </div>
+          )}
+
+          {/* Chat input */}
+          {!sessionNotFound && (
+            <ChatInput
+              value={input}
+              onChange={setInput}
+              onSubmit={handleSubmit}
+              onStop={cancelStream}
+              isLoading={isLoading}
+              isBanned={isBanned}
+              placeholder="Ask me anything about SELVE..."
+              hasMessages={hasMessages}
+            />
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
+
+/**
+ * Shown for a `/c/<sessionId>` link that is unknown or belongs to someone else
+ */
+function SessionNotFound({
+  isSignedIn,
+  signInUrl,
+  onNewChat,
+}: {
+  isSignedIn: boolean
+  signInUrl: string
+  onNewChat: () => void
+}) {
+  return (
+    <div className="flex flex-1 flex-col items-center justify-center gap-3 px-6 text-center">
+      <h1 className="text-xl font-semibold text-zinc-900 dark:text-white">Conversation not found</h1>
+      <p className="max-w-sm text-sm text-zinc-600 dark:text-zinc-400">
+        {isSignedIn
+          ? 'This conversation was deleted or belongs to another account.'
+          : 'Sign in with the account that owns this conversation to open it.'}
+      </p>
+      <div className="mt-2 flex gap-2">
+        {!isSignedIn && (
+          <a
+            href={signInUrl}
+            className="rounded-lg border border-zinc-300 dark:border-[#2c261f] px-4 py-2 text-sm font-medium text-zinc-800 dark:text-white transition hover:bg-zinc-100 dark:hover:bg-[#1a1917]"
+          >
+            Sign in
+          </a>
+        )}
+        <button
+          onClick={onNewChat}
+          className="rounded-lg bg-[#de6b35] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[#f07c45] cursor-pointer"
+        >
+          Start a new chat
+        </button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Error toast component for displaying errors
+ */
+function ErrorToast({ message, onDismiss }: { message: string; onDismiss: () => void }) {
+  return (
+    <div className="fixed right-4 top-4 z-50 max-w-md rounded-lg bg-red-600 px-4 py-3 text-white shadow-lg">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium">{message}</span>
+        <button
+          onClick={onDismiss}
+          className="ml-auto rounded p-1 hover:bg-red-700"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Gauge, Loader2 } from 'lucide-react'
+import { ContextLevel, ContextUsage, formatTokenCount } from '../lib/contextWindow'
+
+interface ContextGaugeProps {
+  usage: ContextUsage
+  // Shown only for saved conversations
+  onCompress?: () => void
+  isCompressing?: boolean
+}
+
+const LEVEL_COLORS: Record<ContextLevel, { bar: string; text: string }> = {
+  ok: { bar: 'bg-emerald-500', text: 'text-zinc-500 dark:text-zinc-400' },
+  warning: { bar: 'bg-amber-500', text: 'text-amber-600 dark:text-amber-400' },
+  critical: { bar: 'bg-red-500', text: 'text-red-600 dark:text-red-400' },
+}
+
+/**
+ * ContextGauge Component
+ *
+ * Top bar meter for how much of the model's context the conversation uses,
+ * with the option to compress it.
+ */
+export default function ContextGauge({ usage, onCompress, isCompressing = false }: ContextGaugeProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+      return () => document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  const percent = Math.round(usage.ratio * 100)
+  const colors = LEVEL_COLORS[usage.level]
+  const detail = `${formatTokenCount(usage.tokens)} of ${formatTokenCount(usage.limit)} tokens`
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 rounded-lg p-2 text-sm transition-colors duration-300 hover:bg-zinc-200 dark:hover:bg-[#1a1917] cursor-pointer ${colors.text}`}
+        aria-label={`Context used: ${percent}%`}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        title={detail}
+      >
+        <Gauge className="h-4 w-4" />
+        <span
+          role="meter"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+          aria-valuetext={detail}
+          className="hidden h-1.5 w-16 overflow-hidden rounded-full bg-zinc-200 dark:bg-zinc-800 sm:block"
+        >
+          <span className={`block h-full ${colors.bar}`} style={{ width: `${percent}%` }} />
+        </span>
+        <span className="tabular-nums">{percent}%</span>
+      </button>
+
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label="Context window"
+          className="absolute right-0 top-full mt-2 w-64 space-y-3 rounded-xl border border-zinc-200 dark:border-[#2c261f] bg-white dark:bg-[#1a1917] p-4 text-sm shadow-2xl shadow-black/20 dark:shadow-black/40 z-50"
+        >
+          <div>
+            <p className="font-semibold text-zinc-900 dark:text-white">Context window</p>
+            <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">{detail}</p>
+          </div>
+          <p className="text-xs text-zinc-600 dark:text-zinc-300">
+            {usage.level === 'ok'
+              ? 'Plenty of room left in this conversation.'
+              : 'This conversation is getting long. Compressing it summarizes earlier messages so answers stay accurate.'}
+          </p>
+          {onCompress && (
+            <button
+              onClick={() => {
+                setIsOpen(false)
+                onCompress()
+              }}
+              disabled={isCompressing}
+              className="flex w-full items-center justify-center gap-2 rounded-lg bg-[#de6b35] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[#f07c45] disabled:cursor-not-allowed disabled:opacity-60 cursor-pointer"
+            >
+              {isCompressing && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+              {isCompressing ? 'Compressing…' : 'Compress conversation'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Download, FileCode, FileJson, FileText, Printer } from 'lucide-react'
+import { EXPORT_FORMATS, ExportFormat } from '../lib/conversationExport'
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void | Promise<void>
+  disabled?: boolean
+}
+
+const FORMAT_ICONS: Record<ExportFormat, typeof FileText> = {
+  markdown: FileText,
+  json: FileJson,
+  html: FileCode,
+  print: Printer,
+}
+
+/**
+ * ExportMenu Component
+ *
+ * Top bar button that downloads the current conversation in the chosen format
+ * or prints it.
+ */
+export default function ExportMenu({ onExport, disabled = false }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+      return () => document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  const handleSelect = async (format: ExportFormat) => {
+    setIsOpen(false)
+    setIsExporting(true)
+    try {
+      await onExport(format)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || isExporting}
+        className="flex items-center gap-2 rounded-lg p-2 text-sm text-zinc-500 dark:text-zinc-400 transition-colors duration-300 hover:bg-zinc-200 dark:hover:bg-[#1a1917] hover:text-zinc-900 dark:hover:text-white disabled:cursor-not-allowed disabled:opacity-50 cursor-pointer"
+        aria-label="Export conversation"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Download className="h-4 w-4" />
+        <span className="hidden sm:inline">Export</span>
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 top-full mt-2 w-52 rounded-xl border border-zinc-200 dark:border-[#2c261f] bg-white dark:bg-[#1a1917] py-1 shadow-2xl shadow-black/20 dark:shadow-black/40 z-50 overflow-hidden animate-in fade-in slide-in-from-top-2 duration-200"
+        >
+          {EXPORT_FORMATS.map(({ format, label }) => {
+            const Icon = FORMAT_ICONS[format]
+            return (
+              <button
+                key={format}
+                role="menuitem"
+                onClick={() => handleSelect(format)}
+                className="flex w-full items-center gap-3 px-4 py-2.5 text-left text-sm text-zinc-700 dark:text-zinc-300 transition-colors hover:bg-zinc-100 dark:hover:bg-[#22201d] cursor-pointer"
+              >
+                <Icon className="h-4 w-4 text-zinc-500 dark:text-zinc-400" />
+                {label}
+              </button>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { X } from 'lucide-react'
+import {
+  FEEDBACK_REASONS,
+  FeedbackReason,
+  MAX_FEEDBACK_COMMENT_LENGTH,
+  MessageFeedback,
+} from '../lib/feedback'
+
+interface FeedbackPopoverProps {
+  // Feedback already given, to edit
+  initial?: MessageFeedback | null
+  onSubmit: (feedback: MessageFeedback) => void
+  // Withdraw the feedback already given
+  onRemove?: () => void
+  onClose: () => void
+}
+
+/**
+ * FeedbackPopover Component
+ *
+ * Reasons and an optional comment for a "not helpful" rating. Opened from
+ * the thumbs-down button; also edits or withdraws earlier feedback.
+ */
+export default function FeedbackPopover({ initial, onSubmit, onRemove, onClose }: FeedbackPopoverProps) {
+  const [reasons, setReasons] = useState<FeedbackReason[]>(initial?.reasons ?? [])
+  const [comment, setComment] = useState(initial?.comment ?? '')
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const toggleReason = (reason: FeedbackReason) => {
+    setReasons((prev) => (prev.includes(reason) ? prev.filter((item) => item !== reason) : [...prev, reason]))
+  }
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    const trimmed = comment.trim()
+    onSubmit({
+      type: 'not_helpful',
+      ...(reasons.length > 0 ? { reasons } : {}),
+      ...(trimmed ? { comment: trimmed } : {}),
+    })
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      role="dialog"
+      aria-label="What went wrong?"
+      className="absolute left-0 top-full z-30 mt-2 w-72 space-y-3 rounded-xl border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 p-4 text-sm shadow-xl"
+    >
+      <div className="flex items-center justify-between">
+        <p className="font-semibold text-zinc-900 dark:text-white">What went wrong?</p>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close feedback"
+          className="rounded-md p-1 text-zinc-500 hover:bg-zinc-200 dark:hover:bg-zinc-800"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      <fieldset className="flex flex-wrap gap-2">
+        <legend className="sr-only">Reasons</legend>
+        {FEEDBACK_REASONS.map(({ value, label }) => {
+          const selected = reasons.includes(value)
+          return (
+            <button
+              key={value}
+              type="button"
+              onClick={() => toggleReason(value)}
+              aria-pressed={selected}
+              className={`rounded-full border px-2.5 py-1 text-xs transition-colors ${
+                selected
+                  ? 'border-[#de6b35] bg-[#de6b35]/10 text-[#de6b35]'
+                  : 'border-zinc-300 dark:border-zinc-700 text-zinc-600 dark:text-zinc-300 hover:border-zinc-400'
+              }`}
+            >
+              {label}
+            </button>
+          )
+        })}
+      </fieldset>
+
+      <label className="block">
+        <span className="sr-only">Comment</span>
+        <textarea
+          value={comment}
+          onChange={(event) => setComment(event.target.value)}
+          maxLength={MAX_FEEDBACK_COMMENT_LENGTH}
+          rows={3}
+          placeholder="Anything else? (optional)"
+          className="w-full resize-none rounded-lg border border-zinc-300 dark:border-zinc-700 bg-transparent px-3 py-2 text-sm text-zinc-900 dark:text-white placeholder:text-zinc-400 focus:border-[#de6b35] focus:outline-none"
+        />
+      </label>
+
+      <div className="flex items-center justify-between gap-2">
+        {onRemove ? (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="text-xs text-zinc-500 underline-offset-2 hover:text-zinc-700 hover:underline dark:hover:text-zinc-300"
+          >
+            Remove feedback
+          </button>
+        ) : (
+          <span />
+        )}
+        <button
+          type="submit"
+          className="rounded-lg bg-[#de6b35] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[#f07c45]"
+        >
+          {initial ? 'Update feedback' : 'Send feedback'}
+        </button>
+      </div>
+    </form>
+  )
+}
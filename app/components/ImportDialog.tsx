@@ -0,0 +1,235 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { FileJson, Upload, X } from 'lucide-react'
+import {
+  ImportedConversation,
+  ImportError,
+  ImportResult,
+  ImportSource,
+  readConversationFile,
+} from '../lib/conversationImport'
+import { logger } from '../../lib/logger'
+
+const log = logger.child({ component: 'ImportDialog' })
+
+interface ImportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onImport: (conversations: ImportedConversation[]) => Promise<ImportResult[]>
+}
+
+const SOURCE_LABELS: Record<ImportSource, string> = {
+  selve: 'SELVE export',
+  chatgpt: 'ChatGPT export',
+}
+
+const PREVIEW_MESSAGES = 4
+
+/**
+ * ImportDialog Component
+ *
+ * Accepts a dropped or picked JSON file, validates it and previews the
+ * conversations before anything is saved.
+ */
+export default function ImportDialog({ isOpen, onClose, onImport }: ImportDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [conversations, setConversations] = useState<ImportedConversation[] | null>(null)
+  const [error, setError] = useState<{ message: string; issues: string[] } | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  if (!isOpen) return null
+
+  const reset = () => {
+    setFileName(null)
+    setConversations(null)
+    setError(null)
+  }
+
+  const handleClose = () => {
+    reset()
+    onClose()
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    reset()
+    setFileName(file.name)
+    try {
+      setConversations(await readConversationFile(file))
+    } catch (err) {
+      setError(
+        err instanceof ImportError
+          ? { message: err.message, issues: err.issues }
+          : { message: 'Could not read this file.', issues: [] }
+      )
+    }
+  }
+
+  const handleConfirm = async () => {
+    if (!conversations) return
+    setIsImporting(true)
+    try {
+      const results = await onImport(conversations)
+      const failed = results.filter((result) => !result.session).map((result) => result.conversation)
+      if (failed.length === 0) {
+        handleClose()
+        return
+      }
+      // Only the failed ones stay, so importing again doesn't duplicate the rest
+      setConversations(failed)
+      setError({
+        message: `${results.length - failed.length} of ${results.length} conversations were imported. These could not be saved; import again to retry them.`,
+        issues: failed.map((conversation) => conversation.title),
+      })
+    } catch (err) {
+      log.error('Error importing conversations', { action: 'import', error: err })
+      setError({ message: 'Import failed. Please try again.', issues: [] })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const messageCount = conversations?.reduce((sum, conversation) => sum + conversation.messages.length, 0) ?? 0
+
+  return (
+    <div
+      className="fixed inset-0 z-[70] flex items-center justify-center bg-black/70 px-4"
+      onClick={handleClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-dialog-title"
+        className="flex max-h-[85vh] w-full max-w-lg flex-col rounded-2xl border border-zinc-300 dark:border-[#2c261f] bg-white dark:bg-[#141312] p-6 shadow-2xl shadow-black/20 dark:shadow-black/40"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h2 id="import-dialog-title" className="text-lg font-semibold text-zinc-900 dark:text-white">
+            Import conversations
+          </h2>
+          <button
+            onClick={handleClose}
+            className="rounded-lg p-1 text-zinc-500 transition-colors hover:bg-zinc-100 dark:hover:bg-[#1a1917] hover:text-zinc-900 dark:hover:text-white cursor-pointer"
+            aria-label="Close"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {!conversations && (
+          <button
+            onClick={() => inputRef.current?.click()}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setIsDragging(true)
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault()
+              setIsDragging(false)
+              handleFile(e.dataTransfer.files[0])
+            }}
+            className={`flex w-full flex-col items-center gap-2 rounded-xl border-2 border-dashed px-4 py-8 text-center transition-colors cursor-pointer ${
+              isDragging
+                ? 'border-[#de6b35] bg-[#de6b35]/5'
+                : 'border-zinc-300 dark:border-[#2c261f] hover:border-zinc-400 dark:hover:border-[#3a3127]'
+            }`}
+          >
+            <Upload className="h-6 w-6 text-zinc-500" />
+            <span className="text-sm font-medium text-zinc-800 dark:text-zinc-200">
+              Drop a JSON file here or click to choose
+            </span>
+            <span className="text-xs text-zinc-500">SELVE JSON export or ChatGPT conversations.json</span>
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0])
+            e.target.value = ''
+          }}
+        />
+
+        {conversations && (
+          <div className="min-h-0 flex-1 overflow-y-auto">
+            <p className="mb-3 flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-300">
+              <FileJson className="h-4 w-4 shrink-0" />
+              <span className="truncate">{fileName}</span>
+              <span className="shrink-0 text-zinc-500">
+                · {conversations.length} {conversations.length === 1 ? 'conversation' : 'conversations'}, {messageCount} messages
+              </span>
+            </p>
+            <ul className="space-y-3">
+              {conversations.map((conversation, index) => (
+                <li
+                  key={index}
+                  className="rounded-lg border border-zinc-200 dark:border-[#2c261f] bg-zinc-50 dark:bg-[#1a1917] p-3"
+                >
+                  <div className="mb-2 flex items-baseline justify-between gap-2">
+                    <span className="truncate text-sm font-medium text-zinc-900 dark:text-white">
+                      {conversation.title}
+                    </span>
+                    <span className="shrink-0 text-xs text-zinc-500">
+                      {SOURCE_LABELS[conversation.source]} · {conversation.messages.length}
+                    </span>
+                  </div>
+                  <div className="space-y-1">
+                    {conversation.messages.slice(0, PREVIEW_MESSAGES).map((message, messageIndex) => (
+                      <p key={messageIndex} className="truncate text-xs text-zinc-600 dark:text-zinc-400">
+                        <span className="font-medium">{message.role === 'user' ? 'You' : 'Assistant'}:</span>{' '}
+                        {message.content}
+                      </p>
+                    ))}
+                    {conversation.messages.length > PREVIEW_MESSAGES && (
+                      <p className="text-xs text-zinc-400">
+                        +{conversation.messages.length - PREVIEW_MESSAGES} more
+                      </p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 text-sm text-red-600 dark:text-red-400" role="alert">
+            <p>{error.message}</p>
+            {error.issues.length > 0 && (
+              <ul className="mt-2 max-h-40 list-disc overflow-y-auto pl-5 text-xs">
+                {error.issues.map((issue, index) => (
+                  <li key={index}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {conversations && (
+          <div className="mt-5 flex justify-end gap-2">
+            <button
+              onClick={reset}
+              disabled={isImporting}
+              className="rounded-lg px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 transition hover:bg-zinc-100 dark:hover:bg-[#1a1917] disabled:opacity-50 cursor-pointer"
+            >
+              Choose another file
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={isImporting}
+              className="rounded-lg bg-[#de6b35] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[#f07c45] disabled:cursor-not-allowed disabled:opacity-60 cursor-pointer"
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
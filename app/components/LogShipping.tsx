@@ -0,0 +1,30 @@
+"use client";
+
+import { useEffect } from "react";
+import { logger } from "../../lib/logger";
+import { indexedDbLogStorage, LogTransport, memoryLogStorage } from "../../lib/logTransport";
+
+/**
+ * Ships browser logs to `NEXT_PUBLIC_LOG_ENDPOINT` while mounted; does
+ * nothing when it isn't set.
+ */
+export function LogShipping(): null {
+  useEffect(() => {
+    const endpoint = process.env.NEXT_PUBLIC_LOG_ENDPOINT?.trim();
+    if (!endpoint) return;
+
+    const transport = new LogTransport({
+      endpoint,
+      storage: typeof indexedDB !== "undefined" ? indexedDbLogStorage() : memoryLogStorage(),
+    });
+    const removeSink = logger.addSink(transport);
+    void transport.start();
+
+    return () => {
+      removeSink();
+      transport.stop();
+    };
+  }, []);
+
+  return null;
+}
@@ -1,16 +1,68 @@
 'use client'
 
-import React from 'react'
+import React, { useRef, useState } from 'react'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism'
 import DOMPurify from 'dompurify'
+import type { Citation } from './SourceCitations'
+import { citationRelevance, linkCitationMarkers } from '../lib/citations'
 
 interface MarkdownRendererProps {
   content: string
   className?: string
+  // Sources for the answer; `[1]` / `[^id]` markers become chips linking to them
+  citations?: Citation[]
+  onCitationClick?: (index: number) => void
 }
 
-export default function MarkdownRenderer({ content, className = '' }: MarkdownRendererProps) {
+interface HoveredCitation {
+  index: number
+  top: number
+  left: number
+}
+
+const HOVER_CARD_WIDTH = 256
+
+function citationChip(target: EventTarget | null): HTMLElement | null {
+  return target instanceof Element ? target.closest<HTMLElement>('[data-citation-index]') : null
+}
+
+export default function MarkdownRenderer({
+  content,
+  className = '',
+  citations = [],
+  onCitationClick,
+}: MarkdownRendererProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [hovered, setHovered] = useState<HoveredCitation | null>(null)
+
+  const showHoverCard = (chip: HTMLElement) => {
+    const container = containerRef.current
+    const index = Number(chip.dataset.citationIndex)
+    if (!container || !citations[index]) return
+    const box = container.getBoundingClientRect()
+    const chipBox = chip.getBoundingClientRect()
+    setHovered({
+      index,
+      top: chipBox.bottom - box.top + 4,
+      left: Math.max(0, Math.min(chipBox.left - box.left, box.width - HOVER_CARD_WIDTH)),
+    })
+  }
+
+  const handlePointerOver = (event: React.SyntheticEvent) => {
+    const chip = citationChip(event.target)
+    if (chip) showHoverCard(chip)
+  }
+
+  const handlePointerOut = (event: React.MouseEvent | React.FocusEvent) => {
+    if (citationChip(event.target) && !citationChip(event.relatedTarget)) setHovered(null)
+  }
+
+  const handleClick = (event: React.MouseEvent) => {
+    const chip = citationChip(event.target)
+    if (chip) onCitationClick?.(Number(chip.dataset.citationIndex))
+  }
+
   const renderMarkdown = (text: string) => {
     // Parse code blocks first
     const codeBlockRegex = /```(\w+)?\n([\s\S]*?)```/g
@@ -58,7 +110,9 @@ export default function MarkdownRenderer({ content, className = '' }: MarkdownRe
       return (
         <div
           key={idx}
-          dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(processTextMarkdown(part.content)) }}
+          dangerouslySetInnerHTML={{
+            __html: DOMPurify.sanitize(linkCitationMarkers(processTextMarkdown(part.content), citations)),
+          }}
         />
       )
     })
@@ -155,9 +209,39 @@ export default function MarkdownRenderer({ content, className = '' }: MarkdownRe
     return processed
   }
 
+  const hoveredCitation = hovered ? citations[hovered.index] : undefined
+  const hoveredRelevance = hoveredCitation ? citationRelevance(hoveredCitation) : null
+
   return (
-    <div className={`selve-markdown prose dark:prose-invert max-w-none ${className}`}>
+    <div
+      ref={containerRef}
+      className={`selve-markdown prose dark:prose-invert max-w-none relative ${className}`}
+      onMouseOver={handlePointerOver}
+      onMouseOut={handlePointerOut}
+      onFocus={handlePointerOver}
+      onBlur={handlePointerOut}
+      onClick={handleClick}
+    >
       {renderMarkdown(content)}
+      {hovered && hoveredCitation && (
+        <div
+          role="tooltip"
+          className="not-prose pointer-events-none absolute z-20 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 p-3 text-xs shadow-lg"
+          style={{ top: hovered.top, left: hovered.left, width: HOVER_CARD_WIDTH }}
+        >
+          <p className="font-medium text-zinc-900 dark:text-white line-clamp-2">
+            {hoveredCitation.title || 'SELVE Knowledge'}
+          </p>
+          {(hoveredCitation.channel || (hoveredRelevance !== null && hoveredRelevance > 0)) && (
+            <p className="mt-1 flex items-center gap-2 text-[10px] text-zinc-500">
+              {hoveredCitation.channel && <span>{hoveredCitation.channel}</span>}
+              {hoveredRelevance !== null && hoveredRelevance > 0 && (
+                <span className="ml-auto">{hoveredRelevance}% relevant</span>
+              )}
+            </p>
+          )}
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
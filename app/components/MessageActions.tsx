@@ -1,13 +1,21 @@
 'use client'
 
-import { Copy, RefreshCw, ThumbsUp, ThumbsDown, Pencil, ChevronLeft, ChevronRight, Check } from 'lucide-react'
+import { Copy, RefreshCw, ThumbsUp, ThumbsDown, Pencil, ChevronLeft, ChevronRight, Check, Play } from 'lucide-react'
 import { useState } from 'react'
+import FeedbackPopover from './FeedbackPopover'
+import type { MessageFeedback } from '../lib/feedback'
+import { logger } from '../../lib/logger'
+
+const log = logger.child({ component: 'MessageActions' })
 
 interface MessageActionsProps {
   messageId: string
   content: string
   onRegenerate?: () => void
-  onFeedback?: (type: 'helpful' | 'not_helpful') => void
+  onContinue?: () => void
+  // Feedback the user gave; null withdraws it
+  feedback?: MessageFeedback | null
+  onFeedback?: (feedback: MessageFeedback | null) => void
   isRegenerating?: boolean
   isVisible?: boolean
   regenerationIndex?: number
@@ -19,6 +27,8 @@ export default function MessageActions({
   messageId,
   content,
   onRegenerate,
+  onContinue,
+  feedback = null,
   onFeedback,
   isRegenerating,
   isVisible = true,
@@ -27,7 +37,8 @@ export default function MessageActions({
   onNavigateRegenerations,
 }: MessageActionsProps) {
   const [copied, setCopied] = useState(false)
-  const [feedbackGiven, setFeedbackGiven] = useState<'helpful' | 'not_helpful' | null>(null)
+  const [isFeedbackOpen, setIsFeedbackOpen] = useState(false)
+  const feedbackGiven = feedback?.type ?? null
 
   const handleCopy = async () => {
     try {
@@ -35,14 +46,19 @@ export default function MessageActions({
       setCopied(true)
       setTimeout(() => setCopied(false), 2000)
     } catch (err) {
-      console.error('Failed to copy:', err)
+      log.error('Failed to copy', { action: 'copy', error: err })
     }
   }
 
-  const handleFeedback = (type: 'helpful' | 'not_helpful') => {
-    if (feedbackGiven) return // Prevent changing feedback
-    setFeedbackGiven(type)
-    onFeedback?.(type)
+  // Clicking the chosen thumb again takes the rating back
+  const handleHelpful = () => {
+    setIsFeedbackOpen(false)
+    onFeedback?.(feedbackGiven === 'helpful' ? null : { type: 'helpful' })
+  }
+
+  const handleFeedbackSubmit = (value: MessageFeedback | null) => {
+    setIsFeedbackOpen(false)
+    onFeedback?.(value)
   }
 
   const showNavigation = totalRegenerations && totalRegenerations > 1
@@ -77,6 +93,19 @@ export default function MessageActions({
         </>
       )}
 
+      {/* Continue an interrupted response */}
+      {onContinue && (
+        <button
+          onClick={onContinue}
+          title="Continue generating"
+          aria-label="Continue generating"
+          className="flex items-center gap-1 rounded-md px-2 py-1.5 text-xs font-medium text-purple-600 dark:text-purple-400 transition-colors hover:bg-zinc-200 dark:hover:bg-zinc-800 cursor-pointer"
+        >
+          <Play className="h-3.5 w-3.5 md:h-4 md:w-4" aria-hidden="true" />
+          Continue
+        </button>
+      )}
+
       {/* Copy */}
       <button
         onClick={handleCopy}
@@ -106,11 +135,10 @@ export default function MessageActions({
 
       {/* Helpful */}
       {onFeedback && (
-        <>
+        <div className="relative flex items-center gap-1">
           <button
-            onClick={() => handleFeedback('helpful')}
-            disabled={feedbackGiven !== null}
-            title="Helpful"
+            onClick={handleHelpful}
+            title={feedbackGiven === 'helpful' ? 'Remove rating' : 'Helpful'}
             aria-label="Mark as helpful"
             aria-pressed={feedbackGiven === 'helpful'}
             className={`rounded-md p-1.5 transition-colors ${
@@ -124,9 +152,9 @@ export default function MessageActions({
 
           {/* Not Helpful */}
           <button
-            onClick={() => handleFeedback('not_helpful')}
-            disabled={feedbackGiven !== null}
+            onClick={() => setIsFeedbackOpen(!isFeedbackOpen)}
             title="Not helpful"
+            aria-expanded={isFeedbackOpen}
             aria-label="Mark as not helpful"
             aria-pressed={feedbackGiven === 'not_helpful'}
             className={`rounded-md p-1.5 transition-colors ${
@@ -137,7 +165,16 @@ export default function MessageActions({
           >
             <ThumbsDown className={`h-3.5 w-3.5 md:h-4 md:w-4 ${feedbackGiven === 'not_helpful' ? 'fill-current' : ''}`} aria-hidden="true" />
           </button>
-        </>
+
+          {isFeedbackOpen && (
+            <FeedbackPopover
+              initial={feedbackGiven === 'not_helpful' ? feedback : null}
+              onSubmit={handleFeedbackSubmit}
+              onRemove={feedbackGiven === 'not_helpful' ? () => handleFeedbackSubmit(null) : undefined}
+              onClose={() => setIsFeedbackOpen(false)}
+            />
+          )}
+        </div>
       )}
     </div>
   )
@@ -146,9 +183,19 @@ export default function MessageActions({
 interface UserMessageActionsProps {
   content: string
   onEdit?: () => void
+  // Edited versions of this message
+  versionIndex?: number
+  totalVersions?: number
+  onNavigateVersions?: (direction: 'prev' | 'next') => void
 }
 
-export function UserMessageActions({ content, onEdit }: UserMessageActionsProps) {
+export function UserMessageActions({
+  content,
+  onEdit,
+  versionIndex,
+  totalVersions,
+  onNavigateVersions,
+}: UserMessageActionsProps) {
   const [copied, setCopied] = useState(false)
 
   const handleCopy = async () => {
@@ -157,12 +204,41 @@ export function UserMessageActions({ content, onEdit }: UserMessageActionsProps)
       setCopied(true)
       setTimeout(() => setCopied(false), 2000)
     } catch (err) {
-      console.error('Failed to copy:', err)
+      log.error('Failed to copy', { action: 'copy', error: err })
     }
   }
 
+  const showNavigation = totalVersions && totalVersions > 1
+
   return (
-    <div className={`flex items-center gap-1 mt-1 transition-opacity ${copied ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`} role="toolbar" aria-label="Message actions">
+    <div className={`flex items-center gap-1 mt-1 transition-opacity ${copied || showNavigation ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`} role="toolbar" aria-label="Message actions">
+      {/* Navigation between edited versions */}
+      {showNavigation && onNavigateVersions && (
+        <>
+          <button
+            onClick={() => onNavigateVersions('prev')}
+            disabled={versionIndex === 1}
+            title="Previous version"
+            aria-label="Previous version"
+            className="rounded-md p-1.5 text-zinc-500 dark:text-zinc-500 transition-colors hover:bg-zinc-200 dark:hover:bg-zinc-800 hover:text-zinc-700 dark:hover:text-zinc-300 disabled:cursor-not-allowed disabled:opacity-30 cursor-pointer"
+          >
+            <ChevronLeft className="h-3.5 w-3.5 md:h-4 md:w-4" />
+          </button>
+          <span className="px-1 text-xs text-zinc-500 dark:text-zinc-500" aria-live="polite">
+            {versionIndex}/{totalVersions}
+          </span>
+          <button
+            onClick={() => onNavigateVersions('next')}
+            disabled={versionIndex === totalVersions}
+            title="Next version"
+            aria-label="Next version"
+            className="rounded-md p-1.5 text-zinc-500 dark:text-zinc-500 transition-colors hover:bg-zinc-200 dark:hover:bg-zinc-800 hover:text-zinc-700 dark:hover:text-zinc-300 disabled:cursor-not-allowed disabled:opacity-30 cursor-pointer"
+          >
+            <ChevronRight className="h-3.5 w-3.5 md:h-4 md:w-4" />
+          </button>
+        </>
+      )}
+
       {/* Edit */}
       {onEdit && (
         <button
@@ -0,0 +1,89 @@
+'use client'
+
+import { MouseEvent } from 'react'
+import { ShieldCheck } from 'lucide-react'
+import type { PIIMatch } from '../../lib/pii'
+
+interface PrivacyGuardProps {
+  text: string
+  matches: PIIMatch[]
+  onRedactAndSend: (e: MouseEvent<HTMLButtonElement>) => void
+  onSendAnyway: (e: MouseEvent<HTMLButtonElement>) => void
+  onEdit: () => void
+}
+
+/** The text with each detected span marked. */
+function HighlightedText({ text, matches }: { text: string; matches: PIIMatch[] }) {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  matches.forEach((match) => {
+    if (match.start > cursor) parts.push(text.slice(cursor, match.start))
+    parts.push(
+      <mark
+        key={match.start}
+        title={match.label}
+        className="rounded bg-amber-200/80 dark:bg-amber-500/30 px-0.5 text-inherit"
+      >
+        {match.text}
+      </mark>
+    )
+    cursor = match.end
+  })
+  if (cursor < text.length) parts.push(text.slice(cursor))
+  return <>{parts}</>
+}
+
+/**
+ * PrivacyGuard Component
+ *
+ * Shown instead of sending when the message looks like it contains personal
+ * data (emails, card numbers, keys...). Marks what was found and lets the
+ * user redact it, send as is, or go back to editing.
+ */
+export default function PrivacyGuard({ text, matches, onRedactAndSend, onSendAnyway, onEdit }: PrivacyGuardProps) {
+  const labels = [...new Set(matches.map((match) => match.label.toLowerCase()))]
+
+  return (
+    <section
+      role="alertdialog"
+      aria-label="Sensitive information detected"
+      className="space-y-3 rounded-2xl border border-amber-500/40 bg-amber-50 dark:bg-amber-950/30 px-4 py-3 text-sm"
+    >
+      <div className="flex items-start gap-2">
+        <ShieldCheck className="mt-0.5 h-4 w-4 shrink-0 text-amber-600 dark:text-amber-400" />
+        <p className="text-amber-800 dark:text-amber-300">
+          This message looks like it contains {labels.join(', ')}. You may not want to share that.
+        </p>
+      </div>
+
+      <p className="max-h-32 overflow-y-auto whitespace-pre-wrap break-words rounded-lg bg-white/70 dark:bg-black/20 px-3 py-2 text-zinc-800 dark:text-zinc-200">
+        <HighlightedText text={text} matches={matches} />
+      </p>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <button
+          type="button"
+          onClick={onEdit}
+          className="px-3 py-1.5 text-xs text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white transition-colors cursor-pointer"
+        >
+          Edit
+        </button>
+        <button
+          type="button"
+          onClick={onSendAnyway}
+          className="rounded-lg border border-zinc-300 dark:border-zinc-700 px-3 py-1.5 text-xs font-medium text-zinc-700 dark:text-zinc-200 transition hover:bg-zinc-100 dark:hover:bg-zinc-800 cursor-pointer"
+        >
+          Send anyway
+        </button>
+        <button
+          type="button"
+          onClick={onRedactAndSend}
+          autoFocus
+          className="rounded-lg bg-[#de6b35] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[#f07c45] cursor-pointer"
+        >
+          Redact and send
+        </button>
+      </div>
+    </section>
+  )
+}
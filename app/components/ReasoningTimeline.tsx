@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronRight } from 'lucide-react'
+import {
+  formatDuration,
+  ReasoningStep,
+  reasoningPhases,
+  reasoningSources,
+  stepDuration,
+} from '../lib/reasoning'
+
+interface ReasoningTimelineProps {
+  steps: ReasoningStep[]
+  className?: string
+}
+
+function formatToolArgs(args: Record<string, unknown>): string {
+  try {
+    return JSON.stringify(args)
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * ReasoningTimeline Component
+ *
+ * Collapsible record of how an answer was produced: the phases the backend
+ * went through, the tools it called with their arguments, the sources it
+ * found and how long each step took. Only answers written since the chat
+ * was opened have one: the steps aren't stored with the conversation.
+ */
+export default function ReasoningTimeline({ steps, className = '' }: ReasoningTimelineProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  if (steps.length === 0) return null
+
+  const phases = reasoningPhases(steps)
+  const sources = reasoningSources(steps)
+  const totalMs = phases.every((phase) => phase.durationMs !== null)
+    ? phases.reduce((sum, phase) => sum + (phase.durationMs ?? 0), 0)
+    : null
+
+  return (
+    <div className={`mt-2 ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-2 text-xs text-zinc-400 hover:text-zinc-300 transition-colors"
+        aria-expanded={isExpanded}
+      >
+        <ChevronRight className={`h-3.5 w-3.5 transition-transform duration-200 ${isExpanded ? 'rotate-90' : ''}`} />
+        <span className="font-medium">How this answer was built</span>
+        <span className="text-zinc-500">
+          {steps.length} step{steps.length !== 1 ? 's' : ''}
+          {totalMs !== null && ` · ${formatDuration(totalMs)}`}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3 space-y-3 border-l border-zinc-300/40 dark:border-zinc-700/60 pl-4">
+          {phases.map((phase, phaseIndex) => (
+            <section key={phaseIndex} className="space-y-1.5">
+              {phase.phase !== null && (
+                <h4 className="text-[10px] font-semibold uppercase tracking-wide text-zinc-500">
+                  Phase {phase.phase}
+                  {phase.totalPhases ? ` of ${phase.totalPhases}` : ''}
+                  {phase.durationMs !== null && ` · ${formatDuration(phase.durationMs)}`}
+                </h4>
+              )}
+              <ol className="space-y-1.5">
+                {phase.steps.map((step, stepIndex) => {
+                  const duration = stepDuration(step)
+                  const toolArgs = step.details?.tool_args ? formatToolArgs(step.details.tool_args) : ''
+
+                  return (
+                    <li key={stepIndex} className="text-xs text-zinc-600 dark:text-zinc-300">
+                      <div className="flex items-baseline gap-2">
+                        <span className="min-w-0 flex-1">{step.message}</span>
+                        {duration !== null && (
+                          <span className="shrink-0 text-[10px] text-zinc-500">{formatDuration(duration)}</span>
+                        )}
+                      </div>
+                      {step.details?.tool_name && (
+                        <div className="mt-0.5 font-mono text-[10px] text-zinc-500 break-all">
+                          {step.details.tool_name}
+                          {toolArgs && `(${toolArgs})`}
+                        </div>
+                      )}
+                      {step.details?.tools_used && step.details.tools_used.length > 0 && (
+                        <div className="mt-0.5 text-[10px] text-zinc-500">
+                          Tools: {step.details.tools_used.join(', ')}
+                        </div>
+                      )}
+                    </li>
+                  )
+                })}
+              </ol>
+            </section>
+          ))}
+
+          {sources.length > 0 && (
+            <section className="space-y-1">
+              <h4 className="text-[10px] font-semibold uppercase tracking-wide text-zinc-500">Sources found</h4>
+              <ul className="space-y-0.5">
+                {sources.map((source) => (
+                  <li key={`${source.source}:${source.title}`} className="text-xs text-zinc-600 dark:text-zinc-300">
+                    {source.title} <span className="text-[10px] text-zinc-500">({source.source})</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <p className="text-[10px] text-zinc-500">Steps are shown for answers written since this chat was opened.</p>
+        </div>
+      )}
+    </div>
+  )
+}
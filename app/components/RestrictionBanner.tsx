@@ -0,0 +1,148 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ShieldAlert } from 'lucide-react'
+import {
+  formatCountdown,
+  MAX_APPEAL_LENGTH,
+  Restriction,
+  restrictionRemainingMs,
+} from '../lib/restriction'
+
+interface RestrictionBannerProps {
+  restriction: Restriction
+  // Omitted for guests, who can't appeal
+  onAppeal?: (message: string) => Promise<void>
+}
+
+const APPEAL_STATUS_TEXT = {
+  pending: 'Appeal submitted. We will review it and lift the restriction if it was a mistake.',
+  approved: 'Your appeal was approved. Access will be restored shortly.',
+  rejected: 'Your appeal was reviewed and the restriction stays in place.',
+}
+
+function useNow(active: boolean): number {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!active) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [active])
+
+  return now
+}
+
+/**
+ * RestrictionBanner Component
+ *
+ * Shown above the input while the user is restricted: why, for how long
+ * (counting down to the expiry) and a form to appeal.
+ */
+export default function RestrictionBanner({ restriction, onAppeal }: RestrictionBannerProps) {
+  const now = useNow(restriction.expiresAt !== null)
+  const [isAppealOpen, setIsAppealOpen] = useState(false)
+  const [appealMessage, setAppealMessage] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [appealError, setAppealError] = useState<string | null>(null)
+
+  const remaining = restrictionRemainingMs(restriction, now)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const trimmed = appealMessage.trim()
+    if (!trimmed || !onAppeal) return
+
+    setIsSubmitting(true)
+    setAppealError(null)
+    try {
+      await onAppeal(trimmed)
+      setIsAppealOpen(false)
+      setAppealMessage('')
+    } catch {
+      setAppealError('Could not send your appeal. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-4xl px-6 sm:px-12 md:px-14 lg:px-16">
+      <section
+        role="alert"
+        aria-label="Access restricted"
+        className="space-y-3 rounded-lg border border-red-500/40 bg-red-50 dark:bg-red-950/30 px-4 py-3 text-sm"
+      >
+        <div className="flex items-start gap-3">
+          <ShieldAlert className="mt-0.5 h-4 w-4 shrink-0 text-red-600 dark:text-red-400" />
+          <div className="min-w-0 flex-1 space-y-1">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <p className="font-semibold text-red-800 dark:text-red-300">Access restricted</p>
+              {remaining !== null && (
+                <p className="text-xs text-red-700 dark:text-red-400">
+                  Try again in <span className="font-mono tabular-nums">{formatCountdown(remaining)}</span>
+                </p>
+              )}
+            </div>
+            {restriction.message && <p className="text-red-700 dark:text-red-300">{restriction.message}</p>}
+            {restriction.policy && (
+              <p className="text-xs text-red-700/90 dark:text-red-300/90">
+                <span className="font-medium">Policy: {restriction.policy.title}.</span>
+                {restriction.policy.description && ` ${restriction.policy.description}`}
+              </p>
+            )}
+            {remaining === null && (
+              <p className="text-xs text-red-700/90 dark:text-red-300/90">
+                This restriction stays until it is reviewed.
+              </p>
+            )}
+          </div>
+        </div>
+
+        {restriction.appeal ? (
+          <p className="text-xs text-zinc-600 dark:text-zinc-300">{APPEAL_STATUS_TEXT[restriction.appeal.status]}</p>
+        ) : onAppeal && !isAppealOpen ? (
+          <button
+            onClick={() => setIsAppealOpen(true)}
+            className="text-xs font-medium text-red-700 dark:text-red-300 underline-offset-2 hover:underline cursor-pointer"
+          >
+            Think this is a mistake? Appeal
+          </button>
+        ) : null}
+
+        {isAppealOpen && !restriction.appeal && (
+          <form onSubmit={handleSubmit} className="space-y-2">
+            <label className="block">
+              <span className="sr-only">Why should the restriction be lifted?</span>
+              <textarea
+                value={appealMessage}
+                onChange={(event) => setAppealMessage(event.target.value)}
+                maxLength={MAX_APPEAL_LENGTH}
+                rows={3}
+                placeholder="Explain why you think this restriction is a mistake"
+                className="w-full resize-none rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-transparent px-3 py-2 text-sm text-zinc-900 dark:text-white placeholder:text-zinc-400 focus:border-[#de6b35] focus:outline-none"
+              />
+            </label>
+            {appealError && <p className="text-xs text-red-600 dark:text-red-400">{appealError}</p>}
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setIsAppealOpen(false)}
+                className="px-3 py-1.5 text-xs text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white transition-colors cursor-pointer"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!appealMessage.trim() || isSubmitting}
+                className="rounded-lg bg-[#de6b35] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[#f07c45] disabled:cursor-not-allowed disabled:opacity-60 cursor-pointer"
+              >
+                {isSubmitting ? 'Sending…' : 'Send appeal'}
+              </button>
+            </div>
+          </form>
+        )}
+      </section>
+    </div>
+  )
+}
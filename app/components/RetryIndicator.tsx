@@ -4,6 +4,7 @@ import { RetryState } from '../hooks/useRetry'
 
 interface RetryIndicatorProps {
   retryState: RetryState
+  onCancel?: () => void
   className?: string
 }
 
@@ -12,9 +13,10 @@ interface RetryIndicatorProps {
  * 
  * Displays retry status with countdown timer and attempt information.
  * Shows visual feedback during automatic retry with exponential backoff.
+ * When `onCancel` is provided, the user can stop retrying early.
  */
-export default function RetryIndicator({ retryState, className = '' }: RetryIndicatorProps) {
-  const { isRetrying, attempt, maxAttempts, nextRetryIn, lastError } = retryState
+export default function RetryIndicator({ retryState, onCancel, className = '' }: RetryIndicatorProps) {
+  const { isRetrying, attempt, maxAttempts, nextRetryIn, retryDelay, lastError } = retryState
 
   if (!isRetrying) {
     return null
@@ -56,6 +58,15 @@ export default function RetryIndicator({ retryState, className = '' }: RetryIndi
               <span className="text-xs text-amber-600 dark:text-amber-400 bg-amber-100 dark:bg-amber-800/50 px-2 py-0.5 rounded-full">
                 Attempt {attempt}/{maxAttempts}
               </span>
+              {onCancel && (
+                <button
+                  onClick={onCancel}
+                  className="ml-auto text-xs font-medium text-amber-700 dark:text-amber-300 hover:text-amber-900 dark:hover:text-amber-100 underline-offset-2 hover:underline cursor-pointer"
+                  aria-label="Cancel retry"
+                >
+                  Cancel
+                </button>
+              )}
             </div>
 
             {/* Error message */}
@@ -71,7 +82,7 @@ export default function RetryIndicator({ retryState, className = '' }: RetryIndi
                 <div className="flex-1 h-1 bg-amber-200 dark:bg-amber-800 rounded-full overflow-hidden">
                   <div
                     className="h-full bg-amber-500 dark:bg-amber-400 transition-all duration-1000 ease-linear"
-                    style={{ width: `${(1 - nextRetryIn / 10) * 100}%` }}
+                    style={{ width: `${(1 - nextRetryIn / (retryDelay || 10)) * 100}%` }}
                   />
                 </div>
                 <span className="text-xs font-mono text-amber-600 dark:text-amber-400">
@@ -5,6 +5,10 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { Search, X } from 'lucide-react'
 import { useDebounce } from '../hooks/useDebounce'
 import { useUser } from '@clerk/nextjs'
+import { apiClient } from '../lib/apiClient'
+import { logger } from '../../lib/logger'
+
+const log = logger.child({ component: 'SearchModal' })
 
 interface Message {
   role: 'user' | 'assistant'
@@ -44,8 +48,6 @@ export default function SearchModal({
   const [isSearching, setIsSearching] = React.useState(false)
   const { user } = useUser()
 
-  const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-
   // Set searching state immediately when query changes
   React.useEffect(() => {
     if (searchQuery.trim()) {
@@ -63,19 +65,10 @@ export default function SearchModal({
       }
 
       try {
-        const response = await fetch(
-          `${API_URL}/api/sessions/search/${user.id}?q=${encodeURIComponent(debouncedQuery)}&limit=20`
-        )
-        
-        if (response.ok) {
-          const results = await response.json()
-          setSearchResults(results)
-        } else {
-          console.error('Search failed:', response.statusText)
-          setSearchResults([])
-        }
+        const results = await apiClient.searchSessions(user.id, debouncedQuery, { limit: 20 })
+        setSearchResults(Array.isArray(results) ? results : [])
       } catch (error) {
-        console.error('Search error:', error)
+        log.error('Search error', { action: 'search', error })
         setSearchResults([])
       } finally {
         setIsSearching(false)
@@ -83,7 +76,7 @@ export default function SearchModal({
     }
 
     searchBackend()
-  }, [debouncedQuery, user, API_URL])
+  }, [debouncedQuery, user])
 
   const displayResults = debouncedQuery.trim() ? searchResults : sessions
 
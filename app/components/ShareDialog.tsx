@@ -0,0 +1,129 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Copy, Link2, X } from 'lucide-react'
+import { logger } from '../../lib/logger'
+
+const log = logger.child({ component: 'ShareDialog' })
+
+interface ShareDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  // Current link for this conversation, if one exists
+  shareUrl: string | null
+  onCreate: () => Promise<void>
+  onRevoke: () => Promise<void>
+}
+
+/**
+ * ShareDialog Component
+ *
+ * Creates, copies and revokes the read-only link for the current conversation.
+ */
+export default function ShareDialog({ isOpen, onClose, shareUrl, onCreate, onRevoke }: ShareDialogProps) {
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  if (!isOpen) return null
+
+  const run = async (action: () => Promise<void>, failureMessage: string) => {
+    setIsWorking(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      log.error(failureMessage, { error: err })
+      setError(failureMessage)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!shareUrl) return
+    try {
+      await navigator.clipboard.writeText(shareUrl)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      log.error('Failed to copy link', { action: 'copy', error: err })
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[70] flex items-center justify-center bg-black/70 px-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="share-dialog-title"
+        className="w-full max-w-md rounded-2xl border border-zinc-300 dark:border-[#2c261f] bg-white dark:bg-[#141312] p-6 shadow-2xl shadow-black/20 dark:shadow-black/40"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h2 id="share-dialog-title" className="text-lg font-semibold text-zinc-900 dark:text-white">
+            Share conversation
+          </h2>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1 text-zinc-500 transition-colors hover:bg-zinc-100 dark:hover:bg-[#1a1917] hover:text-zinc-900 dark:hover:text-white cursor-pointer"
+            aria-label="Close"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <p className="mb-5 text-sm text-zinc-600 dark:text-zinc-300">
+          Anyone with the link can read a snapshot of this conversation. Your name and SELVE scores are hidden, and later messages are not included.
+        </p>
+
+        {shareUrl ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 rounded-lg border border-zinc-300 dark:border-[#2c261f] bg-zinc-50 dark:bg-[#1a1917] px-3 py-2">
+              <Link2 className="h-4 w-4 shrink-0 text-zinc-500" />
+              <input
+                readOnly
+                value={shareUrl}
+                onFocus={(e) => e.target.select()}
+                className="min-w-0 flex-1 bg-transparent text-sm text-zinc-900 dark:text-white outline-none"
+                aria-label="Share link"
+              />
+              <button
+                onClick={handleCopy}
+                className="flex items-center gap-1 rounded-md px-2 py-1 text-xs font-medium text-[#de6b35] transition-colors hover:bg-[#de6b35]/10 cursor-pointer"
+              >
+                {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+            <button
+              onClick={() => run(onRevoke, 'Could not revoke the link. Please try again.')}
+              disabled={isWorking}
+              className="text-sm font-medium text-red-600 dark:text-red-400 hover:underline disabled:cursor-not-allowed disabled:opacity-50 cursor-pointer"
+            >
+              Revoke link
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => run(onCreate, 'Could not create a link. Please try again.')}
+            disabled={isWorking}
+            className="flex w-full items-center justify-center gap-2 rounded-lg bg-[#de6b35] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[#f07c45] disabled:cursor-not-allowed disabled:opacity-60 cursor-pointer"
+          >
+            <Link2 className="h-4 w-4" />
+            {isWorking ? 'Creating link...' : 'Create link'}
+          </button>
+        )}
+
+        {error && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400" role="alert">
+            {error}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
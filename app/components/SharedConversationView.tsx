@@ -0,0 +1,119 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import ChatMessages from './ChatMessages'
+import type { Citation } from './SourceCitations'
+import { apiClient, HttpError } from '../lib/apiClient'
+import { redactScores, SharedConversation } from '../lib/share'
+
+interface SharedConversationViewProps {
+  shareId: string
+}
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'ready'; conversation: SharedConversation }
+  | { status: 'error'; message: string }
+
+function errorMessage(err: unknown): string {
+  if (err instanceof HttpError && err.status === 410) return 'This link has been revoked by its owner.'
+  if (err instanceof HttpError && err.status === 404) return 'This shared conversation does not exist.'
+  return 'Could not load this conversation. Please try again later.'
+}
+
+// Snapshots carry no message IDs; citations are matched by position instead
+function sharedMessageId(index: number): string {
+  return `shared-${index}`
+}
+
+/**
+ * SharedConversationView Component
+ *
+ * Read-only rendering of a shared snapshot: no input, no message actions.
+ */
+export default function SharedConversationView({ shareId }: SharedConversationViewProps) {
+  const [state, setState] = useState<LoadState>({ status: 'loading' })
+
+  useEffect(() => {
+    let cancelled = false
+    apiClient
+      .getShare(shareId)
+      .then((conversation) => {
+        if (!cancelled) setState({ status: 'ready', conversation })
+      })
+      .catch((err) => {
+        if (!cancelled) setState({ status: 'error', message: errorMessage(err) })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [shareId])
+
+  const conversation = state.status === 'ready' ? state.conversation : null
+
+  // Scores are stripped again in case the snapshot predates redaction
+  const messages = useMemo(
+    () =>
+      (conversation?.messages ?? []).map((message, index) => ({
+        id: sharedMessageId(index),
+        role: message.role,
+        content: redactScores(message.content),
+      })),
+    [conversation]
+  )
+
+  const citations = useMemo(() => {
+    const byId: Record<string, Citation[]> = {}
+    conversation?.messages.forEach((message, index) => {
+      if (message.citations?.length) byId[sharedMessageId(index)] = message.citations
+    })
+    return byId
+  }, [conversation])
+
+  return (
+    <div className="relative z-10 flex min-h-screen flex-col text-zinc-900 dark:text-white">
+      <header className="flex h-14 shrink-0 items-center justify-between border-b border-zinc-200/30 dark:border-[#1f1e1c]/30 bg-[#faf9f7]/80 dark:bg-[#0d0f14]/80 px-4 backdrop-blur-md">
+        <div className="min-w-0">
+          <p className="text-xs text-zinc-500 dark:text-zinc-400">Shared conversation</p>
+          <h1 className="truncate text-sm font-semibold">
+            {conversation ? redactScores(conversation.title) : 'SELVE Chat'}
+          </h1>
+        </div>
+        <Link
+          href="/"
+          className="rounded-lg bg-[#de6b35] px-3 py-1.5 text-sm font-semibold text-white transition hover:bg-[#f07c45]"
+        >
+          Start your own chat
+        </Link>
+      </header>
+
+      <main className="mx-auto w-full max-w-4xl flex-1 px-2 sm:px-8 md:px-12 lg:px-14 pb-8">
+        {state.status === 'loading' && (
+          <p className="py-16 text-center text-sm text-zinc-500">Loading conversation...</p>
+        )}
+        {state.status === 'error' && (
+          <p className="py-16 text-center text-sm text-zinc-600 dark:text-zinc-300" role="alert">
+            {state.message}
+          </p>
+        )}
+        {conversation && (
+          <>
+            <ChatMessages
+              messages={messages}
+              streamingContent=""
+              isLoading={false}
+              thinkingStatus={null}
+              enableTypewriter={false}
+              messageCitations={citations}
+              readOnly
+            />
+            <p className="pb-4 text-center text-xs text-zinc-500">
+              Shared {new Date(conversation.created_at).toLocaleDateString()} · Names and scores are hidden
+            </p>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
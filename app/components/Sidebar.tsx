@@ -2,11 +2,13 @@
 
 import * as React from 'react'
 import { motion } from 'framer-motion'
-import { Search, Plus, MessageSquare, Trash2 } from 'lucide-react'
+import { Search, Plus, MessageSquare, Trash2, Upload } from 'lucide-react'
 import { SelveLogo } from './SelveLogo'
 import { AnimatedHamburgerIcon } from './AnimatedHamburgerIcon'
 import UserMenu from './UserMenu'
 import SearchModal from './SearchModal'
+import ImportDialog from './ImportDialog'
+import type { ImportedConversation, ImportResult } from '../lib/conversationImport'
 
 interface Session {
   id: string
@@ -34,6 +36,7 @@ interface SidebarProps {
   isSignedIn?: boolean
   signInUrl?: string
   currentMessages?: Message[] // Add current session messages for search
+  onImport?: (conversations: ImportedConversation[]) => Promise<ImportResult[]>
 }
 
 export default function Sidebar({
@@ -50,8 +53,10 @@ export default function Sidebar({
   isSignedIn = false,
   signInUrl,
   currentMessages = [],
+  onImport,
 }: SidebarProps) {
   const [isSearchOpen, setIsSearchOpen] = React.useState(false)
+  const [isImportOpen, setIsImportOpen] = React.useState(false)
   const homeUrl = process.env.NEXT_PUBLIC_CHATBOT_URL || '/'
 
   const sidebarVariants = {
@@ -157,6 +162,17 @@ export default function Sidebar({
           >
             <Search className="h-5 w-5" aria-hidden="true" />
           </button>
+
+          {/* Import Icon */}
+          {onImport && (
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="shrink-0 p-2 text-zinc-600 dark:text-zinc-400 transition-colors duration-300 hover:text-zinc-900 dark:hover:text-zinc-200 cursor-pointer"
+              aria-label="Import conversations"
+            >
+              <Upload className="h-5 w-5" aria-hidden="true" />
+            </button>
+          )}
         </div>
 
         {/* Sessions List */}
@@ -251,6 +267,15 @@ export default function Sidebar({
         currentSessionMessages={currentMessages}
         currentSessionId={activeSessionId}
       />
+
+      {/* Import Dialog */}
+      {onImport && (
+        <ImportDialog
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          onImport={onImport}
+        />
+      )}
     </>
   )
 }
@@ -1,8 +1,12 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { citationRelevance } from '../lib/citations'
+import { youtubeStartSeconds, youtubeVideoId } from '../lib/youtube'
+import YouTubePreview from './YouTubePreview'
 
 export interface Citation {
+  id?: string // Referenced by `[^id]` markers in the answer
   title: string
   source: string
   type?: string // 'selve_web', 'youtube', 'rag', 'web'
@@ -10,6 +14,7 @@ export interface Citation {
   category?: string // For web pages: 'product', 'blog', 'privacy', etc.
   channel?: string // For YouTube videos
   video_id?: string // For YouTube videos
+  start_time?: number // For YouTube videos: seconds into the video where the cited segment starts
   relevance?: number // 0-100 relevance score
   section?: string
   score?: number // Legacy compatibility
@@ -18,6 +23,9 @@ export interface Citation {
 interface SourceCitationsProps {
   sources: Citation[]
   className?: string
+  // Source picked from an inline marker: the list opens, scrolls to it and
+  // highlights it. A new object for every pick, so repeats scroll again.
+  highlight?: { index: number } | null
 }
 
 /**
@@ -27,8 +35,22 @@ interface SourceCitationsProps {
  * Shows where the chatbot got information from: SELVE content, YouTube, knowledge base, or web.
  * Clean, professional design with expandable details.
  */
-export default function SourceCitations({ sources, className = '' }: SourceCitationsProps) {
+export default function SourceCitations({ sources, className = '', highlight = null }: SourceCitationsProps) {
   const [isExpanded, setIsExpanded] = useState(false)
+  const [openedFor, setOpenedFor] = useState<SourceCitationsProps['highlight']>(null)
+  const entryRefs = useRef<Array<HTMLDivElement | null>>([])
+  const highlightedIndex = highlight?.index ?? null
+
+  // Open the list when a marker is picked; it stays open afterwards
+  if (highlight !== openedFor) {
+    setOpenedFor(highlight)
+    if (highlight) setIsExpanded(true)
+  }
+
+  useEffect(() => {
+    if (!highlight) return
+    entryRefs.current[highlight.index]?.scrollIntoView?.({ behavior: 'smooth', block: 'nearest' })
+  }, [highlight])
 
   if (!sources || sources.length === 0) {
     return null
@@ -144,13 +166,6 @@ export default function SourceCitations({ sources, className = '' }: SourceCitat
     }
   }
 
-  // Get relevance score
-  const getRelevance = (source: Citation): number | null => {
-    if (source.relevance !== undefined) return source.relevance
-    if (source.score !== undefined) return Math.round(source.score * 100)
-    return null
-  }
-
   return (
     <div className={`mt-4 ${className}`}>
       {/* Collapsed view - clickable header */}
@@ -178,14 +193,22 @@ export default function SourceCitations({ sources, className = '' }: SourceCitat
         <div className="mt-3 space-y-2 pl-1 animate-in slide-in-from-top-2 duration-200">
           {sources.map((source, index) => {
             const colors = getSourceColor(source)
-            const relevance = getRelevance(source)
+            const relevance = citationRelevance(source)
+            const videoId = youtubeVideoId(source)
             const type = getSourceType(source)
 
             return (
               <div
                 key={index}
-                className={`group relative flex items-start gap-3 p-3 rounded-lg border ${colors.border} ${colors.bg} hover:bg-opacity-80 transition-all duration-200`}
+                ref={(element) => {
+                  entryRefs.current[index] = element
+                }}
+                data-highlighted={index === highlightedIndex || undefined}
+                className={`group relative flex items-start gap-3 p-3 rounded-lg border ${colors.border} ${colors.bg} hover:bg-opacity-80 transition-all duration-200 ${index === highlightedIndex ? 'ring-2 ring-[#de6b35]/60' : ''}`}
               >
+                {/* Number matching the inline markers */}
+                <span className="flex-shrink-0 mt-0.5 text-[10px] font-semibold text-zinc-500">{index + 1}</span>
+
                 {/* Icon */}
                 <div className={`flex-shrink-0 ${colors.text} mt-0.5`}>
                   {getSourceIcon(source)}
@@ -250,6 +273,15 @@ export default function SourceCitations({ sources, className = '' }: SourceCitat
                       "{source.section}"
                     </div>
                   )}
+
+                  {/* Inline player for YouTube sources */}
+                  {videoId && (
+                    <YouTubePreview
+                      videoId={videoId}
+                      title={source.title || 'SELVE video'}
+                      startSeconds={youtubeStartSeconds(source)}
+                    />
+                  )}
                 </div>
               </div>
             )
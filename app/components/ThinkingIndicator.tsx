@@ -1,9 +1,16 @@
 'use client'
 
+import { useEffect, useState } from 'react'
+import { ChevronDown } from 'lucide-react'
+import { ReasoningStep, reasoningSources } from '../lib/reasoning'
+
 /**
- * Simple Blinking Text ThinkingIndicator for SELVE Chatbot
+ * ThinkingIndicator for SELVE Chatbot
  *
- * Minimal, non-intrusive loading indicator that shows actual work being done.
+ * Shows the work being done before the answer starts: the current status
+ * with elapsed time and a segmented phase bar. Expanded, it also lists the
+ * detected intent, the model and the sources found so far, so long
+ * searches visibly make progress.
  */
 
 export interface ThinkingStatus {
@@ -43,6 +50,59 @@ export interface ThinkingStatus {
 interface ThinkingIndicatorProps {
   status: ThinkingStatus | null
   isVisible: boolean
+  // Status events of this answer so far, for sources and phase fallbacks
+  steps?: ReasoningStep[]
+}
+
+// Latest value of a detail, from the current status or the steps before it
+function latestDetail<K extends keyof NonNullable<ThinkingStatus['details']>>(
+  status: ThinkingStatus,
+  steps: ReasoningStep[],
+  key: K
+): NonNullable<ThinkingStatus['details']>[K] | undefined {
+  if (status.details?.[key] !== undefined) return status.details[key]
+  for (let i = steps.length - 1; i >= 0; i--) {
+    if (steps[i].details?.[key] !== undefined) return steps[i].details![key]
+  }
+  return undefined
+}
+
+// Seconds since `startedAt`, ticking once a second
+function useElapsedSeconds(startedAt: number | null): number {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (startedAt === null) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [startedAt])
+
+  return startedAt === null ? 0 : Math.max(0, Math.floor((now - startedAt) / 1000))
+}
+
+function PhaseBar({ phase, totalPhases }: { phase: number; totalPhases: number }) {
+  return (
+    <div
+      className="flex w-full max-w-xs gap-1"
+      role="progressbar"
+      aria-label="Answer progress"
+      aria-valuemin={1}
+      aria-valuemax={totalPhases}
+      aria-valuenow={phase}
+      aria-valuetext={`Phase ${phase} of ${totalPhases}`}
+    >
+      {Array.from({ length: totalPhases }, (_, index) => {
+        const segment = index + 1
+        const fill =
+          segment < phase
+            ? 'bg-[#de6b35]'
+            : segment === phase
+              ? 'bg-[#de6b35]/70 animate-pulse'
+              : 'bg-zinc-300 dark:bg-zinc-700'
+        return <span key={segment} className={`h-1 flex-1 rounded-full ${fill}`} />
+      })}
+    </div>
+  )
 }
 
 // Minimal color hints for different status types
@@ -117,7 +177,10 @@ const STATUS_CONFIG: Record<string, { cursor: string; text: string }> = {
   },
 }
 
-export default function ThinkingIndicator({ status, isVisible }: ThinkingIndicatorProps) {
+export default function ThinkingIndicator({ status, isVisible, steps = [] }: ThinkingIndicatorProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const elapsedSeconds = useElapsedSeconds(isVisible && status ? steps[0]?.startedAt ?? null : null)
+
   if (!isVisible || !status) return null
 
   const config = STATUS_CONFIG[status.status] || {
@@ -125,15 +188,65 @@ export default function ThinkingIndicator({ status, isVisible }: ThinkingIndicat
     text: 'text-gray-600 dark:text-gray-400',
   }
 
+  const phase = latestDetail(status, steps, 'phase')
+  const totalPhases = latestDetail(status, steps, 'total_phases')
+  const intent = latestDetail(status, steps, 'intent')
+  const model = latestDetail(status, steps, 'model')
+  const sources = steps.length > 0 ? reasoningSources(steps) : status.details?.sources ?? []
+  const hasDetails = Boolean(intent || model || sources.length > 0)
+
   return (
-    <div className="mb-3 flex items-center gap-2 text-sm">
-      {/* Blinking cursor */}
-      <span className={`inline-block w-1 h-4 ${config.cursor} animate-pulse`}></span>
-
-      {/* Status message */}
-      <span className={`${config.text} animate-pulse`}>
-        {status.message || 'Processing...'}
-      </span>
+    <div className="mb-3 space-y-2 text-sm" role="status">
+      <div className="flex items-center gap-2">
+        {/* Blinking cursor */}
+        <span className={`inline-block w-1 h-4 ${config.cursor} animate-pulse`}></span>
+
+        {/* Status message */}
+        <span className={`${config.text} animate-pulse`}>
+          {status.message || 'Processing...'}
+        </span>
+
+        {elapsedSeconds > 0 && <span className="text-xs text-zinc-500">{elapsedSeconds}s</span>}
+
+        {hasDetails && (
+          <button
+            type="button"
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="ml-1 rounded p-0.5 text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 transition-colors"
+            aria-expanded={isExpanded}
+            aria-label={isExpanded ? 'Hide progress details' : 'Show progress details'}
+          >
+            <ChevronDown className={`h-3.5 w-3.5 transition-transform duration-200 ${isExpanded ? 'rotate-180' : ''}`} />
+          </button>
+        )}
+      </div>
+
+      {phase !== undefined && totalPhases !== undefined && totalPhases > 1 && (
+        <PhaseBar phase={Math.min(phase, totalPhases)} totalPhases={totalPhases} />
+      )}
+
+      {isExpanded && hasDetails && (
+        <div className="space-y-1.5 pl-3 text-xs text-zinc-500 dark:text-zinc-400">
+          {(intent || model) && (
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {intent && <span>Intent: <span className="capitalize">{intent.replace(/_/g, ' ')}</span></span>}
+              {model && <span>Model: {model}</span>}
+            </div>
+          )}
+          {sources.length > 0 && (
+            <div>
+              <p>Sources found ({sources.length})</p>
+              <ul className="mt-1 space-y-0.5">
+                {sources.map((source) => (
+                  <li key={`${source.source}:${source.title}`} className="truncate text-zinc-600 dark:text-zinc-300">
+                    {source.title}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   )
 }
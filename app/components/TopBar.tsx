@@ -1,18 +1,35 @@
 'use client'
 
-import { Menu } from 'lucide-react'
+import { Menu, Share2 } from 'lucide-react'
 import Image from 'next/image'
+import ExportMenu from './ExportMenu'
+import ContextGauge from './ContextGauge'
+import type { ExportFormat } from '../lib/conversationExport'
+import type { ContextUsage } from '../lib/contextWindow'
 
 interface TopBarProps {
   onMenuClick: () => void
   title?: string
   showMenuButton?: boolean
+  // Shown only while there is a conversation to export
+  onExport?: (format: ExportFormat) => void | Promise<void>
+  // Shown only for saved conversations of signed-in users
+  onShare?: () => void
+  // Shown once the backend has reported a token count
+  contextUsage?: ContextUsage | null
+  onCompress?: () => void
+  isCompressing?: boolean
 }
 
 export default function TopBar({
   onMenuClick,
   title = 'SELVE Chat',
   showMenuButton = true,
+  onExport,
+  onShare,
+  contextUsage,
+  onCompress,
+  isCompressing,
 }: TopBarProps) {
   return (
     <header className="flex h-14 shrink-0 items-center justify-between bg-[#faf9f7]/80 dark:bg-[#0d0f14]/80 backdrop-blur-md px-4 border-b border-zinc-200/30 dark:border-[#1f1e1c]/30 transition-colors duration-300">
@@ -38,6 +55,26 @@ export default function TopBar({
           />
         </div>
       </div>
+
+      {/* Right side */}
+      {(onExport || onShare || contextUsage) && (
+        <div className="flex items-center gap-1">
+          {contextUsage && (
+            <ContextGauge usage={contextUsage} onCompress={onCompress} isCompressing={isCompressing} />
+          )}
+          {onShare && (
+            <button
+              onClick={onShare}
+              className="flex items-center gap-2 rounded-lg p-2 text-sm text-zinc-500 dark:text-zinc-400 transition-colors duration-300 hover:bg-zinc-200 dark:hover:bg-[#1a1917] hover:text-zinc-900 dark:hover:text-white cursor-pointer"
+              aria-label="Share conversation"
+            >
+              <Share2 className="h-4 w-4" />
+              <span className="hidden sm:inline">Share</span>
+            </button>
+          )}
+          {onExport && <ExportMenu onExport={onExport} />}
+        </div>
+      )}
     </header>
   )
 }
@@ -4,6 +4,7 @@ import { useState, useRef, useEffect } from 'react'
 import { useUser, useClerk } from '@clerk/nextjs'
 import { useTheme } from 'next-themes'
 import { Sun, Moon, Monitor, Settings, LogOut, ExternalLink, BarChart3, DollarSign } from 'lucide-react'
+import { apiClient } from '../lib/apiClient'
 
 interface UserMenuProps {
   userName?: string
@@ -34,19 +35,10 @@ export default function UserMenu({ userName, userPlan, profilePicture, isSignedI
       if (!user?.id) return
       
       try {
-        // Use main app backend URL to fetch user profile
-        const mainAppBackendUrl = process.env.NEXT_PUBLIC_MAIN_APP_API_URL || 'http://localhost:8000'
-        const response = await fetch(`${mainAppBackendUrl}/api/users/profile`, {
-          headers: {
-            'X-User-ID': user.id,
-          },
-        })
-        
-        if (response.ok) {
-          const data = await response.json()
-          if (data.currentSessionId) {
-            setAssessmentSessionId(data.currentSessionId)
-          }
+        // The profile lives on the main app backend
+        const data = await apiClient.getMainAppProfile(user.id)
+        if (data?.currentSessionId) {
+          setAssessmentSessionId(data.currentSessionId)
         }
       } catch (error) {
         // Silently fail and default to profile link
@@ -0,0 +1,57 @@
+'use client'
+
+import { useState } from 'react'
+import { Play } from 'lucide-react'
+import { formatTimestamp, youtubeEmbedUrl, youtubeWatchUrl } from '../lib/youtube'
+
+interface YouTubePreviewProps {
+  videoId: string
+  title: string
+  startSeconds?: number | null
+}
+
+/**
+ * YouTubePreview Component
+ *
+ * Plays a cited video in place. Nothing is loaded from YouTube until the
+ * user clicks play; the player then comes from youtube-nocookie.com and
+ * starts at the cited segment.
+ */
+export default function YouTubePreview({ videoId, title, startSeconds = null }: YouTubePreviewProps) {
+  const [isPlaying, setIsPlaying] = useState(false)
+  const timestamp = startSeconds ? formatTimestamp(startSeconds) : null
+
+  return (
+    <div className="mt-2 space-y-1.5">
+      {isPlaying ? (
+        <div className="relative aspect-video w-full overflow-hidden rounded-lg bg-black">
+          <iframe
+            src={youtubeEmbedUrl(videoId, startSeconds)}
+            title={title}
+            className="absolute inset-0 h-full w-full"
+            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+            referrerPolicy="strict-origin-when-cross-origin"
+            allowFullScreen
+          />
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsPlaying(true)}
+          className="inline-flex items-center gap-1.5 rounded-full bg-red-500/10 px-2.5 py-1 text-[11px] font-medium text-red-400 transition-colors hover:bg-red-500/20"
+        >
+          <Play className="h-3 w-3" fill="currentColor" />
+          {timestamp ? `Play from ${timestamp}` : 'Play video'}
+        </button>
+      )}
+      <a
+        href={youtubeWatchUrl(videoId, startSeconds)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="block text-[10px] text-zinc-500 underline-offset-2 hover:text-zinc-300 hover:underline"
+      >
+        Watch on YouTube
+      </a>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import ChatInput from '../ChatInput'
+
+function renderInput(value: string) {
+  const onSubmit = vi.fn()
+  render(<ChatInput value={value} onChange={vi.fn()} onSubmit={onSubmit} isLoading={false} hasMessages />)
+  return onSubmit
+}
+
+describe('ChatInput privacy guard', () => {
+  it('sends messages without personal data straight away', () => {
+    const onSubmit = renderInput('How do I handle stress?')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Send message' }))
+
+    expect(onSubmit).toHaveBeenCalledTimes(1)
+    expect(screen.queryByRole('alertdialog')).toBeNull()
+  })
+
+  it('highlights detected data and sends the redacted text', () => {
+    const onSubmit = renderInput('My email is jane@example.com')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Send message' }))
+
+    expect(onSubmit).not.toHaveBeenCalled()
+    expect(screen.getByText('jane@example.com').tagName).toBe('MARK')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Redact and send' }))
+    expect(onSubmit).toHaveBeenCalledWith(expect.anything(), 'My email is [email]')
+    expect(screen.queryByRole('alertdialog')).toBeNull()
+  })
+
+  it('can send the original text or go back to editing', () => {
+    const onSubmit = renderInput('Call me on 415 555 0132')
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'Enter' })
+    fireEvent.click(screen.getByRole('button', { name: 'Edit' }))
+    expect(screen.queryByRole('alertdialog')).toBeNull()
+    expect(onSubmit).not.toHaveBeenCalled()
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'Enter' })
+    fireEvent.click(screen.getByRole('button', { name: 'Send anyway' }))
+    expect(onSubmit).toHaveBeenCalledTimes(1)
+    expect(onSubmit.mock.calls[0]).toHaveLength(1)
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import ChatMessages from '../ChatMessages'
+
+const baseProps = { streamingContent: '', isLoading: false, thinkingStatus: null }
+
+describe('ChatMessages privacy guard', () => {
+  it('checks an edited question before saving it', () => {
+    const onSaveEdit = vi.fn()
+    render(
+      <ChatMessages
+        {...baseProps}
+        messages={[{ id: 'm1', role: 'user', content: 'Hello' }]}
+        editingMessageIndex={0}
+        editingContent="My card is 4111 1111 1111 1111"
+        onSaveEdit={onSaveEdit}
+      />
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save edited message' }))
+    expect(onSaveEdit).not.toHaveBeenCalled()
+    expect(screen.getByText('4111 1111 1111 1111').tagName).toBe('MARK')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Redact and send' }))
+    expect(onSaveEdit).toHaveBeenCalledWith('My card is [card number]')
+  })
+
+  it('saves edits without personal data straight away', () => {
+    const onSaveEdit = vi.fn()
+    render(
+      <ChatMessages
+        {...baseProps}
+        messages={[{ id: 'm1', role: 'user', content: 'Hello' }]}
+        editingMessageIndex={0}
+        editingContent="Hello again"
+        onSaveEdit={onSaveEdit}
+      />
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save edited message' }))
+
+    expect(onSaveEdit).toHaveBeenCalledWith()
+    expect(screen.queryByRole('alertdialog')).toBeNull()
+  })
+
+  it('checks a failed message before retrying it', () => {
+    const onRetryMessage = vi.fn()
+    const onEditFailedMessage = vi.fn()
+    render(
+      <ChatMessages
+        {...baseProps}
+        messages={[{ id: 'c1', clientId: 'c1', role: 'user', content: 'Mail jane@example.com', status: 'failed' }]}
+        onRetryMessage={onRetryMessage}
+        onEditFailedMessage={onEditFailedMessage}
+      />
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }))
+    expect(onRetryMessage).not.toHaveBeenCalled()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Send anyway' }))
+    expect(onRetryMessage).toHaveBeenCalledWith('c1', undefined)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Edit' }))
+    expect(onEditFailedMessage).toHaveBeenCalledWith('c1')
+  })
+})
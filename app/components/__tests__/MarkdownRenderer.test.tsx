@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import MarkdownRenderer from '../MarkdownRenderer'
+import type { Citation } from '../SourceCitations'
+
+describe('MarkdownRenderer', () => {
+  it('renders formatted text', () => {
+    const { container } = render(<MarkdownRenderer content={'## Heading\n\n- one\n- two\n\n**bold**'} />)
+    expect(container.querySelector('h2')?.textContent).toBe('Heading')
+    expect(container.querySelectorAll('li')).toHaveLength(2)
+    expect(container.querySelector('strong')?.textContent).toBe('bold')
+  })
+
+  it('sanitizes raw HTML in text blocks', () => {
+    const { container } = render(
+      <MarkdownRenderer content={'Hello <script>window.pwned = true</script><img src=x onerror="window.pwned = true">'} />
+    )
+    expect(container.querySelector('script')).toBeNull()
+    expect(container.innerHTML).not.toContain('onerror')
+    expect((window as { pwned?: boolean }).pwned).toBeUndefined()
+  })
+
+  it('neutralizes javascript: links', () => {
+    const { container } = render(<MarkdownRenderer content={'[click me](javascript:alert(1))'} />)
+    const link = container.querySelector('a')
+    expect(link?.getAttribute('href') ?? '').not.toMatch(/javascript:/i)
+  })
+
+  it('escapes HTML inside code blocks instead of rendering it', () => {
+    const { container } = render(<MarkdownRenderer content={'```html\n<script>alert(1)</script>\n```'} />)
+    expect(container.querySelector('script')).toBeNull()
+    expect(container.textContent).toContain('<script>alert(1)</script>')
+  })
+
+  describe('citation markers', () => {
+    const citations: Citation[] = [
+      { title: 'The Eight Dimensions', source: 'selve_web', relevance: 92 },
+      { title: 'Personality Traits', source: 'youtube', video_id: 'abc123', channel: 'SELVE Channel', relevance: 78 },
+    ]
+
+    it('renders markers as chips that report the picked source', () => {
+      const onCitationClick = vi.fn()
+      render(
+        <MarkdownRenderer
+          content={'Energy [1] and **focus** [^abc123].'}
+          citations={citations}
+          onCitationClick={onCitationClick}
+        />
+      )
+
+      fireEvent.click(screen.getByRole('button', { name: 'Source 2' }))
+      expect(onCitationClick).toHaveBeenCalledWith(1)
+      expect(screen.getByRole('button', { name: 'Source 1' }).textContent).toBe('1')
+    })
+
+    it('shows a hover card with title, channel and relevance', () => {
+      render(<MarkdownRenderer content={'Focus [2].'} citations={citations} />)
+
+      fireEvent.mouseOver(screen.getByRole('button', { name: 'Source 2' }))
+      const card = screen.getByRole('tooltip')
+      expect(card.textContent).toContain('Personality Traits')
+      expect(card.textContent).toContain('SELVE Channel')
+      expect(card.textContent).toContain('78% relevant')
+
+      fireEvent.mouseOut(screen.getByRole('button', { name: 'Source 2' }))
+      expect(screen.queryByRole('tooltip')).toBeNull()
+    })
+
+    it('keeps markers as text without citations', () => {
+      const { container } = render(<MarkdownRenderer content={'Energy [1].'} />)
+      expect(container.querySelector('button')).toBeNull()
+      expect(container.textContent).toContain('[1]')
+    })
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import MessageActions from '../MessageActions'
+
+describe('MessageActions feedback', () => {
+  it('collects reasons and a comment for a thumbs down', () => {
+    const onFeedback = vi.fn()
+    render(<MessageActions messageId="m1" content="Answer" onFeedback={onFeedback} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Mark as not helpful' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Too long' }))
+    fireEvent.change(screen.getByPlaceholderText('Anything else? (optional)'), { target: { value: ' Too wordy ' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Send feedback' }))
+
+    expect(onFeedback).toHaveBeenCalledWith({ type: 'not_helpful', reasons: ['too_long'], comment: 'Too wordy' })
+    expect(screen.queryByRole('dialog')).toBeNull()
+  })
+
+  it('edits or removes earlier feedback', () => {
+    const onFeedback = vi.fn()
+    render(
+      <MessageActions
+        messageId="m1"
+        content="Answer"
+        feedback={{ type: 'not_helpful', reasons: ['unsafe'] }}
+        onFeedback={onFeedback}
+      />
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'Mark as not helpful' }))
+    expect(screen.getByRole('button', { name: 'Unsafe or harmful' }).getAttribute('aria-pressed')).toBe('true')
+    fireEvent.click(screen.getByRole('button', { name: 'Remove feedback' }))
+
+    expect(onFeedback).toHaveBeenCalledWith(null)
+  })
+
+  it('takes a thumbs up back when clicked again', () => {
+    const onFeedback = vi.fn()
+    render(<MessageActions messageId="m1" content="Answer" feedback={{ type: 'helpful' }} onFeedback={onFeedback} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Mark as helpful' }))
+    expect(onFeedback).toHaveBeenCalledWith(null)
+  })
+})
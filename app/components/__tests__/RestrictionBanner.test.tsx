@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react'
+import RestrictionBanner from '../RestrictionBanner'
+import type { Restriction } from '../../lib/restriction'
+
+const restriction: Restriction = {
+  message: 'You have been temporarily restricted.',
+  expiresAt: '2030-01-01T00:15:00Z',
+  policy: { id: 'harassment', title: 'Harassment and abuse', description: 'Be kind.' },
+  appeal: null,
+}
+
+describe('RestrictionBanner', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('counts down to the expiry and names the policy', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2030-01-01T00:00:00Z'))
+    render(<RestrictionBanner restriction={restriction} />)
+
+    expect(screen.getByText('15:00')).toBeTruthy()
+    expect(screen.getByText(/Harassment and abuse/)).toBeTruthy()
+
+    act(() => {
+      vi.advanceTimersByTime(5000)
+    })
+    expect(screen.getByText('14:55')).toBeTruthy()
+  })
+
+  it('sends an appeal', async () => {
+    const onAppeal = vi.fn().mockResolvedValue(undefined)
+    render(<RestrictionBanner restriction={restriction} onAppeal={onAppeal} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /Appeal/ }))
+    fireEvent.change(screen.getByPlaceholderText(/Explain why/), { target: { value: 'I was quoting a book' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Send appeal' }))
+
+    await waitFor(() => expect(onAppeal).toHaveBeenCalledWith('I was quoting a book'))
+    await waitFor(() => expect(screen.queryByPlaceholderText(/Explain why/)).toBeNull())
+  })
+
+  it('shows the appeal status instead of the form once appealed', () => {
+    render(<RestrictionBanner restriction={{ ...restriction, appeal: { status: 'pending' } }} onAppeal={vi.fn()} />)
+
+    expect(screen.getByText(/Appeal submitted/)).toBeTruthy()
+    expect(screen.queryByRole('button', { name: /Appeal/ })).toBeNull()
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import SourceCitations, { Citation } from '../SourceCitations'
+
+const sources: Citation[] = [
+  { title: 'The Eight Dimensions', source: 'selve_web', url: 'https://selve.me/dimensions' },
+  { title: 'Personality Traits', source: 'youtube', type: 'youtube', video_id: 'dQw4w9WgXcQ', start_time: 95 },
+]
+
+describe('SourceCitations', () => {
+  it('loads the YouTube player only after play is clicked', () => {
+    const { container } = render(<SourceCitations sources={sources} />)
+    fireEvent.click(screen.getByRole('button', { name: 'Expand sources' }))
+
+    expect(container.querySelector('iframe')).toBeNull()
+    expect(screen.getByRole('link', { name: 'Watch on YouTube' }).getAttribute('href')).toBe(
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=95s'
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play from 1:35' }))
+    const player = container.querySelector('iframe')
+    expect(player?.getAttribute('src')).toMatch(/^https:\/\/www\.youtube-nocookie\.com\/embed\/dQw4w9WgXcQ\?.*start=95/)
+  })
+
+  it('opens and highlights the source picked from a marker', () => {
+    const { container } = render(<SourceCitations sources={sources} highlight={{ index: 1 }} />)
+
+    expect(screen.getByRole('button', { name: 'Collapse sources' })).toBeTruthy()
+    const highlighted = container.querySelectorAll('[data-highlighted]')
+    expect(highlighted).toHaveLength(1)
+    expect(highlighted[0].textContent).toContain('Personality Traits')
+  })
+})
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import ThinkingIndicator, { ThinkingStatus } from '../ThinkingIndicator'
+import { recordReasoningStep, ReasoningStep } from '../../lib/reasoning'
+
+const searching: ThinkingStatus = {
+  status: 'rag_searching',
+  message: 'Searching the SELVE knowledge base...',
+  details: { phase: 2, total_phases: 3, sources: [{ title: 'The Eight Dimensions', source: 'selve_web' }] },
+}
+
+function stepsFor(statuses: ThinkingStatus[], startedAt = Date.now()): ReasoningStep[] {
+  return statuses.reduce<ReasoningStep[]>((steps, status) => recordReasoningStep(steps, status, startedAt), [])
+}
+
+describe('ThinkingIndicator', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('shows the current phase on a segmented bar', () => {
+    render(<ThinkingIndicator status={searching} isVisible />)
+
+    const bar = screen.getByRole('progressbar')
+    expect(bar.getAttribute('aria-valuetext')).toBe('Phase 2 of 3')
+    expect(bar.children).toHaveLength(3)
+  })
+
+  it('keeps the phase when a status without one arrives', () => {
+    const tool: ThinkingStatus = { status: 'executing_tool', message: 'Running get_user_scores...' }
+    render(<ThinkingIndicator status={tool} isVisible steps={stepsFor([searching, tool])} />)
+
+    expect(screen.getByRole('progressbar').getAttribute('aria-valuenow')).toBe('2')
+  })
+
+  it('lists intent and every source found so far when expanded', () => {
+    const planning: ThinkingStatus = {
+      status: 'analyzing',
+      message: 'Analyzing...',
+      details: { phase: 1, total_phases: 3, intent: 'personality_question' },
+    }
+    const web: ThinkingStatus = {
+      status: 'web_searching',
+      message: 'Searching the web...',
+      details: { phase: 2, total_phases: 3, sources: [{ title: 'Big Five overview', source: 'web' }] },
+    }
+    render(<ThinkingIndicator status={web} isVisible steps={stepsFor([planning, searching, web])} />)
+
+    expect(screen.queryByText('Big Five overview')).toBeNull()
+    fireEvent.click(screen.getByRole('button', { name: 'Show progress details' }))
+
+    expect(screen.getByText('personality question')).toBeTruthy()
+    expect(screen.getByText('Sources found (2)')).toBeTruthy()
+    expect(screen.getByText('The Eight Dimensions')).toBeTruthy()
+    expect(screen.getByText('Big Five overview')).toBeTruthy()
+  })
+
+  it('counts the seconds spent so far', () => {
+    vi.useFakeTimers()
+    render(<ThinkingIndicator status={searching} isVisible steps={stepsFor([searching])} />)
+
+    act(() => {
+      vi.advanceTimersByTime(3000)
+    })
+    expect(screen.getByText('3s')).toBeTruthy()
+  })
+
+  it('renders nothing when hidden', () => {
+    const { container } = render(<ThinkingIndicator status={searching} isVisible={false} />)
+    expect(container.innerHTML).toBe('')
+  })
+})
@@ -2,14 +2,19 @@
 export { default as Sidebar } from './Sidebar'
 export { default as TopBar } from './TopBar'
 export { default as ChatInput } from './ChatInput'
+export { default as PrivacyGuard } from './PrivacyGuard'
 export { default as ChatMessages } from './ChatMessages'
 export { default as WelcomeScreen } from './WelcomeScreen'
 export { default as ThinkingIndicator } from './ThinkingIndicator'
 export type { ThinkingStatus } from './ThinkingIndicator'
 export { default as SourceCitations } from './SourceCitations'
 export type { Citation } from './SourceCitations'
+export { default as YouTubePreview } from './YouTubePreview'
+export { default as ReasoningTimeline } from './ReasoningTimeline'
 export { default as RetryIndicator } from './RetryIndicator'
+export { default as RestrictionBanner } from './RestrictionBanner'
 export { ConsoleBrand } from './ConsoleBrand'
+export { LogShipping } from './LogShipping'
 export { default as LoadingScreen } from './LoadingScreen'
 export { AnimatedHamburgerIcon } from './AnimatedHamburgerIcon'
 export { ThemeProvider } from './ThemeProvider'
@@ -17,3 +22,9 @@ export { SunlitBackground } from './SunlitBackground'
 export { default as UserMenu } from './UserMenu'
 export { SelveLogo } from './SelveLogo'
 export { default as SearchModal } from './SearchModal'
+export { default as ExportMenu } from './ExportMenu'
+export { default as ContextGauge } from './ContextGauge'
+export { default as ShareDialog } from './ShareDialog'
+export { default as FeedbackPopover } from './FeedbackPopover'
+export { default as ImportDialog } from './ImportDialog'
+export { default as ChatPage } from './ChatPage'
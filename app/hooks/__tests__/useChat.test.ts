@@ -0,0 +1,845 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { useChat } from '../useChat'
+import { installFetchMock, FetchMock } from '../../../test/fetchMock'
+import { controlledSse, ControlledSse, sseResponse } from '../../../test/sse'
+import { handleMockRequest, MockSession } from '../../lib/mockBackend'
+
+const USER_ID = 'user_123'
+
+function seedSession(mock: FetchMock, overrides: Partial<MockSession> = {}): MockSession {
+  const session: MockSession = {
+    id: `session_${mock.store.sessions.size + 1}`,
+    userId: USER_ID,
+    title: 'Existing chat',
+    createdAt: '2026-01-01T10:00:00.000Z',
+    lastMessageAt: '2026-01-01T10:00:00.000Z',
+    messages: [
+      { id: 'm1', role: 'user', content: 'Hello', createdAt: '2026-01-01T10:00:00.000Z' },
+      { id: 'm2', role: 'assistant', content: 'Hi there', createdAt: '2026-01-01T10:00:01.000Z' },
+    ],
+    ...overrides,
+  }
+  mock.store.sessions.set(session.id, session)
+  return session
+}
+
+async function renderReadyChat(options: Parameters<typeof useChat>[0] = {}) {
+  const hook = renderHook(() => useChat(options))
+  await waitFor(() => expect(hook.result.current.isLoadingSession).toBe(false))
+  return hook
+}
+
+describe('useChat', () => {
+  let mock: FetchMock
+
+  beforeEach(() => {
+    mock = installFetchMock()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  describe('session initialization', () => {
+    it('starts anonymous users with a fresh, empty chat', async () => {
+      seedSession(mock)
+      localStorage.setItem('selve_chat_anon_id', 'anon_old')
+      sessionStorage.setItem('currentSessionId', 'session_1')
+
+      const { result } = await renderReadyChat()
+
+      expect(result.current.sessionId).toBeNull()
+      expect(result.current.messages).toEqual([])
+      expect(result.current.sessions).toEqual([])
+      expect(localStorage.getItem('selve_chat_anon_id')).toBeNull()
+      expect(sessionStorage.getItem('currentSessionId')).toBeNull()
+      expect(mock.callsTo('GET', /^\/api\/sessions/)).toHaveLength(0)
+    })
+
+    it('restores the most recent session and loads profile data for signed-in users', async () => {
+      seedSession(mock, { id: 'older', lastMessageAt: '2026-01-01T09:00:00.000Z' })
+      seedSession(mock, { id: 'newest', title: 'Newest', lastMessageAt: '2026-01-02T09:00:00.000Z' })
+
+      const { result } = await renderReadyChat({ userId: USER_ID })
+
+      expect(result.current.sessionId).toBe('newest')
+      expect(result.current.messages.map((message) => message.content)).toEqual(['Hello', 'Hi there'])
+      expect(result.current.sessions.map((session) => session.id)).toEqual(['newest', 'older'])
+      expect(result.current.userProfile?.has_scores).toBe(true)
+      expect(result.current.userAccount?.clerk_user_id).toBe(USER_ID)
+      expect(sessionStorage.getItem('currentSessionId')).toBe('newest')
+
+      const scoresCall = mock.callsTo('GET', `/api/users/${USER_ID}/scores`)[0]
+      expect(scoresCall.headers.get('X-User-ID')).toBe(USER_ID)
+    })
+
+    it('prefers the session persisted in sessionStorage', async () => {
+      seedSession(mock, { id: 'pinned', lastMessageAt: '2026-01-01T09:00:00.000Z' })
+      seedSession(mock, { id: 'newest', lastMessageAt: '2026-01-02T09:00:00.000Z' })
+      sessionStorage.setItem('currentSessionId', 'pinned')
+
+      const { result } = await renderReadyChat({ userId: USER_ID })
+
+      expect(result.current.sessionId).toBe('pinned')
+    })
+  })
+
+  describe('sendMessage', () => {
+    it('creates a session, streams the answer and finalizes it', async () => {
+      const { result } = await renderReadyChat()
+
+      await act(() => result.current.sendMessage('What is LUMEN?'))
+
+      const [userMessage, assistantMessage] = result.current.messages
+      expect(result.current.messages).toHaveLength(2)
+      expect(userMessage).toMatchObject({ role: 'user', content: 'What is LUMEN?', status: 'sent' })
+      expect(assistantMessage).toMatchObject({ role: 'assistant', status: 'sent' })
+      expect(assistantMessage.content).toContain('mock answer')
+      expect(result.current.streamingContent).toBe('')
+      expect(result.current.isLoading).toBe(false)
+      expect(result.current.thinkingStatus).toBeNull()
+      expect(result.current.messageCitations[assistantMessage.id!]).toHaveLength(2)
+      expect(result.current.totalTokens).toBeGreaterThan(0)
+
+      // Stored under the client-minted IDs
+      const stored = [...mock.store.sessions.values()][0]
+      expect(result.current.sessionId).toBe(stored.id)
+      expect(stored.messages.map((message) => message.id)).toEqual([userMessage.id, assistantMessage.id])
+
+      const streamCall = mock.callsTo('POST', '/api/chat/stream')[0]
+      expect(streamCall.headers.get('Idempotency-Key')).toBe(userMessage.clientId)
+      expect(streamCall.headers.get('X-Request-ID')).toMatch(/.+/)
+      expect(streamCall.body).toMatchObject({
+        message: 'What is LUMEN?',
+        session_id: stored.id,
+        client_message_id: userMessage.clientId,
+        assistant_message_id: assistantMessage.clientId,
+        is_authenticated: false,
+      })
+    })
+
+    it('keeps the status events behind each answer', async () => {
+      const { result } = await renderReadyChat()
+
+      await act(() => result.current.sendMessage('What is LUMEN?'))
+
+      const answer = result.current.messages[1]
+      const steps = result.current.messageReasoning[answer.id!]
+      expect(steps.map((step) => step.status)).toEqual([
+        'security_check',
+        'calling_tools',
+        'executing_tool',
+        'rag_searching',
+        'generating',
+      ])
+      expect(steps.every((step) => step.endedAt !== null && step.endedAt >= step.startedAt)).toBe(true)
+      expect(steps[2].details).toMatchObject({ tool_name: 'get_user_scores' })
+    })
+
+    it('keeps status events only for answers written in this visit', async () => {
+      seedSession(mock, { id: 'other', lastMessageAt: '2026-01-01T09:00:00.000Z' })
+      const { result } = await renderReadyChat({ userId: USER_ID })
+      await act(() => result.current.createNewConversation())
+      await act(() => result.current.sendMessage('What is LUMEN?'))
+      const sessionId = result.current.sessionId!
+      expect(Object.keys(result.current.messageReasoning)).toEqual([result.current.messages[1].id])
+
+      await act(() => result.current.switchSession('other'))
+      expect(result.current.messageReasoning).toEqual({})
+
+      // Restored from the backend, which doesn't store the steps
+      await act(() => result.current.switchSession(sessionId))
+      expect(result.current.messages).toHaveLength(2)
+      expect(result.current.messageReasoning).toEqual({})
+    })
+
+    it('names the conversation after the first message', async () => {
+      const { result } = await renderReadyChat()
+
+      await act(() => result.current.sendMessage('Tell me about my scores'))
+
+      await waitFor(() =>
+        expect(result.current.sessions[0]?.title).toBe('Tell me about my scores')
+      )
+      expect(mock.callsTo('POST', /\/generate-title$/)).toHaveLength(1)
+    })
+
+    it('polls until the backend has a real title', async () => {
+      const { result } = await renderReadyChat()
+      mock.on('POST', /\/generate-title$/, (_request, call) => {
+        const sessionId = call.path.split('/')[3]
+        mock.store.sessions.get(sessionId)!.title = 'Polled title'
+        return Response.json({})
+      })
+      mock.once('GET', /^\/api\/sessions\/session_[^/]+$/, (_request, call) =>
+        Response.json({
+          id: call.path.split('/')[3],
+          title: 'Generating title...',
+          createdAt: '2026-01-01T10:00:00.000Z',
+          lastMessageAt: '2026-01-01T10:00:00.000Z',
+        })
+      )
+
+      await act(() => result.current.sendMessage('Why am I like this?'))
+
+      await waitFor(() => expect(result.current.sessions[0]?.title).toBe('Polled title'), {
+        timeout: 3000,
+      })
+      expect(mock.callsTo('GET', /^\/api\/sessions\/session_[^/]+$/)).toHaveLength(2)
+    })
+
+    it('locks the chat when the backend bans the user', async () => {
+      const { result } = await renderReadyChat()
+
+      await act(() => result.current.sendMessage('mock:ban'))
+
+      expect(result.current.isBanned).toBe(true)
+      expect(result.current.banExpiresAt).not.toBeNull()
+      expect(result.current.restriction?.policy?.title).toBe('Harassment and abuse')
+      expect(result.current.messages.at(-1)?.content).toContain('temporarily restricted')
+    })
+
+    it('restores a restriction from the backend and lifts it when it expires', async () => {
+      mock.store.restrictions.set(USER_ID, {
+        message: 'Restricted',
+        expires_at: new Date(Date.now() + 300).toISOString(),
+        policy: null,
+      })
+
+      const { result } = await renderReadyChat({ userId: USER_ID })
+      expect(result.current.isBanned).toBe(true)
+
+      await waitFor(() => expect(result.current.isBanned).toBe(false), { timeout: 2000 })
+      // Confirmed with the backend once the timer ran out
+      expect(mock.callsTo('GET', '/api/moderation/restriction')).toHaveLength(2)
+    })
+
+    it('treats a restriction the backend still reports after it expired as lifted', async () => {
+      // Unlike the mock, a backend may keep reporting it for a while
+      mock.on('GET', '/api/moderation/restriction', () =>
+        Response.json({ restricted: true, message: 'Restricted', expires_at: new Date(Date.now() - 1000).toISOString() })
+      )
+
+      const { result } = await renderReadyChat({ userId: USER_ID })
+      await new Promise((resolve) => setTimeout(resolve, 100))
+
+      expect(result.current.isBanned).toBe(false)
+      expect(mock.callsTo('GET', '/api/moderation/restriction')).toHaveLength(1)
+    })
+
+    it('appeals the restriction once', async () => {
+      const { result } = await renderReadyChat({ userId: USER_ID })
+      await act(() => result.current.sendMessage('mock:ban'))
+
+      await act(() => result.current.submitAppeal('I was quoting a book'))
+
+      expect(result.current.restriction?.appeal).toMatchObject({ status: 'pending' })
+      expect(mock.callsTo('POST', '/api/moderation/appeals')[0].body).toEqual({
+        message: 'I was quoting a book',
+        policy_id: 'harassment',
+      })
+      await expect(result.current.submitAppeal('Again')).rejects.toThrow()
+    })
+
+    it('surfaces security warnings without interrupting the answer', async () => {
+      const { result } = await renderReadyChat()
+
+      await act(() => result.current.sendMessage('mock:warning'))
+
+      expect(result.current.securityWarning).toBe('Please keep the conversation respectful.')
+      expect(result.current.messages.at(-1)).toMatchObject({ role: 'assistant', status: 'sent' })
+    })
+
+    it('marks the user message failed when the request is rejected', async () => {
+      const { result } = await renderReadyChat()
+      mock.on('POST', '/api/chat/stream', () => new Response('bad', { status: 400 }))
+
+      await act(() => result.current.sendMessage('Hello?'))
+
+      expect(result.current.messages).toHaveLength(1)
+      expect(result.current.messages[0]).toMatchObject({ role: 'user', status: 'failed' })
+      expect(result.current.error).toContain('HTTP 400')
+      expect(result.current.isLoading).toBe(false)
+    })
+
+    it('retries a send the gateway failed without storing the message twice', async () => {
+      const { result } = await renderReadyChat()
+      // The backend stored the turn, but the answer never made it back
+      mock.once('POST', '/api/chat/stream', async (request) => {
+        await (await handleMockRequest(request, '/api/chat/stream', { store: mock.store, chunkDelay: 0 })).text()
+        return new Response('unavailable', { status: 503, headers: { 'Retry-After': '0' } })
+      })
+
+      await act(() => result.current.sendMessage('What is LUMEN?'))
+
+      const [first, retry] = mock.callsTo('POST', '/api/chat/stream')
+      expect(retry).toBeDefined()
+      expect(retry.headers.get('Idempotency-Key')).toBe(first.headers.get('Idempotency-Key'))
+      const { client_message_id: clientMessageId } = first.body as { client_message_id: string }
+      expect(retry.body).toMatchObject({ client_message_id: clientMessageId })
+
+      const userMessages = result.current.messages.filter((message) => message.role === 'user')
+      expect(userMessages).toEqual([expect.objectContaining({ content: 'What is LUMEN?', status: 'sent' })])
+      expect(result.current.messages.at(-1)).toMatchObject({ role: 'assistant', status: 'sent' })
+      const stored = [...mock.store.sessions.values()][0].messages
+      expect(stored.filter((message) => message.role === 'user')).toHaveLength(1)
+    })
+
+    it('resumes a dropped stream without duplicating text', async () => {
+      const { result } = await renderReadyChat()
+
+      await act(() => result.current.sendMessage('mock:drop'))
+
+      const streamCalls = mock.callsTo('POST', '/api/chat/stream')
+      expect(streamCalls).toHaveLength(2)
+      expect(streamCalls[1].headers.get('Last-Event-ID')).not.toBeNull()
+      expect(streamCalls[1].body).toMatchObject({ resume_token: expect.stringMatching(/^trace_/) })
+
+      const answer = result.current.messages.at(-1)!.content
+      const stored = [...mock.store.sessions.values()][0].messages.at(-1)!.content
+      expect(answer).toBe(stored)
+    })
+
+    it('keeps an answer whose stream closed without finishing as interrupted', async () => {
+      const { result } = await renderReadyChat()
+      mock.on('POST', '/api/chat/stream', () =>
+        sseResponse([{ type: 'user_message_id', message_id: 'server_user' }, { content: 'Partial ' }])
+      )
+
+      await act(() => result.current.sendMessage('Explain ORIN'))
+
+      expect(result.current.messages).toEqual([
+        expect.objectContaining({ role: 'user', status: 'sent', id: 'server_user' }),
+        expect.objectContaining({ role: 'assistant', content: 'Partial ', status: 'interrupted' }),
+      ])
+      expect(result.current.error).toContain('closed before it finished')
+    })
+  })
+
+  describe('stopping', () => {
+    let stream: ControlledSse
+
+    beforeEach(() => {
+      mock.on('POST', '/api/chat/stream', (request) => {
+        stream = controlledSse(request.signal)
+        return stream.response
+      })
+    })
+
+    it('keeps the partial answer as an interrupted message when stopped', async () => {
+      const { result } = await renderReadyChat()
+
+      let sending: Promise<void>
+      act(() => {
+        sending = result.current.sendMessage('Explain ORIN')
+      })
+      await waitFor(() => expect(stream).toBeDefined())
+      act(() => stream.push({ type: 'user_message_id', message_id: 'server_user' }, { content: 'Partial ' }))
+      await waitFor(() => expect(result.current.streamingContent).toBe('Partial '))
+
+      await act(async () => {
+        result.current.cancelStream()
+        await sending
+      })
+
+      expect(result.current.isLoading).toBe(false)
+      expect(result.current.streamingContent).toBe('')
+      expect(result.current.messages).toEqual([
+        expect.objectContaining({ role: 'user', status: 'sent', id: 'server_user' }),
+        expect.objectContaining({ role: 'assistant', content: 'Partial ', status: 'interrupted' }),
+      ])
+    })
+
+    it('aborts the in-flight stream on unmount', async () => {
+      const { result, unmount } = await renderReadyChat()
+
+      act(() => {
+        void result.current.sendMessage('Explain ORIN')
+      })
+      await waitFor(() => expect(stream).toBeDefined())
+
+      const streamRequest = vi.mocked(fetch).mock.calls.at(-1)!
+      unmount()
+
+      expect((streamRequest[1] as RequestInit).signal?.aborted).toBe(true)
+    })
+  })
+
+  describe('continueGeneration', () => {
+    const ada = { title: 'Ada', source: 'web', url: 'https://example.com/ada' }
+    const babbage = { title: 'Babbage', source: 'web', url: 'https://example.com/babbage' }
+
+    it('appends the continuation once and merges its sources into the answer', async () => {
+      const { result } = await renderReadyChat()
+      mock.once('POST', '/api/chat/stream', () =>
+        sseResponse([
+          { type: 'user_message_id', message_id: 'server_user' },
+          { type: 'assistant_message_id', message_id: 'server_answer' },
+          { content: 'Ada wrote programs [1].' },
+          { type: 'citations', citations: [ada] },
+        ])
+      )
+      await act(() => result.current.sendMessage('Who was Ada?'))
+      expect(result.current.messages[1]).toMatchObject({ status: 'interrupted' })
+
+      mock.once('POST', '/api/chat/stream', () =>
+        sseResponse([
+          { content: ' Babbage built engines [1] for her [2].' },
+          // Ada again, under a different number
+          { type: 'citations', citations: [babbage, { ...ada, title: 'Ada Lovelace' }] },
+          { done: true },
+        ])
+      )
+      await act(() => result.current.continueGeneration(1))
+
+      expect(mock.callsTo('POST', '/api/chat/stream')[1].body).toMatchObject({
+        continue_message_id: 'server_answer',
+        partial_content: 'Ada wrote programs [1].',
+      })
+      expect(result.current.messages).toHaveLength(2)
+      expect(result.current.messages[1]).toMatchObject({
+        content: 'Ada wrote programs [1]. Babbage built engines [2] for her [1].',
+        status: 'sent',
+      })
+      expect(result.current.messageCitations.server_answer).toEqual([ada, babbage])
+      expect(result.current.continuingMessageIndex).toBeNull()
+    })
+  })
+
+  describe('failed messages', () => {
+    async function failToSend(text: string) {
+      seedSession(mock)
+      const hook = await renderReadyChat({ userId: USER_ID })
+      mock.once('POST', '/api/chat/stream', () => new Response('bad', { status: 400 }))
+      await act(() => hook.result.current.sendMessage(text))
+      const failed = hook.result.current.messages[2]
+      expect(failed).toMatchObject({ role: 'user', content: text, status: 'failed' })
+      return { ...hook, failed }
+    }
+
+    it('resends a failed message in its place under the same client ID', async () => {
+      const { result, failed } = await failToSend('Tell me more')
+
+      await act(() => result.current.retryFailedMessage(failed.clientId!))
+
+      expect(result.current.messages).toHaveLength(4)
+      expect(result.current.messages[2]).toMatchObject({ clientId: failed.clientId, status: 'sent' })
+      expect(result.current.messages[3]).toMatchObject({ role: 'assistant', status: 'sent' })
+      expect(result.current.messages.filter((message) => message.clientId === failed.clientId)).toHaveLength(1)
+
+      const resend = mock.callsTo('POST', '/api/chat/stream')[1]
+      expect(resend.headers.get('Idempotency-Key')).toBe(failed.clientId)
+      expect(resend.body).toMatchObject({
+        message: 'Tell me more',
+        client_message_id: failed.clientId,
+        previous_message_id: 'm2',
+      })
+      const stored = mock.store.sessions.get('session_1')!.messages
+      expect(stored.map((message) => message.content).slice(0, 3)).toEqual(['Hello', 'Hi there', 'Tell me more'])
+    })
+
+    it('sends a redacted version in place of the failed text', async () => {
+      const { result, failed } = await failToSend('Mail me at ada@example.com')
+
+      await act(() => result.current.retryFailedMessage(failed.clientId!, 'Mail me at [email]'))
+
+      expect(result.current.messages[2]).toMatchObject({ clientId: failed.clientId, content: 'Mail me at [email]' })
+      expect(mock.callsTo('POST', '/api/chat/stream')[1].body).toMatchObject({ message: 'Mail me at [email]' })
+    })
+
+    it('moves a failed message back into the input and sends the edit as a new message', async () => {
+      const { result, failed } = await failToSend('Tell me more')
+
+      act(() => result.current.editFailedMessage(failed.clientId!))
+
+      expect(result.current.messages.map((message) => message.id)).toEqual(['m1', 'm2'])
+      expect(result.current.input).toBe('Tell me more')
+
+      await act(() => result.current.sendMessage('Tell me more about LUMEN'))
+
+      const [, , question, answer] = result.current.messages
+      expect(result.current.messages).toHaveLength(4)
+      expect(question).toMatchObject({ content: 'Tell me more about LUMEN', status: 'sent' })
+      expect(question.clientId).not.toBe(failed.clientId)
+      expect(answer).toMatchObject({ role: 'assistant', status: 'sent' })
+      expect(mock.callsTo('POST', '/api/chat/stream')[1].body).toMatchObject({
+        client_message_id: question.clientId,
+        previous_message_id: 'm2',
+      })
+    })
+  })
+
+  describe('branches', () => {
+    it('keeps regenerated answers as versions with their own follow-ups', async () => {
+      seedSession(mock)
+      const { result } = await renderReadyChat({ userId: USER_ID })
+
+      await act(() => result.current.regenerateResponse(1))
+
+      expect(result.current.messages.map((message) => message.role)).toEqual(['user', 'assistant'])
+      expect(result.current.messages[1].content).not.toBe('Hi there')
+      expect(result.current.messageBranches[1]).toEqual({ index: 2, total: 2 })
+
+      const request = mock.callsTo('POST', '/api/chat/stream')[0].body
+      expect(request).toMatchObject({
+        message: 'Hello',
+        regeneration_type: 'regenerate',
+        parent_message_id: 'm2',
+        group_id: 'group-m2',
+        previous_message_id: 'm1',
+      })
+
+      // A follow-up on the new version stays on that branch
+      await act(() => result.current.sendMessage('Follow-up'))
+      expect(result.current.messages).toHaveLength(4)
+
+      act(() => result.current.switchBranch(1, 'prev'))
+      expect(result.current.messages.map((message) => message.content)).toEqual(['Hello', 'Hi there'])
+
+      act(() => result.current.switchBranch(1, 'next'))
+      expect(result.current.messages.map((message) => message.content)).toContain('Follow-up')
+    })
+
+    it('sends an edited question as a new version of the user message', async () => {
+      seedSession(mock)
+      const { result } = await renderReadyChat({ userId: USER_ID })
+
+      await act(() => result.current.editMessage(0, 'Hello again'))
+
+      expect(result.current.messages[0].content).toBe('Hello again')
+      expect(result.current.messages).toHaveLength(2)
+      expect(result.current.messageBranches[0]).toEqual({ index: 2, total: 2 })
+
+      const request = mock.callsTo('POST', '/api/chat/stream')[0].body
+      expect(request).toMatchObject({
+        regeneration_type: 'edit',
+        parent_message_id: 'm1',
+        previous_message_id: null,
+      })
+
+      act(() => result.current.switchBranch(0, 'prev'))
+      expect(result.current.messages.map((message) => message.content)).toEqual(['Hello', 'Hi there'])
+    })
+
+    it('restores every version after a reload', async () => {
+      seedSession(mock, { id: 'branched' })
+      const first = await renderReadyChat({ userId: USER_ID })
+      await act(() => first.result.current.regenerateResponse(1))
+      const newAnswer = first.result.current.messages[1].content
+      first.unmount()
+
+      const { result } = await renderReadyChat({ userId: USER_ID })
+
+      expect(result.current.messages.map((message) => message.content)).toEqual(['Hello', newAnswer])
+      expect(result.current.messageBranches[1]).toEqual({ index: 2, total: 2 })
+      act(() => result.current.switchBranch(1, 'prev'))
+      expect(result.current.messages[1].content).toBe('Hi there')
+    })
+
+    it('keeps citations on every answer across reloads', async () => {
+      seedSession(mock, { id: 'cited' })
+      const first = await renderReadyChat({ userId: USER_ID })
+      await act(() => first.result.current.sendMessage('First question'))
+      await act(() => first.result.current.sendMessage('Second question'))
+      const answerIds = first.result.current.messages
+        .filter((message) => message.role === 'assistant')
+        .map((message) => message.id!)
+      first.unmount()
+
+      const { result } = await renderReadyChat({ userId: USER_ID })
+
+      expect(result.current.messages.map((message) => message.id)).toEqual(
+        expect.arrayContaining(answerIds)
+      )
+      // The seeded answer had no sources; both streamed answers keep theirs
+      expect(Object.keys(result.current.messageCitations).sort()).toEqual(answerIds.slice(1).sort())
+      answerIds.slice(1).forEach((id) => expect(result.current.messageCitations[id]).toHaveLength(2))
+    })
+  })
+
+  describe('feedback', () => {
+    it('sends reasons and the trace ID, and can change or withdraw it', async () => {
+      const { result } = await renderReadyChat({ userId: USER_ID })
+      await act(() => result.current.sendMessage('What is LUMEN?'))
+      const answerId = result.current.messages[1].id!
+
+      await act(() =>
+        result.current.submitFeedback(answerId, { type: 'not_helpful', reasons: ['too_long'], comment: 'Shorter please' })
+      )
+      expect(result.current.messageFeedback[answerId]).toMatchObject({ type: 'not_helpful', reasons: ['too_long'] })
+      expect(mock.callsTo('POST', '/api/chat/feedback')[0].body).toMatchObject({
+        message_id: answerId,
+        feedback_type: 'not_helpful',
+        reasons: ['too_long'],
+        comment: 'Shorter please',
+        trace_id: expect.stringMatching(/.+/),
+      })
+
+      await act(() => result.current.submitFeedback(answerId, { type: 'helpful' }))
+      expect(mock.store.feedback).toHaveLength(1)
+      expect(mock.store.feedback[0].feedback_type).toBe('helpful')
+
+      await act(() => result.current.submitFeedback(answerId, null))
+      expect(result.current.messageFeedback[answerId]).toBeUndefined()
+      expect(mock.store.feedback).toHaveLength(0)
+    })
+
+    it('restores earlier feedback when the session loads', async () => {
+      seedSession(mock)
+      mock.store.feedback.push({
+        message_id: 'm2',
+        feedback_type: 'not_helpful',
+        reasons: ['wrong_sources'],
+        comment: null,
+        trace_id: null,
+        session_id: 'session_1',
+        clerk_user_id: USER_ID,
+      })
+
+      const { result } = await renderReadyChat({ userId: USER_ID })
+
+      expect(result.current.messageFeedback).toEqual({ m2: { type: 'not_helpful', reasons: ['wrong_sources'] } })
+      expect(result.current.messages[1]).not.toHaveProperty('feedback')
+    })
+
+    it('ties feedback on a restored answer to its trace', async () => {
+      seedSession(mock, {
+        messages: [
+          { id: 'm1', role: 'user', content: 'Hello', createdAt: '2026-01-01T10:00:00.000Z' },
+          { id: 'm2', role: 'assistant', content: 'Hi there', createdAt: '2026-01-01T10:00:01.000Z', traceId: 'trace_1' },
+        ],
+      })
+      const { result } = await renderReadyChat({ userId: USER_ID })
+
+      await act(() => result.current.submitFeedback('m2', { type: 'helpful' }))
+
+      expect(mock.callsTo('POST', '/api/chat/feedback')[0].body).toMatchObject({ message_id: 'm2', trace_id: 'trace_1' })
+    })
+
+    it('rolls back feedback the backend rejects', async () => {
+      seedSession(mock)
+      const { result } = await renderReadyChat({ userId: USER_ID })
+      mock.once('POST', '/api/chat/feedback', () => new Response('{}', { status: 500 }))
+
+      await act(() => result.current.submitFeedback('m2', { type: 'helpful' }))
+
+      expect(result.current.messageFeedback).toEqual({})
+    })
+  })
+
+  describe('context window', () => {
+    const longSession: Partial<MockSession> = {
+      messages: [
+        { id: 'm1', role: 'user', content: 'What is LUMEN?', createdAt: '2026-01-01T10:00:00.000Z' },
+        { id: 'm2', role: 'assistant', content: 'LUMEN is about energy.', createdAt: '2026-01-01T10:00:01.000Z' },
+        { id: 'm3', role: 'user', content: 'And ORPHEUS?', createdAt: '2026-01-01T10:00:02.000Z' },
+        { id: 'm4', role: 'assistant', content: 'ORPHEUS is about empathy.', createdAt: '2026-01-01T10:00:03.000Z' },
+      ],
+    }
+
+    it('keeps asking for compression until the conversation is compressed', async () => {
+      seedSession(mock, longSession)
+      const { result } = await renderReadyChat({ userId: USER_ID })
+      expect(result.current.contextUsage?.tokens).toBeGreaterThan(0)
+
+      await act(() => result.current.sendMessage('mock:compression Tell me more'))
+      expect(result.current.compressionNeeded).toBe(true)
+
+      await act(() => result.current.compressConversation())
+
+      expect(mock.callsTo('POST', '/api/sessions/session_1/compress')).toHaveLength(1)
+      expect(result.current.compressionNeeded).toBe(false)
+      expect(result.current.compression).toMatchObject({ compressedThroughId: 'm4' })
+      expect(result.current.compression?.summary).toContain('What is LUMEN?')
+      // The messages stay; only the model's view of them shrinks
+      expect(result.current.messages).toHaveLength(6)
+    })
+
+    it('restores the token count and compression with the session', async () => {
+      seedSession(mock, {
+        ...longSession,
+        compression: { summary: 'Asked about LUMEN.', compressed_through: 'm2', created_at: '2026-01-01T11:00:00.000Z' },
+      })
+
+      const { result } = await renderReadyChat({ userId: USER_ID })
+
+      expect(result.current.compression).toEqual({
+        summary: 'Asked about LUMEN.',
+        compressedThroughId: 'm2',
+        createdAt: '2026-01-01T11:00:00.000Z',
+      })
+      expect(result.current.totalTokens).toBeGreaterThan(0)
+
+      await act(() => result.current.createNewConversation())
+      expect(result.current.compression).toBeNull()
+      expect(result.current.contextUsage).toBeNull()
+    })
+
+    it('reports conversations too short to compress', async () => {
+      seedSession(mock)
+      const { result } = await renderReadyChat({ userId: USER_ID })
+
+      await act(() => result.current.compressConversation())
+
+      expect(result.current.compression).toBeNull()
+      expect(result.current.error).toMatch(/compress/)
+    })
+  })
+
+  describe('session management', () => {
+    it('switches to another session', async () => {
+      seedSession(mock, { id: 'first', lastMessageAt: '2026-01-02T09:00:00.000Z' })
+      seedSession(mock, {
+        id: 'second',
+        lastMessageAt: '2026-01-01T09:00:00.000Z',
+        messages: [{ id: 's1', role: 'user', content: 'Other chat', createdAt: '2026-01-01T09:00:00.000Z' }],
+      })
+      const { result } = await renderReadyChat({ userId: USER_ID })
+      expect(result.current.sessionId).toBe('first')
+
+      await act(() => result.current.switchSession('second'))
+
+      expect(result.current.sessionId).toBe('second')
+      expect(result.current.messages.map((message) => message.content)).toEqual(['Other chat'])
+      expect(sessionStorage.getItem('currentSessionId')).toBe('second')
+    })
+
+    it('deletes the current session and starts over', async () => {
+      seedSession(mock, { id: 'doomed' })
+      const { result } = await renderReadyChat({ userId: USER_ID })
+      expect(result.current.sessionId).toBe('doomed')
+
+      await act(() => result.current.deleteSession('doomed'))
+
+      expect(mock.store.sessions.has('doomed')).toBe(false)
+      expect(result.current.sessionId).toBeNull()
+      expect(result.current.messages).toEqual([])
+      expect(result.current.sessions).toEqual([])
+      expect(result.current.isPendingNewSession).toBe(true)
+    })
+
+    it('gives each opened session its own URL', async () => {
+      seedSession(mock, { id: 'first', lastMessageAt: '2026-01-02T09:00:00.000Z' })
+      seedSession(mock, { id: 'second', lastMessageAt: '2026-01-01T09:00:00.000Z' })
+      const { result } = await renderReadyChat({ userId: USER_ID })
+      const historyLength = window.history.length
+
+      // The restored session replaces `/` rather than adding history
+      expect(window.location.pathname).toBe('/c/first')
+      expect(window.history.length).toBe(historyLength)
+
+      await act(() => result.current.switchSession('second'))
+      expect(window.location.pathname).toBe('/c/second')
+      expect(window.history.length).toBe(historyLength + 1)
+
+      await act(() => result.current.createNewConversation())
+      expect(window.location.pathname).toBe('/')
+    })
+
+    it('follows back and forward navigation', async () => {
+      seedSession(mock, { id: 'first', lastMessageAt: '2026-01-02T09:00:00.000Z' })
+      seedSession(mock, {
+        id: 'second',
+        lastMessageAt: '2026-01-01T09:00:00.000Z',
+        messages: [{ id: 's1', role: 'user', content: 'Other chat', createdAt: '2026-01-01T09:00:00.000Z' }],
+      })
+      const { result } = await renderReadyChat({ userId: USER_ID })
+
+      await act(async () => {
+        window.history.pushState(null, '', '/c/second')
+        window.dispatchEvent(new PopStateEvent('popstate'))
+      })
+      await waitFor(() => expect(result.current.sessionId).toBe('second'))
+      expect(result.current.messages.map((message) => message.content)).toEqual(['Other chat'])
+
+      await act(async () => {
+        window.history.pushState(null, '', '/')
+        window.dispatchEvent(new PopStateEvent('popstate'))
+      })
+      await waitFor(() => expect(result.current.sessionId).toBeNull())
+      expect(result.current.messages).toEqual([])
+      expect(window.location.pathname).toBe('/')
+    })
+
+    it('opens the session named in the URL', async () => {
+      seedSession(mock, { id: 'newest', lastMessageAt: '2026-01-02T09:00:00.000Z' })
+      seedSession(mock, { id: 'linked', title: 'Linked', lastMessageAt: '2026-01-01T09:00:00.000Z' })
+
+      const { result } = await renderReadyChat({ userId: USER_ID, initialSessionId: 'linked' })
+
+      expect(result.current.sessionId).toBe('linked')
+      expect(result.current.sessionNotFound).toBe(false)
+      expect(result.current.sessions.map((session) => session.id)).toEqual(['newest', 'linked'])
+    })
+
+    it.each([
+      ['an unknown', 'missing'],
+      ['a foreign', 'someone_elses'],
+    ])('reports %s session in the URL as not found', async (_label, linkedId) => {
+      seedSession(mock, { id: 'someone_elses', userId: 'user_other' })
+
+      const { result } = await renderReadyChat({ userId: USER_ID, initialSessionId: linkedId })
+
+      expect(result.current.sessionNotFound).toBe(true)
+      expect(result.current.sessionId).toBeNull()
+      expect(result.current.messages).toEqual([])
+
+      await act(() => result.current.createNewConversation())
+      expect(result.current.sessionNotFound).toBe(false)
+    })
+
+    it('moves a new chat to its session URL once it is saved', async () => {
+      const { result } = await renderReadyChat({ userId: USER_ID })
+      expect(window.location.pathname).toBe('/')
+
+      await act(() => result.current.sendMessage('Hello there'))
+
+      expect(result.current.sessionId).not.toBeNull()
+      expect(window.location.pathname).toBe(`/c/${result.current.sessionId}`)
+    })
+
+    it('imports conversations as new sessions and opens the first', async () => {
+      seedSession(mock, { id: 'existing' })
+      const { result } = await renderReadyChat({ userId: USER_ID })
+
+      await act(() =>
+        result.current.importConversations([
+          {
+            title: 'Imported one',
+            source: 'selve',
+            messages: [
+              { role: 'user', content: 'Old question', createdAt: '2025-12-01T10:00:00.000Z' },
+              { role: 'assistant', content: 'Old answer', createdAt: null },
+            ],
+          },
+          { title: 'Imported two', source: 'chatgpt', messages: [{ role: 'user', content: 'Hi', createdAt: null }] },
+        ])
+      )
+
+      expect(mock.callsTo('POST', '/api/sessions/import')).toHaveLength(2)
+      expect(result.current.sessions.map((session) => session.title)).toEqual(
+        expect.arrayContaining(['Existing chat', 'Imported one', 'Imported two'])
+      )
+      expect(result.current.messages.map((message) => message.content)).toEqual(['Old question', 'Old answer'])
+      expect(mock.store.sessions.get(result.current.sessionId!)?.title).toBe('Imported one')
+    })
+
+    it('keeps importing past a failed conversation and reports which were saved', async () => {
+      const { result } = await renderReadyChat({ userId: USER_ID })
+      mock.once('POST', '/api/sessions/import', () => new Response('{}', { status: 500 }))
+
+      let results: Awaited<ReturnType<typeof result.current.importConversations>> = []
+      await act(async () => {
+        results = await result.current.importConversations([
+          { title: 'Broken', source: 'selve', messages: [{ role: 'user', content: 'Lost', createdAt: null }] },
+          { title: 'Fine', source: 'selve', messages: [{ role: 'user', content: 'Kept', createdAt: null }] },
+        ])
+      })
+
+      expect(results.map((entry) => [entry.conversation.title, entry.session?.title ?? null])).toEqual([
+        ['Broken', null],
+        ['Fine', 'Fine'],
+      ])
+      expect(result.current.messages.map((message) => message.content)).toEqual(['Kept'])
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, renderHook } from '@testing-library/react'
+import { isRetryableError, useRetry } from '../useRetry'
+import { HttpError } from '../../lib/http'
+
+describe('useRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('backs off exponentially up to maxDelay', async () => {
+    const onRetry = vi.fn()
+    const { result } = renderHook(() =>
+      useRetry({ maxAttempts: 5, initialDelay: 1000, backoffMultiplier: 3, maxDelay: 5000, onRetry })
+    )
+    const fn = vi.fn().mockRejectedValue(new HttpError(503, 'Service Unavailable'))
+
+    let outcome: Promise<unknown>
+    act(() => {
+      outcome = result.current.executeWithRetry(fn).catch((error) => error)
+    })
+    await act(() => vi.runAllTimersAsync())
+
+    expect(onRetry.mock.calls).toEqual([
+      [1, 1000],
+      [2, 3000],
+      [3, 5000],
+      [4, 5000],
+    ])
+    expect(fn).toHaveBeenCalledTimes(5)
+    await expect(outcome!).resolves.toBeInstanceOf(HttpError)
+  })
+
+  it('waits for Retry-After instead of the computed delay', async () => {
+    const onRetry = vi.fn()
+    const { result } = renderHook(() => useRetry({ initialDelay: 1000, onRetry }))
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new HttpError(429, 'Too Many Requests', 7000))
+      .mockResolvedValue('ok')
+
+    let outcome: Promise<unknown>
+    act(() => {
+      outcome = result.current.executeWithRetry(fn)
+    })
+    await act(() => vi.advanceTimersByTimeAsync(6999))
+    expect(fn).toHaveBeenCalledTimes(1)
+
+    await act(() => vi.advanceTimersByTimeAsync(1))
+    expect(onRetry).toHaveBeenCalledWith(1, 7000)
+    await expect(outcome!).resolves.toBe('ok')
+  })
+
+  it('fails right away when Retry-After exceeds maxDelay', async () => {
+    const onRetry = vi.fn()
+    const { result } = renderHook(() => useRetry({ maxDelay: 30000, onRetry }))
+    const fn = vi.fn().mockRejectedValue(new HttpError(429, 'Too Many Requests', 3600000))
+
+    await act(async () => {
+      await expect(result.current.executeWithRetry(fn)).rejects.toBeInstanceOf(HttpError)
+    })
+    expect(fn).toHaveBeenCalledTimes(1)
+    expect(onRetry).not.toHaveBeenCalled()
+  })
+
+  it('counts down while waiting', async () => {
+    const { result } = renderHook(() => useRetry({ initialDelay: 3000 }))
+    const fn = vi.fn().mockRejectedValueOnce(new HttpError(500, 'Server Error')).mockResolvedValue('ok')
+
+    act(() => {
+      void result.current.executeWithRetry(fn)
+    })
+    await act(() => vi.advanceTimersByTimeAsync(0))
+    expect(result.current.retryState).toMatchObject({ isRetrying: true, nextRetryIn: 3, retryDelay: 3 })
+
+    await act(() => vi.advanceTimersByTimeAsync(1000))
+    expect(result.current.retryState.nextRetryIn).toBe(2)
+  })
+
+  it('does not retry permanent failures', async () => {
+    const { result } = renderHook(() => useRetry())
+    const fn = vi.fn().mockRejectedValue(new HttpError(400, 'Bad Request'))
+
+    await act(async () => {
+      await expect(result.current.executeWithRetry(fn)).rejects.toBeInstanceOf(HttpError)
+    })
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it('reset cancels a pending retry', async () => {
+    const { result } = renderHook(() => useRetry({ initialDelay: 5000 }))
+    const fn = vi.fn().mockRejectedValue(new HttpError(503, 'Service Unavailable'))
+
+    let outcome: Promise<unknown>
+    act(() => {
+      outcome = result.current.executeWithRetry(fn).catch((error) => error)
+    })
+    await act(() => vi.advanceTimersByTimeAsync(1000))
+    act(() => result.current.reset())
+
+    const error = await outcome!
+    expect((error as Error).name).toBe('AbortError')
+    expect(fn).toHaveBeenCalledTimes(1)
+    expect(result.current.retryState.isRetrying).toBe(false)
+  })
+})
+
+describe('isRetryableError', () => {
+  it('classifies errors', () => {
+    expect(isRetryableError(new HttpError(502, 'Bad Gateway'))).toBe(true)
+    expect(isRetryableError(new HttpError(429, 'Too Many Requests'))).toBe(true)
+    expect(isRetryableError(new HttpError(404, 'Not Found'))).toBe(false)
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true)
+    expect(isRetryableError(Object.assign(new Error('slow'), { code: 'ETIMEDOUT' }))).toBe(true)
+    expect(isRetryableError(new DOMException('Aborted', 'AbortError'))).toBe(false)
+  })
+})
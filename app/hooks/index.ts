@@ -7,8 +7,10 @@ export { usePlaceholderRotation } from './usePlaceholderRotation'
 export { useDebounce } from './useDebounce'
 export type {
   Message,
+  MessageStatus,
   Session,
   SelveScores,
   UserProfile,
   MessageCitations,
+  MessageReasoning,
 } from './useChat'
@@ -1,13 +1,56 @@
 'use client'
 
-import { useState, useCallback, useEffect, useRef } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { ThinkingStatus } from '../components/ThinkingIndicator'
 import { Citation } from '../components/SourceCitations'
+import { StreamEvent } from '../lib/streamProtocol'
+import { streamChat } from '../lib/chatStream'
+import { apiClient, HttpError } from '../lib/apiClient'
+import { createRequestId, REQUEST_ID_HEADER } from '../lib/http'
+import { logger } from '../../lib/logger'
+import { navigateToSession, sessionIdFromPath } from '../lib/sessionUrl'
+import type { ImportedConversation, ImportResult } from '../lib/conversationImport'
+import { finishReasoning, ReasoningStep, recordReasoningStep } from '../lib/reasoning'
+import { MessageFeedback, MessageFeedbackMap, splitStoredFeedback } from '../lib/feedback'
+import { ConversationCompression, contextUsage as measureContextUsage, parseCompression } from '../lib/contextWindow'
+import { parseAppeal, parseRestriction, Restriction, restrictionRemainingMs } from '../lib/restriction'
+import { mergeCitations, renumberCitationMarkers } from '../lib/citations'
+import {
+  addMessage,
+  branchInfo,
+  emptyTree,
+  findKey,
+  lastVisibleKey,
+  MessageTree,
+  removeMessage,
+  selectBranch,
+  setCitations,
+  setReasoning,
+  siblingKeys,
+  StoredMessage,
+  treeFromMessages,
+  updateMessage,
+  visibleKeys,
+} from '../lib/messageTree'
+import { useRetry, isRetryableError } from './useRetry'
+
+// Delivery state: user messages go pending -> sent | failed; assistant
+// messages are sent, or interrupted when stopped mid-stream
+export type MessageStatus = 'pending' | 'sent' | 'failed' | 'interrupted'
 
 export interface Message {
   role: 'user' | 'assistant'
   content: string
   id?: string
+  // Client-generated ID, stable across resends of the same message
+  clientId?: string
+  // Missing on messages restored from the backend, which are always sent
+  status?: MessageStatus
+  // ISO timestamp, when known
+  createdAt?: string
+  // Langfuse trace of an assistant answer, which its feedback is tied to;
+  // stored with the message so it survives reloads
+  traceId?: string
 }
 
 export interface Session {
@@ -46,21 +89,73 @@ export interface UserAccount {
   subscription_plan?: string
 }
 
+// Keyed by message ID, so citations stay with their answer across edits,
+// regenerations and reloads
 export interface MessageCitations {
-  [messageIndex: number]: Citation[]
+  [messageId: string]: Citation[]
 }
 
+// Status events behind each answer, keyed by message ID
+export interface MessageReasoning {
+  [messageId: string]: ReasoningStep[]
+}
+
+type ChatStreamRequestBody = {
+  message: string
+  session_id: string
+  clerk_user_id: string | null
+  user_name: string | null
+  selve_scores: SelveScores | null
+  assessment_url: string
+  user_timezone: string
+  is_authenticated: boolean
+  sign_in_url: string | null
+  stream: true
+  // The message this turn follows (null for the first one), so the backend
+  // builds the history from the branch on screen
+  previous_message_id?: string | null
+  // Regenerate / edit an existing turn: the version being replaced and the
+  // group all its versions share
+  regeneration_type?: 'regenerate' | 'edit'
+  parent_message_id?: string
+  group_id?: string
+  // Client-minted message IDs; the user one doubles as idempotency key
+  client_message_id?: string
+  assistant_message_id?: string
+  // Extend an interrupted assistant message
+  continue_message_id?: string | null
+  partial_content?: string
+}
+
+// Where a new turn goes in the message tree
+type TurnPlacement =
+  | { type: 'append' }
+  // New answer to the question above this assistant message
+  | { type: 'regenerate'; messageKey: string }
+  // New version of this user message, answered afresh
+  | { type: 'edit'; messageKey: string }
+
 interface UseChatOptions {
   userId?: string | null
   userName?: string | null
   signInUrl?: string
+  // Session named in the URL (`/c/<sessionId>`), opened instead of the most recent one
+  initialSessionId?: string | null
 }
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:9000'
-const DEFAULT_TIMEOUT = 10000
 const TITLE_POLL_ATTEMPTS = 5
 const TITLE_POLL_DELAY = 600
 const PLACEHOLDER_TITLES = new Set(['New Conversation', 'Generating title...', '...'])
+const log = logger.child({ component: 'useChat' })
+
+// Longest delay setTimeout honours (about 24.8 days)
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1
+
+function createClientMessageId(): string {
+  return typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `msg_${Date.now()}_${Math.random().toString(36).slice(2)}`
+}
 
 // Type guards
 function isValidSession(data: unknown): data is Session {
@@ -72,18 +167,48 @@ function isValidSession(data: unknown): data is Session {
   )
 }
 
-function isValidSessionWithMessages(
-  data: unknown
-): data is Session & { messages?: Message[] } {
+// Session payload as restored from the backend
+type RestoredSession = Session & {
+  messages?: StoredMessage[]
+  total_tokens?: number | null
+  compression?: unknown
+}
+
+function isValidSessionWithMessages(data: unknown): data is RestoredSession {
   return isValidSession(data)
 }
 
-export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
+// Missing and foreign sessions look the same to the user
+function isSessionNotFoundError(err: unknown): boolean {
+  return err instanceof HttpError && (err.status === 404 || err.status === 403)
+}
+
+export function useChat({ userId, userName, signInUrl, initialSessionId = null }: UseChatOptions = {}) {
   // Core state
-  const [messages, setMessages] = useState<Message[]>([])
+  // Every version of every message; `messages` is the branch on screen
+  const [messageTree, setMessageTree] = useState<MessageTree>(emptyTree)
+  const visiblePath = useMemo(() => visibleKeys(messageTree), [messageTree])
+  const messages = useMemo(
+    () => visiblePath.map((key) => messageTree.nodes[key].message),
+    [messageTree, visiblePath]
+  )
+  // Citations live on the message they came with, so each branch keeps its own
+  const messageCitations = useMemo(() => {
+    const byId: MessageCitations = {}
+    Object.values(messageTree.nodes).forEach(({ message, citations }) => {
+      if (message.id && citations?.length) byId[message.id] = citations
+    })
+    return byId
+  }, [messageTree])
+  const messageBranches = useMemo(
+    () => visiblePath.map((key) => branchInfo(messageTree, key)),
+    [messageTree, visiblePath]
+  )
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [streamingContent, setStreamingContent] = useState('')
+  const [isResumingStream, setIsResumingStream] = useState(false)
+  const [continuingMessageIndex, setContinuingMessageIndex] = useState<number | null>(null)
   const [sessionId, setSessionId] = useState<string | null>(null)
   const [isLoadingSession, setIsLoadingSession] = useState(true)
   const [sessions, setSessions] = useState<Session[]>([])
@@ -96,18 +221,36 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
   const [isLoadingAccount, setIsLoadingAccount] = useState(false)
   
   // UI state
-  const [messageCitations, setMessageCitations] = useState<MessageCitations>({})
   const [thinkingStatus, setThinkingStatus] = useState<ThinkingStatus | null>(null)
+  // Set by the backend once the context is nearly full; cleared by compressing
   const [compressionNeeded, setCompressionNeeded] = useState(false)
   const [totalTokens, setTotalTokens] = useState<number | null>(null)
+  // Summary that replaced the older turns of this session, if compressed
+  const [compression, setCompression] = useState<ConversationCompression | null>(null)
+  const [isCompressing, setIsCompressing] = useState(false)
+  const contextUsage = useMemo(() => (totalTokens ? measureContextUsage(totalTokens) : null), [totalTokens])
 
   // Security state
-  const [isBanned, setIsBanned] = useState(false)
-  const [banExpiresAt, setBanExpiresAt] = useState<string | null>(null)
+  // Set by a `ban` event or the backend's moderation status; lifted on expiry
+  const [restriction, setRestriction] = useState<Restriction | null>(null)
+  const isBanned = restriction !== null
+  const banExpiresAt = restriction?.expiresAt ?? null
   const [securityWarning, setSecurityWarning] = useState<string | null>(null)
-
-  // Trace ID tracking for feedback (maps message index to Langfuse trace ID)
-  const [messageTraceIds, setMessageTraceIds] = useState<Record<string, string>>({})
+  // The session in the URL does not exist or belongs to someone else
+  const [sessionNotFound, setSessionNotFound] = useState(false)
+
+  // The user's feedback on answers in this session (by message ID)
+  const [messageFeedback, setMessageFeedback] = useState<MessageFeedbackMap>({})
+  // Status events of the answer in progress, for the live progress display
+  const [liveReasoning, setLiveReasoning] = useState<ReasoningStep[]>([])
+  // Kept on the answers' nodes, so they go with the tree on switch or delete
+  const messageReasoning = useMemo(() => {
+    const byId: MessageReasoning = {}
+    Object.values(messageTree.nodes).forEach(({ message, reasoning }) => {
+      if (message.id && reasoning?.length) byId[message.id] = reasoning
+    })
+    return byId
+  }, [messageTree])
 
   // Refs
   const abortControllerRef = useRef<AbortController | null>(null)
@@ -116,6 +259,8 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
   const profileLoadedRef = useRef<Promise<void> | null>(null)
   const isPendingNewSession = useRef(false)
   const currentTraceIdRef = useRef<string | null>(null) // Capture trace ID during streaming
+  const currentReasoningRef = useRef<ReasoningStep[]>([]) // Status events of the answer being streamed
+  const stopRequestedRef = useRef(false) // Distinguishes "stop" from other aborts
 
   // Get effective user ID (real or anonymous)
   const getEffectiveUserId = useCallback((): string | null => {
@@ -144,35 +289,26 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
     return stored
   }, [userId])
 
-  // Safe fetch with timeout
-  const safeFetch = useCallback(
-    async <T>(
-      url: string,
-      options: RequestInit = {},
-      timeout = DEFAULT_TIMEOUT
-    ): Promise<{ data: T | null; error: string | null }> => {
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), timeout)
-
+  // Automatic retry with backoff for transient backend failures, one per
+  // operation so overlapping retries keep their own countdown and cancel
+  const sendRetry = useRetry({ maxAttempts: 3 })
+  const createSessionRetry = useRetry({ maxAttempts: 3 })
+  const restoreRetry = useRetry({ maxAttempts: 3 })
+  const { executeWithRetry: executeSendWithRetry, reset: resetSendRetry } = sendRetry
+  const { executeWithRetry: executeCreateSessionWithRetry, reset: resetCreateSessionRetry } = createSessionRetry
+  const { executeWithRetry: executeRestoreWithRetry } = restoreRetry
+  // The indicator shows (and cancels) whichever one is waiting
+  const activeRetry =
+    [sendRetry, createSessionRetry, restoreRetry].find((retry) => retry.retryState.isRetrying) ?? sendRetry
+
+  // Run an API request, reporting failure instead of throwing
+  const safeRequest = useCallback(
+    async <T>(request: () => Promise<T>): Promise<{ data: T | null; error: string | null }> => {
       try {
-        const response = await fetch(url, {
-          ...options,
-          signal: controller.signal,
-        })
-        clearTimeout(timeoutId)
-
-        if (!response.ok) {
-          return { data: null, error: `HTTP ${response.status}: ${response.statusText}` }
-        }
-
-        const data = await response.json()
+        const data = await request()
         return { data, error: null }
       } catch (err) {
-        clearTimeout(timeoutId)
         if (err instanceof Error) {
-          if (err.name === 'AbortError') {
-            return { data: null, error: 'Request timed out' }
-          }
           return { data: null, error: err.message }
         }
         return { data: null, error: 'Unknown error occurred' }
@@ -210,14 +346,7 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
     setIsLoadingProfile(true)
     const profilePromise = (async () => {
       try {
-        const { data } = await safeFetch<UserProfile>(
-          `${API_URL}/api/users/${effectiveUserId}/scores`,
-          {
-            headers: {
-              'X-User-ID': effectiveUserId,
-            },
-          }
-        )
+        const { data } = await safeRequest(() => apiClient.getScores(effectiveUserId))
         if (mountedRef.current && data) {
           setUserProfile(data)
         }
@@ -230,7 +359,7 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
 
     profileLoadedRef.current = profilePromise
     await profilePromise
-  }, [getEffectiveUserId, safeFetch])
+  }, [getEffectiveUserId, safeRequest])
 
   // Load user account
   const loadUserAccount = useCallback(async () => {
@@ -239,14 +368,7 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
 
     setIsLoadingAccount(true)
     try {
-      const { data } = await safeFetch<UserAccount>(
-        `${API_URL}/api/users/${effectiveUserId}`,
-        {
-          headers: {
-            'X-User-ID': effectiveUserId,
-          },
-        }
-      )
+      const { data } = await safeRequest(() => apiClient.getAccount(effectiveUserId))
       if (mountedRef.current && data) {
         setUserAccount(data)
       }
@@ -255,7 +377,58 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
         setIsLoadingAccount(false)
       }
     }
-  }, [getEffectiveUserId, safeFetch])
+  }, [getEffectiveUserId, safeRequest])
+
+  // The backend decides whether the user is restricted; a failed check keeps
+  // whatever is known locally
+  const loadRestriction = useCallback(async () => {
+    const effectiveUserId = getEffectiveUserId()
+    if (!effectiveUserId || !mountedRef.current) return
+
+    const { data } = await safeRequest(() => apiClient.getRestriction(effectiveUserId))
+    if (mountedRef.current && data) {
+      // One reported after its expiry (clock skew, a lift applied lazily)
+      // counts as lifted; re-checking it would only loop
+      const next = parseRestriction(data)
+      setRestriction(next && restrictionRemainingMs(next, Date.now()) === 0 ? null : next)
+    }
+  }, [getEffectiveUserId, safeRequest])
+
+  // Lift the restriction when it expires, then confirm with the backend
+  useEffect(() => {
+    const remaining = restriction ? restrictionRemainingMs(restriction, Date.now()) : null
+    if (remaining === null) return
+
+    const timer = setTimeout(() => {
+      if (!mountedRef.current) return
+      if (remaining > MAX_TIMER_DELAY_MS) {
+        // Too far off for one timer; schedule again
+        setRestriction((current) => current && { ...current })
+        return
+      }
+      setRestriction(null)
+      loadRestriction()
+    }, Math.min(remaining, MAX_TIMER_DELAY_MS))
+    return () => clearTimeout(timer)
+  }, [restriction, loadRestriction])
+
+  // Ask moderation to review the current restriction
+  const submitAppeal = useCallback(
+    async (message: string) => {
+      const effectiveUserId = getEffectiveUserId()
+      if (!effectiveUserId) throw new Error('Sign in to appeal')
+
+      const result = await apiClient.submitAppeal({
+        message,
+        policyId: restriction?.policy?.id ?? null,
+        userId: effectiveUserId,
+      })
+      if (!mountedRef.current) return
+      const appeal = parseAppeal(result) ?? { status: 'pending' as const }
+      setRestriction((current) => current && { ...current, appeal })
+    },
+    [restriction, getEffectiveUserId]
+  )
 
   // Load user sessions
   const loadUserSessions = useCallback(async (): Promise<Session[]> => {
@@ -263,12 +436,12 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
     if (!effectiveUserId) return []
 
     try {
-      const { data, error: fetchError } = await safeFetch<
-        Session[] | { sessions: Session[] }
-      >(`${API_URL}/api/sessions/user/${effectiveUserId}`)
+      const { data, error: fetchError } = await safeRequest(() =>
+        apiClient.listSessions(effectiveUserId)
+      )
 
       if (fetchError || !data) {
-        console.error('Error loading sessions:', fetchError)
+        log.error('Error loading sessions', { action: 'loadUserSessions', error: fetchError })
         return []
       }
 
@@ -288,34 +461,35 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
       }
       return sorted
     } catch (err) {
-      console.error('Error loading sessions:', err)
+      log.error('Error loading sessions', { action: 'loadUserSessions', error: err })
       return []
     }
-  }, [getEffectiveUserId, safeFetch])
+  }, [getEffectiveUserId, safeRequest])
 
-  // Restore a session
+  // Restore a session (retried on transient failures unless disabled)
   const restoreSession = useCallback(
-    async (sessionIdToRestore: string): Promise<(Session & { messages?: Message[] }) | null> => {
-      const { data, error: fetchError } = await safeFetch<Session & { messages?: Message[] }>(
-        `${API_URL}/api/sessions/${sessionIdToRestore}`
-      )
+    async (
+      sessionIdToRestore: string,
+      { retry = true, onNotFound }: { retry?: boolean; onNotFound?: () => void } = {}
+    ): Promise<RestoredSession | null> => {
+      const request = () => apiClient.getSession(sessionIdToRestore, getEffectiveUserId())
 
-      if (fetchError) {
-        console.error('[useChat] Error restoring session:', fetchError)
+      let data: RestoredSession | null
+      try {
+        data = retry ? await executeRestoreWithRetry(request) : await request()
+      } catch (err) {
+        if (isSessionNotFoundError(err)) {
+          onNotFound?.()
+        } else {
+          log.error('Error restoring session', { action: 'restoreSession', error: err })
+        }
         return null
       }
 
-      // Filter inactive messages from restored session
-      if (data?.messages) {
-        data.messages = data.messages.filter((msg: any) => {
-          // Keep active messages and messages without isActive field (backward compat)
-          return msg.isActive !== false
-        })
-      }
 
       return isValidSessionWithMessages(data) ? data : null
     },
-    [safeFetch]
+    [executeRestoreWithRetry, getEffectiveUserId]
   )
 
   // Poll for session title
@@ -325,14 +499,14 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
         if (!mountedRef.current) return null
 
         try {
-          const session = await restoreSession(sessionIdToPoll)
+          const session = await restoreSession(sessionIdToPoll, { retry: false })
           const currentTitle = session?.title
           if (currentTitle && !PLACEHOLDER_TITLES.has(currentTitle)) {
             updateSessionTitleLocally(sessionIdToPoll, currentTitle)
             return currentTitle
           }
         } catch (err) {
-          console.warn('[useChat] pollSessionTitle error', err)
+          log.warn('Error polling session title', { action: 'pollSessionTitle', error: err })
         }
 
         await new Promise((resolve) => setTimeout(resolve, TITLE_POLL_DELAY))
@@ -346,25 +520,15 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
   const createNewSession = useCallback(async (): Promise<Session | null> => {
     const effectiveUserId = getEffectiveUserId()
     if (!effectiveUserId) {
-      console.error('[createNewSession] No user ID available')
+      log.error('No user ID available', { action: 'createNewSession' })
       return null
     }
 
-    const { data, error: fetchError } = await safeFetch<Session>(
-      `${API_URL}/api/sessions/`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userId: effectiveUserId,
-          clerkUserId: effectiveUserId,
-          title: 'New Conversation',
-        }),
-      }
-    )
-
-    if (fetchError) {
-      console.error('[createNewSession] Error:', fetchError)
+    let data: Session | null
+    try {
+      data = await executeCreateSessionWithRetry(() => apiClient.createSession(effectiveUserId))
+    } catch (err) {
+      log.error('Error creating session', { action: 'createNewSession', error: err })
       return null
     }
 
@@ -381,22 +545,19 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
     }
 
     return null
-  }, [getEffectiveUserId, safeFetch, ensureSessionInList])
+  }, [getEffectiveUserId, executeCreateSessionWithRetry, ensureSessionInList])
 
   // Generate title for session
   const generateTitleForSession = useCallback(
     async (sessionIdToUpdate: string, userMessage: string, assistantMessage: string) => {
       try {
-        const { data } = await safeFetch<{ title?: string; session?: { title?: string } }>(
-          `${API_URL}/api/sessions/${sessionIdToUpdate}/generate-title`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              message: userMessage,
-              assistant_response: assistantMessage,
-            }),
-          }
+        const { data } = await safeRequest(() =>
+          apiClient.generateTitle(
+            sessionIdToUpdate,
+            userMessage,
+            assistantMessage,
+            getEffectiveUserId()
+          )
         )
 
         const newTitle = data?.title || data?.session?.title
@@ -404,7 +565,7 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
           updateSessionTitleLocally(sessionIdToUpdate, newTitle)
         }
       } catch (err) {
-        console.error('Failed to generate title:', err)
+        log.error('Failed to generate title', { action: 'generateTitle', error: err })
       }
 
       await pollSessionTitle(sessionIdToUpdate)
@@ -412,14 +573,52 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
         await loadUserSessions()
       }
     },
-    [safeFetch, updateSessionTitleLocally, pollSessionTitle, loadUserSessions]
+    [safeRequest, getEffectiveUserId, updateSessionTitleLocally, pollSessionTitle, loadUserSessions]
+  )
+
+  // Guest chats are discarded on reload, so guests stay on `/`
+  const updateSessionUrl = useCallback(
+    (sessionIdForUrl: string | null, options?: { replace?: boolean }) => {
+      if (!sessionIdForUrl || (userId && !userId.startsWith('anon_'))) {
+        navigateToSession(sessionIdForUrl, options)
+      }
+    },
+    [userId]
   )
 
+  // Token count and compression belong to one session
+  const resetContextState = useCallback((session?: RestoredSession) => {
+    setTotalTokens(typeof session?.total_tokens === 'number' && session.total_tokens > 0 ? session.total_tokens : null)
+    setCompression(parseCompression(session?.compression))
+    setCompressionNeeded(false)
+  }, [])
+
+  // Show a restored session's messages along with the feedback given on them
+  const applySessionContent = useCallback(
+    (session: RestoredSession) => {
+      const { messages: storedMessages, feedback } = splitStoredFeedback(session.messages ?? [])
+      setMessageTree(treeFromMessages(storedMessages))
+      setMessageFeedback(feedback)
+      resetContextState(session)
+    },
+    [resetContextState]
+  )
+
+  const showSessionNotFound = useCallback(() => {
+    setSessionId(null)
+    setMessageTree(emptyTree())
+    resetContextState()
+    isPendingNewSession.current = false
+    sessionStorage.removeItem('currentSessionId')
+    setSessionNotFound(true)
+  }, [resetContextState])
+
   // Initialize session on mount
   const initializeSession = useCallback(async () => {
     if (!mountedRef.current) return
 
     setIsLoadingSession(true)
+    setSessionNotFound(false)
 
     try {
       // Check if user is authenticated (has real Clerk user ID)
@@ -432,9 +631,10 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
         setIsLoadingAccount(true)
         const accountPromise = loadUserAccount()
         const profilePromise = loadUserProfile()
+        const restrictionPromise = loadRestriction()
 
         // Wait for account/profile to load
-        await Promise.all([accountPromise, profilePromise])
+        await Promise.all([accountPromise, profilePromise, restrictionPromise])
       }
 
       // For ANONYMOUS users: Start fresh on every page load
@@ -444,7 +644,7 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
       if (!isAuthenticated) {
         if (mountedRef.current) {
           setSessionId(null)
-          setMessages([])
+          setMessageTree(emptyTree())
           setSessions([]) // Clear sidebar sessions
           isPendingNewSession.current = true
           sessionStorage.removeItem('currentSessionId')
@@ -452,19 +652,48 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
           if (typeof window !== 'undefined') {
             localStorage.removeItem('selve_chat_anon_id')
           }
+          // Guests never own a saved session
+          if (initialSessionId) {
+            showSessionNotFound()
+          }
         }
         setIsLoadingSession(false)
         return
       }
 
+      // A session named in the URL wins over the persisted and most recent ones
+      if (initialSessionId) {
+        let notFound = false
+        const session = await restoreSession(initialSessionId, {
+          onNotFound: () => {
+            notFound = true
+          },
+        })
+        if (!mountedRef.current) return
+
+        if (session) {
+          setSessionId(session.id)
+          applySessionContent(session)
+          isPendingNewSession.current = false
+          sessionStorage.setItem('currentSessionId', session.id)
+        } else if (notFound) {
+          showSessionNotFound()
+        } else {
+          setError('Failed to load this conversation - please check your connection')
+        }
+        await loadUserSessions()
+        return
+      }
+
       // For AUTHENTICATED users: Restore session and history
       const persistedSessionId = sessionStorage.getItem('currentSessionId')
       if (persistedSessionId) {
         const session = await restoreSession(persistedSessionId)
         if (session && mountedRef.current) {
           setSessionId(session.id)
-          setMessages(session.messages || [])
+          applySessionContent(session)
           isPendingNewSession.current = false
+          updateSessionUrl(session.id, { replace: true })
           ensureSessionInList({
             id: session.id,
             title: session.title || 'New Conversation',
@@ -482,9 +711,10 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
         const session = await restoreSession(mostRecent.id)
         if (session && mountedRef.current) {
           setSessionId(session.id)
-          setMessages(session.messages || [])
+          applySessionContent(session)
           isPendingNewSession.current = false
           sessionStorage.setItem('currentSessionId', session.id)
+          updateSessionUrl(session.id, { replace: true })
           ensureSessionInList({
             id: session.id,
             title: session.title || 'New Conversation',
@@ -498,41 +728,67 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
       // No sessions - wait for first message
       if (mountedRef.current) {
         setSessionId(null)
-        setMessages([])
+        setMessageTree(emptyTree())
         isPendingNewSession.current = true
         sessionStorage.removeItem('currentSessionId')
       }
     } catch (err) {
-      console.error('[useChat] Error initializing session:', err)
+      log.error('Error initializing session', { action: 'initializeSession', error: err })
     } finally {
       if (mountedRef.current) {
         setIsLoadingSession(false)
       }
     }
-  }, [userId, loadUserSessions, restoreSession, ensureSessionInList, loadUserAccount, loadUserProfile])
+  }, [
+    userId,
+    initialSessionId,
+    loadUserSessions,
+    restoreSession,
+    ensureSessionInList,
+    loadUserAccount,
+    loadUserProfile,
+    loadRestriction,
+    showSessionNotFound,
+    updateSessionUrl,
+    applySessionContent,
+  ])
 
   // Switch to a different session
+  // (`updateUrl: false` when the URL already changed, i.e. back/forward)
   const switchSession = useCallback(
-    async (newSessionId: string) => {
+    async (newSessionId: string, { updateUrl = true }: { updateUrl?: boolean } = {}) => {
       abortControllerRef.current?.abort()
 
-      const session = await restoreSession(newSessionId)
-      if (session && mountedRef.current) {
+      let notFound = false
+      const session = await restoreSession(newSessionId, {
+        onNotFound: () => {
+          notFound = true
+        },
+      })
+      if (!mountedRef.current) return
+
+      if (session) {
         setSessionId(session.id)
-        setMessages(session.messages || [])
+        applySessionContent(session)
         isPendingNewSession.current = false
         sessionStorage.setItem('currentSessionId', session.id)
         setStreamingContent('')
         setThinkingStatus(null)
         setError(null)
         setSecurityWarning(null)
+        setSessionNotFound(false)
+      } else if (notFound) {
+        showSessionNotFound()
+      } else {
+        return
       }
+      if (updateUrl) updateSessionUrl(newSessionId)
     },
-    [restoreSession]
+    [restoreSession, showSessionNotFound, updateSessionUrl, applySessionContent]
   )
 
   // Create new conversation
-  const createNewConversation = useCallback(async () => {
+  const createNewConversation = useCallback(async ({ updateUrl = true }: { updateUrl?: boolean } = {}) => {
     // Prevent creating duplicate empty sessions
     if (isPendingNewSession.current && messages.length === 0) {
       return
@@ -545,80 +801,242 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
 
     if (mountedRef.current) {
       setSessionId(null)
-      setMessages([])
+      setMessageTree(emptyTree())
+      resetContextState()
       isPendingNewSession.current = true
       sessionStorage.removeItem('currentSessionId')
       setStreamingContent('')
       setThinkingStatus(null)
       setError(null)
       setSecurityWarning(null)
+      setSessionNotFound(false)
+      if (updateUrl) updateSessionUrl(null)
       await loadUserSessions()
     }
-  }, [loadUserSessions, messages.length, sessionId])
+  }, [loadUserSessions, messages.length, sessionId, updateSessionUrl, resetContextState])
 
   // Delete session
   const deleteSession = useCallback(
     async (sessionIdToDelete: string) => {
       try {
-        const response = await fetch(`${API_URL}/api/sessions/${sessionIdToDelete}`, {
-          method: 'DELETE',
-        })
+        await apiClient.deleteSession(sessionIdToDelete, getEffectiveUserId())
 
-        if (response.ok && mountedRef.current) {
+        if (mountedRef.current) {
           if (sessionIdToDelete === sessionId) {
             setSessionId(null)
-            setMessages([])
+            setMessageTree(emptyTree())
+            resetContextState()
             isPendingNewSession.current = true
             sessionStorage.removeItem('currentSessionId')
+            updateSessionUrl(null, { replace: true })
           }
           await loadUserSessions()
         }
       } catch (err) {
-        console.error('Error deleting session:', err)
+        log.error('Error deleting session', { action: 'deleteSession', error: err })
       }
     },
-    [sessionId, loadUserSessions]
+    [sessionId, getEffectiveUserId, loadUserSessions, updateSessionUrl, resetContextState]
   )
 
-  // Main send message function
-  const sendMessage = useCallback(
-    async (
-      userMessage: string,
-      regenerationContext?: {
-        regenerationType?: 'regenerate' | 'edit'
-        parentMessageId?: string
-        groupId?: string
+  // Summarize the older turns on the backend so the conversation fits the
+  // model's context again. The messages stay visible; a divider marks where
+  // the summary takes over.
+  const compressConversation = useCallback(async () => {
+    if (!sessionId || isLoading || isCompressing) return
+
+    setIsCompressing(true)
+    try {
+      const result = await apiClient.compressSession(sessionId, getEffectiveUserId())
+      if (!mountedRef.current) return
+      setCompression(parseCompression(result))
+      if (typeof result.total_tokens === 'number' && result.total_tokens > 0) setTotalTokens(result.total_tokens)
+      setCompressionNeeded(false)
+    } catch (err) {
+      log.error('Error compressing conversation', { action: 'compressConversation', error: err })
+      if (mountedRef.current) setError('Failed to compress the conversation - please try again')
+    } finally {
+      if (mountedRef.current) setIsCompressing(false)
+    }
+  }, [sessionId, isLoading, isCompressing, getEffectiveUserId])
+
+  // Save imported conversations as new sessions and open the first one.
+  // A failure doesn't stop the rest; each result says whether it was saved,
+  // so the caller can retry just the failed ones instead of duplicating
+  const importConversations = useCallback(
+    async (conversations: ImportedConversation[]): Promise<ImportResult[]> => {
+      const effectiveUserId = getEffectiveUserId()
+      if (!effectiveUserId) throw new Error('Sign in to import conversations')
+
+      const results: ImportResult[] = []
+      for (const conversation of conversations) {
+        try {
+          results.push({ conversation, session: await apiClient.importSession(effectiveUserId, conversation) })
+        } catch (err) {
+          log.error('Error importing conversation', { action: 'importConversations', error: err })
+          results.push({ conversation, session: null })
+        }
       }
-    ) => {
-      const trimmedMessage = userMessage.trim()
-      if (!trimmedMessage) return
 
-      // Don't send if banned
-      if (isBanned) {
-        setError('You are currently restricted from sending messages.')
-        return
+      const firstCreated = results.find((result) => result.session)?.session
+      if (mountedRef.current && firstCreated) {
+        await loadUserSessions()
+        await switchSession(firstCreated.id)
       }
+      return results
+    },
+    [getEffectiveUserId, loadUserSessions, switchSession]
+  )
 
+  // Shared fields for every /api/chat/stream request
+  const buildStreamRequestBody = useCallback(
+    async (message: string, targetSessionId: string): Promise<ChatStreamRequestBody> => {
       // Load profile if needed
       if (userId) {
         if (profileLoadedRef.current) {
           try {
             await profileLoadedRef.current
           } catch (e) {
-            console.warn('Profile load failed:', e)
+            log.warn('Profile load failed', { action: 'buildStreamRequestBody', error: e })
           }
         } else if (!userProfile) {
           await loadUserProfile()
         }
       }
 
-      const selveScores = userProfile?.scores || null
       const assessmentBase = (
         process.env.NEXT_PUBLIC_ASSESSMENT_URL ||
         process.env.NEXT_PUBLIC_MAIN_APP_URL ||
         (typeof window !== 'undefined' ? window.location.origin : 'http://localhost:3000')
       ).trim()
-      const assessmentUrl = `${assessmentBase.replace(/\/$/, '')}/assessment`
+
+      return {
+        message,
+        session_id: targetSessionId,
+        clerk_user_id: userId || null,
+        user_name: userName || null,
+        selve_scores: userProfile?.scores || null,
+        assessment_url: `${assessmentBase.replace(/\/$/, '')}/assessment`,
+        // Detect user's timezone automatically
+        user_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+        // Whether user is logged in (not anonymous)
+        is_authenticated: userId ? !userId.startsWith('anon_') : false,
+        sign_in_url: signInUrl || null,
+        stream: true,
+      }
+    },
+    [userId, userName, userProfile, signInUrl, loadUserProfile]
+  )
+
+  // Stream events that update conversation-wide state rather than one message
+  const applySharedStreamEvent = useCallback((event: StreamEvent) => {
+    switch (event.type) {
+      case 'ban':
+        setRestriction((current) => ({
+          message: event.message,
+          expiresAt: event.expires_at,
+          policy: event.policy,
+          appeal: current?.appeal ?? null,
+        }))
+        // Don't stop here - the stream continues with the explanation
+        break
+
+      case 'warning':
+        setSecurityWarning(event.message || 'Suspicious patterns detected.')
+        // Auto-clear warning after 10 seconds
+        setTimeout(() => {
+          if (mountedRef.current) {
+            setSecurityWarning(null)
+          }
+        }, 10000)
+        break
+
+      case 'error':
+        log.error('Server error', { action: 'stream', error: event.message })
+        break
+
+      case 'status': {
+        const status: ThinkingStatus = {
+          status: event.status,
+          message: event.message || 'Processing...',
+          details: event.details,
+        }
+        setThinkingStatus(status)
+        currentReasoningRef.current = recordReasoningStep(currentReasoningRef.current, status, Date.now())
+        setLiveReasoning(currentReasoningRef.current)
+        break
+      }
+
+      case 'compression':
+        // Stays until the conversation is compressed or left
+        setCompressionNeeded(true)
+        break
+
+      case 'tokens':
+        setTotalTokens(event.total_tokens)
+        break
+    }
+  }, [])
+
+  // Main send message function
+  const sendMessage = useCallback(
+    async (
+      userMessage: string,
+      {
+        // Pass the failed message's ID to resend it instead of adding a new one
+        clientMessageId = createClientMessageId(),
+        placement = { type: 'append' },
+      }: { clientMessageId?: string; placement?: TurnPlacement } = {}
+    ) => {
+      const trimmedMessage = userMessage.trim()
+      if (!trimmedMessage) return
+
+      // Don't send if banned
+      if (isBanned) {
+        setError('You are currently restricted from sending messages.')
+        return
+      }
+
+      // A resent message moves to the end of the conversation
+      const baseTree = removeMessage(messageTree, clientMessageId)
+      const isRegeneration = placement.type === 'regenerate'
+      const replaced = placement.type === 'append' ? null : baseTree.nodes[placement.messageKey]
+      if (placement.type !== 'append' && !replaced) return
+
+      // The message the new turn follows: the question being answered again,
+      // the edited question's parent, or the end of the shown branch
+      const previousKey = replaced ? replaced.parentKey : lastVisibleKey(baseTree)
+      if (isRegeneration && !previousKey) return
+      const isFirstMessage = baseTree.rootKeys.length === 0
+      // A regenerated answer hangs off the existing question
+      const userMessageKey = isRegeneration ? previousKey! : clientMessageId
+
+      // Minted up front so the answer has a stable ID before the backend replies
+      const assistantClientId = createClientMessageId()
+      let assistantMessageId = assistantClientId
+      let pendingCitations: Citation[] | undefined
+
+      // Reconciliation is by client ID, never by position
+      const setUserMessageStatus = (status: MessageStatus, id?: string) => {
+        if (isRegeneration) return
+        setMessageTree((prev) => updateMessage(prev, clientMessageId, { status, ...(id ? { id } : {}) }))
+      }
+
+      // Optimistically add user message
+      if (!isRegeneration) {
+        setMessageTree((prev) =>
+          addMessage(removeMessage(prev, clientMessageId), previousKey, {
+            role: 'user',
+            content: trimmedMessage,
+            id: clientMessageId,
+            clientId: clientMessageId,
+            status: 'pending',
+            createdAt: new Date().toISOString(),
+          })
+        )
+      }
+      setError(null)
+      setSecurityWarning(null)
 
       // Create session if needed
       let effectiveSessionId = sessionId
@@ -628,62 +1046,91 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
           effectiveSessionId = newSession.id
           setSessionId(newSession.id)
           sessionStorage.setItem('currentSessionId', newSession.id)
+          // The new chat at `/` becomes this session, so no extra history entry
+          updateSessionUrl(newSession.id, { replace: true })
         } else {
+          setUserMessageStatus('failed')
           setError('Failed to create session - please check your connection')
           return
         }
       }
 
+      const requestBody = await buildStreamRequestBody(trimmedMessage, effectiveSessionId)
+      // Lets the backend store both messages under our IDs and deduplicate resends
+      requestBody.client_message_id = clientMessageId
+      requestBody.assistant_message_id = assistantClientId
+
+      // Where the turn goes in the conversation tree
+      const serverId = (key: string) => baseTree.nodes[key]?.message.id ?? key
+      requestBody.previous_message_id = previousKey ? serverId(previousKey) : null
+      if (placement.type !== 'append') {
+        requestBody.regeneration_type = placement.type
+        requestBody.parent_message_id = serverId(placement.messageKey)
+        // All versions share the group of the first one
+        requestBody.group_id = `group-${serverId(siblingKeys(baseTree, placement.messageKey)[0])}`
+      }
+
       // Setup request
       abortControllerRef.current?.abort()
       abortControllerRef.current = new AbortController()
+      stopRequestedRef.current = false
 
-      const isFirstMessage = messages.length === 0
-      const currentMessageIndex = messages.length
-
-      // Optimistically add user message
-      setMessages((prev) => [...prev, { role: 'user', content: trimmedMessage }])
       setIsLoading(true)
       setStreamingContent('')
-      setError(null)
-      setSecurityWarning(null)
       setThinkingStatus({
         status: 'analyzing',
         message: 'Processing your message...',
         details: {},
       })
+      currentReasoningRef.current = []
+      setLiveReasoning([])
 
       let fullContent = ''
       let streamFinalized = false
-      let receivedBan = false
-      let receivedWarning = false
+      let userMessageAcknowledged = false
+
+      const commitAssistantMessage = (content: string, status: MessageStatus) => {
+        const traceId = currentTraceIdRef.current
+        // Clear trace ID ref for next message
+        currentTraceIdRef.current = null
+
+        const reasoning = finishReasoning(currentReasoningRef.current, Date.now())
+        currentReasoningRef.current = []
+
+        setMessageTree((prev) => {
+          const added = addMessage(
+            prev,
+            userMessageKey,
+            {
+              role: 'assistant',
+              content,
+              status,
+              id: assistantMessageId,
+              clientId: assistantClientId,
+              createdAt: new Date().toISOString(),
+              ...(traceId ? { traceId } : {}),
+            },
+            pendingCitations
+          )
+          return reasoning.length > 0 ? setReasoning(added, assistantClientId, reasoning) : added
+        })
+      }
 
       const finalizeStream = async (content: string = fullContent) => {
         if (streamFinalized || !mountedRef.current) return
         streamFinalized = true
+        userMessageAcknowledged = true
+        setUserMessageStatus('sent')
 
         // Only add assistant message if we have content
         if (content.trim()) {
-          setMessages((prev) => {
-            const updated = [...prev, { role: 'assistant' as const, content }]
-
-            // Associate trace ID with the new assistant message
-            if (currentTraceIdRef.current && updated.length > 0) {
-              const messageIndex = updated.length - 1
-              setMessageTraceIds((prevIds) => ({
-                ...prevIds,
-                [messageIndex]: currentTraceIdRef.current!,
-              }))
-            }
-
-            return updated
-          })
+          commitAssistantMessage(content, 'sent')
+        } else {
+          currentTraceIdRef.current = null
         }
 
-        // Clear trace ID ref for next message
-        currentTraceIdRef.current = null
-
         setStreamingContent('')
+        setIsResumingStream(false)
         setThinkingStatus(null)
         setIsLoading(false)
 
@@ -693,244 +1140,121 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
         } else {
           await loadUserSessions()
         }
-
-        // Refresh session to get real message IDs (for feedback functionality)
-        // Use setTimeout to allow backend background task to complete saving
-        if (effectiveSessionId) {
-          setTimeout(async () => {
-            try {
-              const session = await restoreSession(effectiveSessionId)
-              if (session?.messages && mountedRef.current) {
-                // Merge database IDs into existing messages instead of replacing
-                setMessages((prevMessages): Message[] => {
-                  if (!session.messages) return prevMessages
-
-                  // If DB has same number of messages, update with IDs
-                  if (session.messages.length === prevMessages.length) {
-                    return prevMessages.map((msg, idx) => ({
-                      ...msg,
-                      id: session.messages![idx]?.id || msg.id,
-                    }))
-                  }
-                  // If DB has more messages (shouldn't happen), use DB version
-                  if (session.messages.length > prevMessages.length) {
-                    return session.messages
-                  }
-                  // If DB has fewer (background task not done), keep current state
-                  return prevMessages
-                })
-              }
-            } catch (err) {
-              console.warn('Failed to refresh messages with IDs:', err)
-            }
-          }, 500) // 500ms delay to let background task complete
-        }
       }
 
-      try {
-        // Detect user's timezone automatically
-        const userTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
-
-        // Determine if user is authenticated (not anonymous)
-        const isAuthenticated = userId ? !userId.startsWith('anon_') : false
-
-        const requestBody: any = {
-          message: trimmedMessage,
-          session_id: effectiveSessionId,
-          clerk_user_id: userId || null,
-          user_name: userName || null,
-          selve_scores: selveScores,
-          assessment_url: assessmentUrl,
-          user_timezone: userTimezone,  // User's local timezone
-          is_authenticated: isAuthenticated,  // Whether user is logged in
-          sign_in_url: signInUrl || null,  // Sign-in URL for environment
-          stream: true,
-        }
-
-        // Add regeneration context if provided
-        if (regenerationContext?.regenerationType) {
-          requestBody.regeneration_type = regenerationContext.regenerationType
-          requestBody.parent_message_id = regenerationContext.parentMessageId
-          requestBody.group_id = regenerationContext.groupId
-        }
-
-        const response = await fetch(`${API_URL}/api/chat/stream`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(requestBody),
-          signal: abortControllerRef.current.signal,
-        })
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-        }
-
-        const body = response.body
-        if (!body) {
-          throw new Error('Response body is null')
-        }
-
-        const reader = body.getReader()
-        const decoder = new TextDecoder()
-        let buffer = ''
-
-        const processSSELine = (line: string) => {
-          const trimmedLine = line.trim()
-          if (!trimmedLine.startsWith('data: ')) return
-
-          const data = trimmedLine.slice(6)
-          if (data === '[DONE]') return
+      // Shared by retries and resumes of this turn
+      const requestId = createRequestId()
 
-          try {
-            const parsed = JSON.parse(data)
-
-            // Handle ban
-            if (parsed.type === 'ban' && mountedRef.current) {
-              receivedBan = true
-              setIsBanned(true)
-              setBanExpiresAt(parsed.expires_at || null)
-              // Don't return early - let the stream continue to get the message
-            }
-
-            // Handle warning
-            if (parsed.type === 'warning' && mountedRef.current) {
-              receivedWarning = true
-              setSecurityWarning(parsed.message || 'Suspicious patterns detected.')
-              // Auto-clear warning after 10 seconds
-              setTimeout(() => {
-                if (mountedRef.current) {
-                  setSecurityWarning(null)
-                }
-              }, 10000)
-              // Don't return - continue processing the response
-            }
-
-            // Handle error
-            if (parsed.type === 'error' && mountedRef.current) {
-              console.error('Server error:', parsed.message)
-            }
-
-            // Handle trace ID for feedback tracking
-            if (parsed.type === 'trace_id' && parsed.trace_id && mountedRef.current) {
-              currentTraceIdRef.current = parsed.trace_id
-            }
+      try {
+        const handleStreamEvent = (event: StreamEvent) => {
+          if (!mountedRef.current) return
+
+          switch (event.type) {
+            case 'trace_id':
+              // Captured for feedback tracking
+              currentTraceIdRef.current = event.trace_id
+              // Links the browser's request to the backend's trace
+              log.info('Answer traced', { action: 'sendMessage', requestId, traceId: event.trace_id })
+              break
 
-            // Handle user message ID (update the last user message with real ID)
-            if (parsed.type === 'user_message_id' && parsed.message_id && mountedRef.current) {
-              setMessages((prev) => {
-                const updated = [...prev]
-                // Find the last user message and update its ID
-                for (let i = updated.length - 1; i >= 0; i--) {
-                  if (updated[i].role === 'user' && !updated[i].id) {
-                    updated[i] = { ...updated[i], id: parsed.message_id }
-                    break
-                  }
-                }
-                return updated
-              })
-            }
+            case 'user_message_id':
+              // The backend stored the message; adopt its ID if it chose its own
+              userMessageAcknowledged = true
+              setUserMessageStatus('sent', event.message_id)
+              break
 
-            // Handle status updates
-            if (parsed.type === 'status' && mountedRef.current) {
-              setThinkingStatus({
-                status: parsed.status || 'generating',
-                message: parsed.message || 'Processing...',
-                details: parsed.details || {},
-              })
-            }
+            case 'assistant_message_id':
+              assistantMessageId = event.message_id
+              // In case the answer was already committed
+              setMessageTree((prev) => updateMessage(prev, assistantClientId, { id: event.message_id }))
+              break
 
-            // Handle content chunks
-            const content = parsed.content || parsed.chunk
-            if (content && mountedRef.current) {
-              fullContent += content
+            case 'content':
+              fullContent += event.content
               setStreamingContent(fullContent)
-              // Clear thinking status when content starts flowing
-              if (fullContent.length > 0) {
-                setThinkingStatus(null)
-              }
-            }
-
-            // Handle citations
-            if (parsed.citations && mountedRef.current) {
-              setMessageCitations((prev) => ({
-                ...prev,
-                [currentMessageIndex + 1]: parsed.citations,
-              }))
-            }
-
-            // Handle compression warning
-            if (parsed.compression_needed && mountedRef.current) {
-              setCompressionNeeded(true)
-              setTimeout(() => {
-                if (mountedRef.current) {
-                  setCompressionNeeded(false)
-                }
-              }, 8000)
-            }
-
-            // Handle token count
-            if (parsed.total_tokens && mountedRef.current) {
-              setTotalTokens(parsed.total_tokens)
-            }
-
-            // Handle done signal
-            if (parsed.done && !streamFinalized) {
-              finalizeStream()
-            }
-          } catch {
-            // Ignore JSON parse errors
-          }
-        }
+              // Clear thinking status once content starts flowing
+              setThinkingStatus(null)
+              currentReasoningRef.current = finishReasoning(currentReasoningRef.current, Date.now())
+              break
 
-        try {
-          while (true) {
-            const { done, value } = await reader.read()
+            case 'citations':
+              // Attached when the answer is committed (or now, if it already was)
+              pendingCitations = event.citations
+              setMessageTree((prev) => setCitations(prev, assistantClientId, event.citations))
+              break
 
-            if (done) {
-              // Process remaining buffer
-              if (buffer.trim()) {
-                processSSELine(buffer)
-              }
-              // Finalize if not already done
+            case 'done':
               if (!streamFinalized) {
-                await finalizeStream()
+                finalizeStream()
               }
               break
-            }
-
-            buffer += decoder.decode(value, { stream: true })
-            const lines = buffer.split('\n')
-            buffer = lines.pop() || ''
 
-            for (const line of lines) {
-              processSSELine(line)
-            }
+            default:
+              applySharedStreamEvent(event)
           }
-        } finally {
-          reader.releaseLock()
         }
+
+        const signal = abortControllerRef.current.signal
+        await executeSendWithRetry(
+          () =>
+            streamChat({
+              url: apiClient.chatStreamUrl,
+              body: requestBody,
+              signal,
+              headers: apiClient.headers(getEffectiveUserId(), {
+                'Idempotency-Key': clientMessageId,
+                [REQUEST_ID_HEADER]: requestId,
+              }),
+              onEvent: handleStreamEvent,
+              // The raw payload is left out: it can hold the user's own words
+              onIssue: (issue) =>
+                log.warn(`Stream protocol issue: ${issue.message}`, { action: 'sendMessage', requestId, kind: issue.kind }),
+              onResumeStateChange: (resuming) => {
+                if (mountedRef.current) {
+                  setIsResumingStream(resuming)
+                }
+              },
+            }),
+          // Once text has arrived, a fresh request would duplicate it
+          { shouldRetry: (err) => !fullContent && isRetryableError(err) }
+        )
       } catch (err) {
         if (err instanceof Error && err.name === 'AbortError') {
           if (mountedRef.current) {
+            // Keep whatever was written before the user pressed stop
+            if (stopRequestedRef.current && !streamFinalized && fullContent.trim()) {
+              streamFinalized = true
+              commitAssistantMessage(fullContent, 'interrupted')
+            }
+            // Without an acknowledgement we can't know the message arrived,
+            // so offer a retry (the client ID makes that safe)
+            if (!streamFinalized) {
+              setUserMessageStatus(userMessageAcknowledged || fullContent ? 'sent' : 'failed')
+            }
+            setStreamingContent('')
             setIsLoading(false)
+            setIsResumingStream(false)
             setThinkingStatus(null)
           }
           return
         }
 
-        console.error('Stream error:', err)
+        log.error('Stream error', { action: 'sendMessage', requestId, error: err })
 
         if (mountedRef.current) {
           const errorMessage = err instanceof Error ? err.message : 'Unknown error'
           setError(`Failed to get response: ${errorMessage}`)
           setThinkingStatus({ status: 'error', message: 'Something went wrong', details: {} })
           
-          // Add error message to chat
-          setMessages((prev) => [
-            ...prev,
-            { role: 'assistant', content: 'Sorry, I encountered an error. Please try again.' },
-          ])
+          // Keep any partial answer; flag the user message so it can be resent
+          if (fullContent.trim()) {
+            commitAssistantMessage(fullContent, 'interrupted')
+            setUserMessageStatus('sent')
+          } else {
+            setUserMessageStatus('failed')
+          }
           setStreamingContent('')
+          setIsResumingStream(false)
           setIsLoading(false)
           
           // Still try to generate title
@@ -952,23 +1276,288 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
     },
     [
       sessionId,
-      userId,
-      userName,
-      userProfile,
-      messages.length,
+      messageTree,
       isBanned,
+      getEffectiveUserId,
       createNewSession,
+      buildStreamRequestBody,
+      applySharedStreamEvent,
+      executeSendWithRetry,
       generateTitleForSession,
       loadUserSessions,
-      loadUserProfile,
+      updateSessionUrl,
+    ]
+  )
+
+  // Ask the backend to extend an interrupted assistant message in place
+  const continueGeneration = useCallback(
+    async (messageIndex: number) => {
+      const targetKey = visiblePath[messageIndex]
+      const target = messages[messageIndex]
+      if (!target || target.role !== 'assistant' || target.status !== 'interrupted') return
+      if (!sessionId || isLoading) return
+
+      if (isBanned) {
+        setError('You are currently restricted from sending messages.')
+        return
+      }
+
+      // The user message this answer responds to
+      const prompt = messages
+        .slice(0, messageIndex)
+        .reverse()
+        .find((message) => message.role === 'user')
+
+      const requestBody = await buildStreamRequestBody(prompt?.content ?? '', sessionId)
+      requestBody.continue_message_id = target.id ?? null
+      requestBody.partial_content = target.content
+
+      abortControllerRef.current?.abort()
+      abortControllerRef.current = new AbortController()
+      stopRequestedRef.current = false
+
+      setContinuingMessageIndex(messageIndex)
+      setIsLoading(true)
+      setStreamingContent('')
+      setError(null)
+      setThinkingStatus({
+        status: 'generating',
+        message: 'Continuing response...',
+        details: {},
+      })
+      currentReasoningRef.current = []
+      setLiveReasoning([])
+
+      let addedContent = ''
+      let addedCitations: Citation[] = []
+
+      const mergeIntoMessage = (status: MessageStatus) => {
+        const traceId = currentTraceIdRef.current
+        currentTraceIdRef.current = null
+        const reasoning = finishReasoning(currentReasoningRef.current, Date.now())
+        currentReasoningRef.current = []
+
+        setMessageTree((prev) => {
+          // The continuation's sources follow the answer's own, and its
+          // markers are renumbered to match
+          const { citations, positions } = mergeCitations(prev.nodes[targetKey]?.citations ?? [], addedCitations)
+          const merged = updateMessage(prev, targetKey, (message) => ({
+            ...message,
+            content: message.content + renumberCitationMarkers(addedContent, positions),
+            status,
+            // Feedback now covers the continued answer too
+            ...(traceId ? { traceId } : {}),
+          }))
+          const withCitations = addedCitations.length > 0 ? setCitations(merged, targetKey, citations) : merged
+          // The continuation's steps follow those of the original answer
+          return reasoning.length > 0
+            ? setReasoning(withCitations, targetKey, [...(prev.nodes[targetKey]?.reasoning ?? []), ...reasoning])
+            : withCitations
+        })
+      }
+
+      const resetStreamState = () => {
+        setContinuingMessageIndex(null)
+        setStreamingContent('')
+        setIsResumingStream(false)
+        setThinkingStatus(null)
+        setIsLoading(false)
+      }
+
+      const requestId = createRequestId()
+
+      try {
+        await streamChat({
+          url: apiClient.chatStreamUrl,
+          body: requestBody,
+          headers: apiClient.headers(getEffectiveUserId(), { [REQUEST_ID_HEADER]: requestId }),
+          signal: abortControllerRef.current.signal,
+          onEvent: (event) => {
+            if (!mountedRef.current) return
+
+            switch (event.type) {
+              case 'trace_id':
+                currentTraceIdRef.current = event.trace_id
+                log.info('Answer traced', { action: 'continueGeneration', requestId, traceId: event.trace_id })
+                break
+
+              case 'content':
+                addedContent += event.content
+                setStreamingContent(addedContent)
+                setThinkingStatus(null)
+                currentReasoningRef.current = finishReasoning(currentReasoningRef.current, Date.now())
+                break
+
+              case 'citations':
+                // Merged into the answer's own when the continuation is kept
+                addedCitations = event.citations
+                break
+
+              case 'assistant_message_id':
+                setMessageTree((prev) => updateMessage(prev, targetKey, { id: event.message_id }))
+                break
+
+              case 'user_message_id':
+              case 'done':
+                // Continuations don't create a user message; completion is
+                // handled once the stream resolves
+                break
+
+              default:
+                applySharedStreamEvent(event)
+            }
+          },
+          onIssue: (issue) =>
+            log.warn(`Stream protocol issue: ${issue.message}`, {
+              action: 'continueGeneration',
+              requestId,
+              kind: issue.kind,
+            }),
+          onResumeStateChange: (resuming) => {
+            if (mountedRef.current) {
+              setIsResumingStream(resuming)
+            }
+          },
+        })
+
+        if (mountedRef.current) {
+          mergeIntoMessage('sent')
+          resetStreamState()
+        }
+      } catch (err) {
+        if (!mountedRef.current) return
+
+        if (err instanceof Error && err.name === 'AbortError') {
+          // Stopped again: keep the extra text, still marked interrupted.
+          // Aborts caused by switching sessions discard it.
+          if (stopRequestedRef.current) {
+            mergeIntoMessage('interrupted')
+          }
+          resetStreamState()
+          return
+        }
+
+        log.error('Continue generation error', { action: 'continueGeneration', requestId, error: err })
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error'
+        setError(`Failed to continue response: ${errorMessage}`)
+        mergeIntoMessage('interrupted')
+        resetStreamState()
+      }
+    },
+    [
+      messages,
+      visiblePath,
+      sessionId,
+      isLoading,
+      isBanned,
+      getEffectiveUserId,
+      buildStreamRequestBody,
+      applySharedStreamEvent,
     ]
   )
 
+  // Resend a failed user message under its original client ID, optionally
+  // with new text (a redacted version from the privacy guard)
+  const retryFailedMessage = useCallback(
+    async (clientMessageId: string, content?: string) => {
+      const failed = messages.find(
+        (message) => message.clientId === clientMessageId && message.status === 'failed'
+      )
+      if (!failed || isLoading) return
+      await sendMessage(content ?? failed.content, { clientMessageId })
+    },
+    [messages, isLoading, sendMessage]
+  )
+
+  // Give, change or (with null) withdraw feedback on an answer. Shown at
+  // once and rolled back if the backend rejects it.
+  const submitFeedback = useCallback(
+    async (messageId: string, feedback: MessageFeedback | null) => {
+      const previous = messageFeedback[messageId]
+      const show = (value: MessageFeedback | undefined | null) =>
+        setMessageFeedback((prev) => {
+          const next = { ...prev }
+          if (value) {
+            next[messageId] = value
+          } else {
+            delete next[messageId]
+          }
+          return next
+        })
+
+      show(feedback)
+      try {
+        if (feedback) {
+          const key = findKey(messageTree, messageId)
+          await apiClient.submitFeedback({
+            messageId,
+            feedback,
+            traceId: (key && messageTree.nodes[key].message.traceId) || null,
+            sessionId,
+            userId: getEffectiveUserId(),
+          })
+        } else {
+          await apiClient.deleteFeedback(messageId, getEffectiveUserId())
+        }
+      } catch (err) {
+        log.error('Error saving feedback', { action: 'submitFeedback', error: err })
+        if (mountedRef.current) show(previous)
+      }
+    },
+    [messageFeedback, messageTree, sessionId, getEffectiveUserId]
+  )
+
+  // Pull a failed user message back into the input for editing
+  const editFailedMessage = useCallback(
+    (clientMessageId: string) => {
+      const failed = messages.find(
+        (message) => message.clientId === clientMessageId && message.status === 'failed'
+      )
+      if (!failed) return
+      setMessageTree((prev) => removeMessage(prev, clientMessageId))
+      setInput(failed.content)
+    },
+    [messages]
+  )
+
+  // Ask the question above an answer again; the old answer stays as a version
+  const regenerateResponse = useCallback(
+    async (messageIndex: number) => {
+      const key = visiblePath[messageIndex]
+      const node = key ? messageTree.nodes[key] : undefined
+      const prompt = node?.parentKey ? messageTree.nodes[node.parentKey] : undefined
+      if (!node || node.message.role !== 'assistant' || !prompt || isLoading) return
+      await sendMessage(prompt.message.content, { placement: { type: 'regenerate', messageKey: key } })
+    },
+    [visiblePath, messageTree, isLoading, sendMessage]
+  )
+
+  // Send an edited question as a new version of a user message
+  const editMessage = useCallback(
+    async (messageIndex: number, content: string) => {
+      const key = visiblePath[messageIndex]
+      if (!key || messages[messageIndex].role !== 'user' || isLoading) return
+      await sendMessage(content, { placement: { type: 'edit', messageKey: key } })
+    },
+    [visiblePath, messages, isLoading, sendMessage]
+  )
+
+  // Show the previous or next version of a message (and what followed it)
+  const switchBranch = useCallback(
+    (messageIndex: number, direction: 'prev' | 'next') => {
+      const key = visiblePath[messageIndex]
+      if (!key || isLoading) return
+      setMessageTree((prev) => selectBranch(prev, key, direction))
+    },
+    [visiblePath, isLoading]
+  )
+
   // Form submit handler
+  // `message` replaces the input's text, e.g. after the privacy guard redacted it
   const handleSubmit = useCallback(
-    async (e: React.FormEvent) => {
+    async (e: React.FormEvent, message?: string) => {
       e.preventDefault()
-      const userMessage = input.trim()
+      const userMessage = (message ?? input).trim()
       if (!userMessage) return
       setInput('')
       await sendMessage(userMessage)
@@ -979,12 +1568,19 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
   // Utility functions
   const clearError = useCallback(() => setError(null), [])
 
+  // Stop generation; whatever was already written is kept as an
+  // interrupted message by the stream's abort handler
   const cancelStream = useCallback(() => {
+    stopRequestedRef.current = true
     abortControllerRef.current?.abort()
+    resetSendRetry()
+    resetCreateSessionRetry()
     setIsLoading(false)
     setThinkingStatus(null)
     setStreamingContent('')
-  }, [])
+    setIsResumingStream(false)
+  }, [resetSendRetry, resetCreateSessionRetry])
+
 
   // Effects
   useEffect(() => {
@@ -999,6 +1595,22 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
     initializeSession()
   }, [initializeSession])
 
+  // Back/forward: follow the session in the URL without adding history
+  useEffect(() => {
+    const handlePopState = () => {
+      const urlSessionId = sessionIdFromPath(window.location.pathname)
+      if (urlSessionId === sessionId) return
+      if (urlSessionId) {
+        switchSession(urlSessionId, { updateUrl: false })
+      } else {
+        createNewConversation({ updateUrl: false })
+      }
+    }
+
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [sessionId, switchSession, createNewConversation])
+
   // Only reload data when userId changes AFTER initial mount
   // (initial load is handled by initializeSession)
   const initialMountDone = useRef(false)
@@ -1009,11 +1621,12 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
       loadUserSessions()
       loadUserProfile()
       loadUserAccount()
+      loadRestriction()
     }
     if (userId) {
       initialMountDone.current = true
     }
-  }, [userId, loadUserSessions, loadUserProfile, loadUserAccount])
+  }, [userId, loadUserSessions, loadUserProfile, loadUserAccount, loadRestriction])
 
   return {
     // State
@@ -1022,6 +1635,8 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
     setInput,
     isLoading,
     streamingContent,
+    isResumingStream,
+    continuingMessageIndex,
     sessionId,
     isLoadingSession,
     sessions,
@@ -1031,22 +1646,45 @@ export function useChat({ userId, userName, signInUrl }: UseChatOptions = {}) {
     isLoadingProfile,
     isLoadingAccount,
     messageCitations,
+    messageReasoning,
+    messageFeedback,
+    // Version position of each shown message, e.g. answer 2 of 3
+    messageBranches,
     thinkingStatus,
+    liveReasoning,
     compressionNeeded,
     totalTokens,
+    contextUsage,
+    compression,
+    isCompressing,
     isBanned,
     banExpiresAt,
+    restriction,
     securityWarning,
+    sessionNotFound,
+    retryState: activeRetry.retryState,
     hasMessages: messages.length > 0 || !!streamingContent,
     isPendingNewSession: isPendingNewSession.current,
 
     // Actions
     handleSubmit,
     sendMessage,
+    continueGeneration,
+    retryFailedMessage,
+    editFailedMessage,
+    regenerateResponse,
+    editMessage,
+    switchBranch,
+    submitFeedback,
     switchSession,
     createNewConversation,
     deleteSession,
+    compressConversation,
+    submitAppeal,
+    importConversations,
     clearError,
     cancelStream,
+    // Give up on a pending automatic retry
+    cancelRetry: activeRetry.reset,
   }
 }
\ No newline at end of file
@@ -7,6 +7,8 @@ export interface RetryState {
   attempt: number
   maxAttempts: number
   nextRetryIn: number | null
+  // Length of the current wait in seconds, for progress display
+  retryDelay: number | null
   lastError: string | null
 }
 
@@ -19,9 +21,14 @@ interface UseRetryOptions {
   onMaxRetriesReached?: (lastError: Error) => void
 }
 
+interface ExecuteOptions {
+  // Overrides the default retryability check for this call
+  shouldRetry?: (error: unknown) => boolean
+}
+
 interface UseRetryResult {
   retryState: RetryState
-  executeWithRetry: <T>(fn: () => Promise<T>) => Promise<T>
+  executeWithRetry: <T>(fn: () => Promise<T>, options?: ExecuteOptions) => Promise<T>
   reset: () => void
 }
 
@@ -29,6 +36,11 @@ interface UseRetryResult {
  * useRetry Hook
  * 
  * Provides exponential backoff retry logic with visual feedback state.
+ * A `Retry-After` delay carried by the error (see `HttpError`) takes
+ * precedence over the computed backoff; one longer than `maxDelay` fails
+ * right away rather than leaving the caller waiting. Calling `reset`
+ * cancels a pending retry; the in-flight `executeWithRetry` then rejects
+ * with an AbortError.
  * 
  * @example
  * const { retryState, executeWithRetry } = useRetry({
@@ -53,11 +65,13 @@ export function useRetry(options: UseRetryOptions = {}): UseRetryResult {
     attempt: 0,
     maxAttempts,
     nextRetryIn: null,
+    retryDelay: null,
     lastError: null
   })
 
   const countdownRef = useRef<NodeJS.Timeout | null>(null)
   const abortRef = useRef(false)
+  const cancelSleepRef = useRef<(() => void) | null>(null)
 
   const clearCountdown = useCallback(() => {
     if (countdownRef.current) {
@@ -69,11 +83,13 @@ export function useRetry(options: UseRetryOptions = {}): UseRetryResult {
   const reset = useCallback(() => {
     abortRef.current = true
     clearCountdown()
+    cancelSleepRef.current?.()
     setRetryState({
       isRetrying: false,
       attempt: 0,
       maxAttempts,
       nextRetryIn: null,
+      retryDelay: null,
       lastError: null
     })
   }, [clearCountdown, maxAttempts])
@@ -81,36 +97,38 @@ export function useRetry(options: UseRetryOptions = {}): UseRetryResult {
   const sleep = useCallback((ms: number): Promise<void> => {
     return new Promise((resolve, reject) => {
       let remaining = Math.ceil(ms / 1000)
-      
+
       // Start countdown
-      setRetryState(prev => ({ ...prev, nextRetryIn: remaining }))
-      
+      setRetryState(prev => ({ ...prev, nextRetryIn: remaining, retryDelay: remaining }))
+
       countdownRef.current = setInterval(() => {
         remaining -= 1
-        if (remaining <= 0) {
-          clearCountdown()
-          setRetryState(prev => ({ ...prev, nextRetryIn: null }))
-          resolve()
-        } else {
+        if (remaining > 0) {
           setRetryState(prev => ({ ...prev, nextRetryIn: remaining }))
         }
-        
-        // Check if aborted
-        if (abortRef.current) {
-          clearCountdown()
-          reject(new Error('Retry aborted'))
-        }
       }, 1000)
-      
-      // Safety timeout
-      setTimeout(() => {
+
+      const timeoutId = setTimeout(() => {
         clearCountdown()
+        cancelSleepRef.current = null
+        setRetryState(prev => ({ ...prev, nextRetryIn: null }))
         resolve()
-      }, ms + 100)
+      }, ms)
+
+      // Lets reset() interrupt the wait instead of letting it run out
+      cancelSleepRef.current = () => {
+        clearTimeout(timeoutId)
+        clearCountdown()
+        cancelSleepRef.current = null
+        reject(createAbortError())
+      }
     })
   }, [clearCountdown])
 
-  const executeWithRetry = useCallback(async <T>(fn: () => Promise<T>): Promise<T> => {
+  const executeWithRetry = useCallback(async <T>(
+    fn: () => Promise<T>,
+    { shouldRetry = isRetryableError }: ExecuteOptions = {}
+  ): Promise<T> => {
     abortRef.current = false
     let lastError: Error | null = null
     let delay = initialDelay
@@ -129,8 +147,12 @@ export function useRetry(options: UseRetryOptions = {}): UseRetryResult {
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error))
         
-        // Check if we should retry
-        const isRetryable = isRetryableError(error)
+        // Honor the server's Retry-After hint over our own backoff
+        const waitMs = getRetryAfter(error) ?? delay
+
+        // Check if we should retry (never after a manual cancel or when
+        // the server asks us to wait longer than we are willing to)
+        const isRetryable = !abortRef.current && shouldRetry(error) && waitMs <= maxDelay
         
         if (!isRetryable || attempt >= maxAttempts) {
           setRetryState(prev => ({
@@ -154,11 +176,11 @@ export function useRetry(options: UseRetryOptions = {}): UseRetryResult {
         }))
 
         if (onRetry) {
-          onRetry(attempt, delay)
+          onRetry(attempt, waitMs)
         }
 
         // Wait with countdown
-        await sleep(delay)
+        await sleep(waitMs)
         
         // Exponential backoff
         delay = Math.min(delay * backoffMultiplier, maxDelay)
@@ -175,11 +197,35 @@ export function useRetry(options: UseRetryOptions = {}): UseRetryResult {
   }
 }
 
+function createAbortError(): Error {
+  const error = new Error('Retry aborted')
+  error.name = 'AbortError'
+  return error
+}
+
+/**
+ * Read a server-requested retry delay (ms) from an error, if it carries one
+ */
+function getRetryAfter(error: unknown): number | null {
+  if (typeof error === 'object' && error !== null) {
+    const { retryAfterMs } = error as { retryAfterMs?: unknown }
+    if (typeof retryAfterMs === 'number' && retryAfterMs >= 0) {
+      return retryAfterMs
+    }
+  }
+  return null
+}
+
 /**
  * Check if an error is retryable (network errors, rate limits, 5xx errors)
  */
-function isRetryableError(error: unknown): boolean {
+export function isRetryableError(error: unknown): boolean {
   if (!error) return false
+
+  // Deliberate cancellation is never retried
+  if (error instanceof Error && error.name === 'AbortError') {
+    return false
+  }
   
   // Network errors
   if (error instanceof TypeError && error.message.includes('fetch')) {
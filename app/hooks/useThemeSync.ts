@@ -3,8 +3,10 @@
 import { useEffect, useRef } from "react";
 import { useTheme } from "next-themes";
 import { useUser } from "@clerk/nextjs";
+import { apiClient } from "../lib/apiClient";
+import { logger } from "../../lib/logger";
 
-const API_URL = process.env.NEXT_PUBLIC_MAIN_APP_API_URL || "http://localhost:8000";
+const log = logger.child({ component: "useThemeSync" });
 
 /**
  * Syncs theme preference across all Selve apps via backend
@@ -23,25 +25,17 @@ export function useThemeSync() {
 
     async function fetchThemePreference() {
       try {
-        const response = await fetch(`${API_URL}/api/users/theme`, {
-          headers: {
-            "X-User-ID": user!.id,
-          },
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          if (data.theme && data.theme !== theme) {
-            isSyncing.current = true;
-            setTheme(data.theme);
-            // Reset syncing flag after a short delay
-            setTimeout(() => {
-              isSyncing.current = false;
-            }, 100);
-          }
+        const data = await apiClient.getTheme(user!.id);
+        if (data?.theme && data.theme !== theme) {
+          isSyncing.current = true;
+          setTheme(data.theme);
+          // Reset syncing flag after a short delay
+          setTimeout(() => {
+            isSyncing.current = false;
+          }, 100);
         }
       } catch (error) {
-        console.error("[ThemeSync] Error fetching theme preference:", error);
+        log.error("Error fetching theme preference", { action: "fetchTheme", error });
       } finally {
         isInitialLoad.current = false;
       }
@@ -57,19 +51,9 @@ export function useThemeSync() {
 
     async function saveThemePreference() {
       try {
-        const response = await fetch(`${API_URL}/api/users/theme`, {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-            "X-User-ID": user!.id,
-          },
-          body: JSON.stringify({ theme }),
-        });
-        if (response.ok) {
-          // Theme saved successfully
-        }
+        await apiClient.updateTheme(user!.id, theme!);
       } catch (error) {
-        console.error("[ThemeSync] Error saving theme preference:", error);
+        log.error("Error saving theme preference", { action: "saveTheme", error });
       }
     }
 
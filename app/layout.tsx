@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import Script from "next/script";
 import { ClerkProvider } from "@clerk/nextjs";
 import { ConsoleBrand } from "./components/ConsoleBrand";
+import { LogShipping } from "./components/LogShipping";
 import { ThemeProvider } from "./components/ThemeProvider";
 import { SunlitBackground } from "./components/SunlitBackground";
 import { PostHogProvider } from "./providers";
@@ -94,6 +95,7 @@ export default function RootLayout({
           <PostHogProvider>
             <ThemeProvider>
               <SunlitBackground />
+              <LogShipping />
               <ConsoleBrand>{children}</ConsoleBrand>
             </ThemeProvider>
           </PostHogProvider>
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest'
+import { StreamEndedError, streamChat } from '../chatStream'
+import { StreamEvent } from '../streamProtocol'
+import { sseFrame, SsePayload } from '../../../test/sse'
+
+// Each frame gets its index as the SSE event ID
+function sseBody(payloads: SsePayload[], firstId = 1): Response {
+  const text = payloads.map((payload, index) => sseFrame(payload, firstId + index)).join('')
+  return new Response(text, { headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+function stubFetch(...responses: Response[]) {
+  const fetchMock = vi.fn<typeof fetch>(async () => responses.shift() ?? new Response(null, { status: 500 }))
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+function run(onEvent: (event: StreamEvent) => void = () => {}) {
+  return streamChat({
+    url: '/api/chat/stream',
+    body: { message: 'Hello' },
+    signal: new AbortController().signal,
+    onEvent,
+    resumeDelay: 0,
+  })
+}
+
+describe('streamChat', () => {
+  it('resumes a stream that closes without a done event', async () => {
+    const fetchMock = stubFetch(
+      sseBody([{ type: 'trace_id', trace_id: 'trace_1' }, { content: 'Hello ', offset: 0 }]),
+      sseBody([{ content: 'there', offset: 6 }, { done: true }], 3)
+    )
+    const content: string[] = []
+
+    await run((event) => {
+      if (event.type === 'content') content.push(event.content)
+    })
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    const resume = fetchMock.mock.calls[1][1]!
+    expect(resume.headers).toMatchObject({ 'Last-Event-ID': '2' })
+    expect(JSON.parse(resume.body as string)).toMatchObject({ resume_token: 'trace_1', resume_from: 6 })
+    expect(content.join('')).toBe('Hello there')
+  })
+
+  it('rejects once resuming a stream that keeps closing early gives up', async () => {
+    stubFetch(
+      ...Array.from({ length: 4 }, () => sseBody([{ type: 'trace_id', trace_id: 'trace_1' }]))
+    )
+
+    await expect(run()).rejects.toBeInstanceOf(StreamEndedError)
+  })
+
+  it('does not resume after the server reports an error', async () => {
+    const fetchMock = stubFetch(
+      sseBody([{ content: 'Partial' }, { type: 'error', message: 'Model overloaded' }])
+    )
+
+    await expect(run()).rejects.toThrow(new StreamEndedError('Model overloaded'))
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import {
+  citationRelevance,
+  linkCitationMarkers,
+  mergeCitations,
+  renumberCitationMarkers,
+  resolveCitationMarker,
+} from '../citations'
+import type { Citation } from '../../components/SourceCitations'
+
+const citations: Citation[] = [
+  { title: 'The Eight Dimensions', source: 'selve_web', relevance: 92 },
+  { title: 'Personality Traits', source: 'youtube', video_id: 'abc123', channel: 'SELVE', score: 0.78 },
+  { id: 'kb-lumen', title: 'LUMEN', source: 'rag' },
+]
+
+describe('resolveCitationMarker', () => {
+  it('resolves numbers by position and footnotes by ID or video ID', () => {
+    expect(resolveCitationMarker('1', citations)).toBe(0)
+    expect(resolveCitationMarker('^kb-lumen', citations)).toBe(2)
+    expect(resolveCitationMarker('^abc123', citations)).toBe(1)
+  })
+
+  it('rejects markers without a matching citation', () => {
+    expect(resolveCitationMarker('0', citations)).toBeNull()
+    expect(resolveCitationMarker('4', citations)).toBeNull()
+    expect(resolveCitationMarker('^missing', citations)).toBeNull()
+  })
+})
+
+describe('linkCitationMarkers', () => {
+  it('turns resolvable markers into numbered chips', () => {
+    const html = linkCitationMarkers('<p>Energy [1] and focus [^kb-lumen], unknown [7].</p>', citations)
+    expect(html).toContain('data-citation-index="0" aria-label="Source 1">1</button>')
+    expect(html).toContain('data-citation-index="2" aria-label="Source 3">3</button>')
+    expect(html).toContain('unknown [7]')
+  })
+
+  it('leaves links, inline code and citation-less answers alone', () => {
+    expect(linkCitationMarkers('<code>items[1]</code>', citations)).toBe('<code>items[1]</code>')
+    expect(linkCitationMarkers('see <a href="https://selve.me">[1]</a>', citations)).toBe(
+      'see <a href="https://selve.me">[1]</a>'
+    )
+    expect(linkCitationMarkers('<p>[1]</p>', [])).toBe('<p>[1]</p>')
+  })
+
+  it('only links markers in text, never inside tag attributes', () => {
+    const html = linkCitationMarkers('<p><img src="https://x/[1].png" alt="[^kb-lumen]"> Focus [1]</p>', citations)
+    expect(html).toMatch(/^<p><img src="https:\/\/x\/\[1\]\.png" alt="\[\^kb-lumen\]"> Focus <button /)
+  })
+})
+
+describe('citationRelevance', () => {
+  it('prefers relevance and falls back to the legacy score', () => {
+    expect(citationRelevance(citations[0])).toBe(92)
+    expect(citationRelevance(citations[1])).toBe(78)
+    expect(citationRelevance(citations[2])).toBeNull()
+  })
+})
+
+describe('mergeCitations', () => {
+  it('appends new sources and maps repeated ones to their existing place', () => {
+    const added: Citation[] = [
+      { id: 'kb-other', title: 'Other', source: 'rag' },
+      { title: 'Traits (clip)', source: 'youtube', video_id: 'abc123' },
+    ]
+    const { citations: merged, positions } = mergeCitations(citations, added)
+    expect(merged).toEqual([...citations, added[0]])
+    expect(positions).toEqual([3, 1])
+  })
+})
+
+describe('renumberCitationMarkers', () => {
+  it('moves numbered markers to their merged position, outside code and links', () => {
+    expect(renumberCitationMarkers('A [1], B [2], C [3] `x[1]` [1](https://selve.me)', [3, 1])).toBe(
+      'A [4], B [2], C [3] `x[1]` [1](https://selve.me)'
+    )
+  })
+})
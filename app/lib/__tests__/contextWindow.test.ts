@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { contextUsage, formatTokenCount, parseCompression } from '../contextWindow'
+
+describe('contextUsage', () => {
+  it('grades usage against the limit', () => {
+    expect(contextUsage(32000, 128000)).toEqual({ tokens: 32000, limit: 128000, ratio: 0.25, level: 'ok' })
+    expect(contextUsage(96000, 128000).level).toBe('warning')
+    expect(contextUsage(120000, 128000).level).toBe('critical')
+  })
+
+  it('caps the ratio at the limit', () => {
+    expect(contextUsage(200000, 128000)).toMatchObject({ ratio: 1, level: 'critical' })
+  })
+})
+
+describe('formatTokenCount', () => {
+  it('abbreviates thousands', () => {
+    expect(formatTokenCount(850)).toBe('850')
+    expect(formatTokenCount(12345)).toBe('12.3k')
+    expect(formatTokenCount(128000)).toBe('128k')
+  })
+})
+
+describe('parseCompression', () => {
+  it('reads the backend marker', () => {
+    expect(parseCompression({ summary: 'Earlier turns', compressed_through: 'm4' })).toEqual({
+      summary: 'Earlier turns',
+      compressedThroughId: 'm4',
+    })
+  })
+
+  it('ignores missing or malformed markers', () => {
+    expect(parseCompression(null)).toBeNull()
+    expect(parseCompression({ summary: 'Earlier turns' })).toBeNull()
+    expect(parseCompression({ summary: 'Earlier turns', compressed_through: '' })).toBeNull()
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildConversationExport,
+  exportFilename,
+  toHtml,
+  toJson,
+  toMarkdown,
+} from '../conversationExport'
+import type { Message } from '../../hooks/useChat'
+
+const messages: Message[] = [
+  { role: 'user', content: 'What does LUMEN mean?', status: 'sent', createdAt: '2026-03-01T10:00:00.000Z' },
+  { id: 'msg_2', role: 'assistant', content: 'LUMEN is about **social energy**.', status: 'sent', createdAt: '2026-03-01T10:00:05.000Z' },
+  { role: 'user', content: 'never delivered', status: 'failed' },
+  { role: 'user', content: 'And ORIN?', createdAt: '2026-03-01T10:01:00.000Z' },
+  { role: 'assistant', content: 'ORIN describes', status: 'interrupted' },
+]
+
+const conversation = buildConversationExport({
+  title: 'My <LUMEN> questions',
+  sessionId: 'session_1',
+  messages,
+  messageCitations: {
+    msg_2: [
+      { title: 'The Eight Dimensions', source: 'selve_web', url: 'https://selve.me/dimensions' },
+      { title: 'Sneaky', source: 'web', url: 'javascript:alert(1)' },
+    ],
+  },
+  exportedAt: new Date('2026-03-01T12:00:00.000Z'),
+})
+
+describe('buildConversationExport', () => {
+  it('keeps delivered messages with their citations and timestamps', () => {
+    expect(conversation.messages.map((message) => message.content)).toEqual([
+      'What does LUMEN mean?',
+      'LUMEN is about **social energy**.',
+      'And ORIN?',
+      'ORIN describes',
+    ])
+    expect(conversation.messages[1].citations).toHaveLength(2)
+    expect(conversation.messages[0].createdAt).toBe('2026-03-01T10:00:00.000Z')
+    expect(conversation.messages[3]).toMatchObject({ createdAt: null, interrupted: true, citations: [] })
+  })
+
+  it('falls back to a default title', () => {
+    expect(buildConversationExport({ messages: [], title: '  ' }).title).toBe('SELVE Chat conversation')
+  })
+})
+
+describe('serializers', () => {
+  it('writes Markdown with speakers and sources', () => {
+    const markdown = toMarkdown(conversation)
+    expect(markdown.startsWith('# My <LUMEN> questions\n')).toBe(true)
+    expect(markdown).toContain('### You')
+    expect(markdown).toContain('LUMEN is about **social energy**.')
+    expect(markdown).toContain('- [The Eight Dimensions](https://selve.me/dimensions)')
+    expect(markdown).toContain('_Response stopped_')
+  })
+
+  it('round-trips through JSON', () => {
+    expect(JSON.parse(toJson(conversation))).toEqual(conversation)
+  })
+
+  it('renders a standalone, escaped HTML page', () => {
+    const html = toHtml(conversation)
+    const doc = new DOMParser().parseFromString(html, 'text/html')
+
+    expect(doc.title).toBe('My <LUMEN> questions')
+    expect(html).not.toContain('<LUMEN>')
+    expect(doc.querySelectorAll('section.message')).toHaveLength(4)
+    expect(doc.querySelector('.assistant strong')?.textContent).toBe('SELVE')
+    expect(doc.querySelector('.assistant .bubble strong')?.textContent).toBe('social energy')
+    expect(doc.querySelector('script')).toBeNull()
+
+    const links = [...doc.querySelectorAll('.sources a')].map((link) => link.getAttribute('href'))
+    expect(links).toEqual(['https://selve.me/dimensions'])
+  })
+
+  it('names files after the title and export date', () => {
+    expect(exportFilename(conversation, 'md')).toBe('my-lumen-questions-2026-03-01.md')
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import { buildConversationExport, toJson } from '../conversationExport'
+import { ImportError, parseConversationImport } from '../conversationImport'
+
+function importError(text: string): ImportError {
+  try {
+    parseConversationImport(text)
+  } catch (err) {
+    if (err instanceof ImportError) return err
+    throw err
+  }
+  throw new Error('expected an ImportError')
+}
+
+const chatGptConversation = {
+  title: 'Career chat',
+  current_node: 'c',
+  mapping: {
+    root: { id: 'root', message: null, parent: null, children: ['sys'] },
+    sys: {
+      id: 'sys',
+      message: { author: { role: 'system' }, content: { content_type: 'text', parts: [''] } },
+      parent: 'root',
+      children: ['a'],
+    },
+    a: {
+      id: 'a',
+      message: { author: { role: 'user' }, content: { parts: ['Should I switch jobs?'] }, create_time: 1700000000 },
+      parent: 'sys',
+      children: ['b', 'b2'],
+    },
+    b: {
+      id: 'b',
+      message: { author: { role: 'assistant' }, content: { parts: ['An older answer'] } },
+      parent: 'a',
+      children: [],
+    },
+    b2: {
+      id: 'b2',
+      message: { author: { role: 'assistant' }, content: { parts: ['It depends.', { asset: 'image' }] } },
+      parent: 'a',
+      children: ['c'],
+    },
+    c: {
+      id: 'c',
+      message: { author: { role: 'tool' }, content: { parts: ['search results'] } },
+      parent: 'b2',
+      children: [],
+    },
+  },
+}
+
+describe('parseConversationImport', () => {
+  it('round-trips a SELVE JSON export', () => {
+    const exported = buildConversationExport({
+      title: 'LUMEN questions',
+      messages: [
+        { role: 'user', content: 'What is LUMEN?', createdAt: '2026-03-01T10:00:00.000Z' },
+        { role: 'assistant', content: 'Social energy.' },
+      ],
+    })
+
+    expect(parseConversationImport(toJson(exported))).toEqual([
+      {
+        title: 'LUMEN questions',
+        source: 'selve',
+        messages: [
+          { role: 'user', content: 'What is LUMEN?', createdAt: '2026-03-01T10:00:00.000Z' },
+          { role: 'assistant', content: 'Social energy.', createdAt: null },
+        ],
+      },
+    ])
+  })
+
+  it('imports the current branch of a ChatGPT conversation', () => {
+    const [conversation] = parseConversationImport(JSON.stringify(chatGptConversation))
+
+    expect(conversation.source).toBe('chatgpt')
+    expect(conversation.title).toBe('Career chat')
+    expect(conversation.messages).toEqual([
+      { role: 'user', content: 'Should I switch jobs?', createdAt: new Date(1700000000 * 1000).toISOString() },
+      { role: 'assistant', content: 'It depends.', createdAt: null },
+    ])
+  })
+
+  it('accepts a full ChatGPT export and skips empty chats', () => {
+    const empty = { title: 'Empty', mapping: { root: { id: 'root', message: null, parent: null, children: [] } } }
+    const conversations = parseConversationImport(JSON.stringify([chatGptConversation, empty]))
+    expect(conversations.map((conversation) => conversation.title)).toEqual(['Career chat'])
+  })
+
+  it('follows the first children when current_node is missing', () => {
+    const [conversation] = parseConversationImport(JSON.stringify({ ...chatGptConversation, current_node: null }))
+    expect(conversation.messages.map((message) => message.content)).toEqual([
+      'Should I switch jobs?',
+      'An older answer',
+    ])
+  })
+
+  it('reports every invalid message with its path', () => {
+    const error = importError(
+      JSON.stringify({
+        version: 2,
+        messages: [{ role: 'system', content: 'x' }, { role: 'user' }, 'hello'],
+      })
+    )
+
+    expect(error.issues).toEqual([
+      'version: unsupported version 2 (expected 1)',
+      'messages[0].role: expected "user" or "assistant"',
+      'messages[1].content: expected a string',
+      'messages[2]: expected an object',
+      'messages: no user or assistant messages',
+    ])
+  })
+
+  it('rejects invalid JSON and unknown shapes', () => {
+    expect(importError('{not json').message).toBe('This file is not valid JSON.')
+    expect(importError('{"foo": 1}').message).toMatch(/Unrecognized format/)
+    expect(importError('[]').message).toMatch(/Unrecognized format/)
+  })
+})
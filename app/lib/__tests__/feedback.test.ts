@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { parseMessageFeedback, splitStoredFeedback } from '../feedback'
+
+describe('parseMessageFeedback', () => {
+  it('keeps known reasons and a trimmed comment', () => {
+    expect(
+      parseMessageFeedback({ type: 'not_helpful', reasons: ['inaccurate', 'bogus', 3], comment: '  Wrong score  ' })
+    ).toEqual({ type: 'not_helpful', reasons: ['inaccurate'], comment: 'Wrong score' })
+  })
+
+  it('rejects payloads without a valid type', () => {
+    expect(parseMessageFeedback(null)).toBeNull()
+    expect(parseMessageFeedback({ type: 'meh' })).toBeNull()
+    expect(parseMessageFeedback({ type: 'helpful', comment: ' ' })).toEqual({ type: 'helpful' })
+  })
+})
+
+describe('splitStoredFeedback', () => {
+  it('moves feedback off the messages into a map by message ID', () => {
+    const { messages, feedback } = splitStoredFeedback([
+      { id: 'm1', role: 'user', content: 'Hi' },
+      { id: 'm2', role: 'assistant', content: 'Hello', feedback: { type: 'helpful' } },
+      { role: 'assistant', content: 'No ID', feedback: { type: 'helpful' } },
+    ])
+
+    expect(feedback).toEqual({ m2: { type: 'helpful' } })
+    expect(messages.every((message) => !('feedback' in message))).toBe(true)
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { sanitizeAndRenderMarkdown } from '../markdown'
+
+function render(markdown: string): HTMLElement {
+  const container = document.createElement('div')
+  container.innerHTML = sanitizeAndRenderMarkdown(markdown)
+  return container
+}
+
+describe('sanitizeAndRenderMarkdown', () => {
+  it('renders ordinary markdown', () => {
+    const container = render('# Title\n\nSome **bold** text and a [link](https://selve.me).')
+    expect(container.querySelector('h1')?.textContent).toBe('Title')
+    expect(container.querySelector('strong')?.textContent).toBe('bold')
+    expect(container.querySelector('a')?.getAttribute('href')).toBe('https://selve.me')
+  })
+
+  it('strips script tags and inline event handlers', () => {
+    const container = render('Hi <script>alert(1)</script><img src=x onerror="alert(1)"> <b onclick="alert(1)">x</b>')
+    expect(container.querySelector('script')).toBeNull()
+    expect(container.querySelector('img')).toBeNull()
+    expect(container.innerHTML).not.toMatch(/onerror|onclick/)
+  })
+
+  it('drops javascript: URLs', () => {
+    const container = render('[click](javascript:alert(1))')
+    const href = container.querySelector('a')?.getAttribute('href') ?? ''
+    expect(href).not.toMatch(/javascript:/i)
+  })
+
+  it('removes attributes outside the allow list', () => {
+    const container = render('<span style="color:red" title="t" class="ok">styled</span>')
+    const span = container.querySelector('span')
+    expect(span?.getAttribute('class')).toBe('ok')
+    expect(span?.hasAttribute('style')).toBe(false)
+    expect(span?.hasAttribute('title')).toBe(false)
+  })
+
+  it('removes iframes and forms', () => {
+    const container = render('<iframe src="https://evil.example"></iframe><form><input></form>')
+    expect(container.querySelector('iframe, form, input')).toBeNull()
+  })
+})
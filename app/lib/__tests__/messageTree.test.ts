@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addMessage,
+  branchInfo,
+  emptyTree,
+  findKey,
+  lastVisibleKey,
+  MessageTree,
+  removeMessage,
+  selectBranch,
+  treeFromMessages,
+  updateMessage,
+  visibleKeys,
+  visibleMessages,
+} from '../messageTree'
+import type { Message } from '../../hooks/useChat'
+
+const user = (id: string, content = id): Message => ({ role: 'user', id, content })
+const assistant = (id: string, content = id): Message => ({ role: 'assistant', id, content })
+
+function contents(tree: MessageTree): string[] {
+  return visibleMessages(tree).map((message) => message.content)
+}
+
+// u1 -> a1 -> u2 -> a2, then a second answer to u1
+function branchedTree(): MessageTree {
+  let tree = emptyTree()
+  tree = addMessage(tree, null, user('u1'))
+  tree = addMessage(tree, 'u1', assistant('a1'))
+  tree = addMessage(tree, 'a1', user('u2'))
+  tree = addMessage(tree, 'u2', assistant('a2'))
+  return addMessage(tree, 'u1', assistant('a1b'))
+}
+
+describe('message tree', () => {
+  it('shows the newest version and drops the old branch from view', () => {
+    const tree = branchedTree()
+    expect(contents(tree)).toEqual(['u1', 'a1b'])
+    expect(branchInfo(tree, 'a1b')).toEqual({ index: 2, total: 2 })
+    expect(lastVisibleKey(tree)).toBe('a1b')
+  })
+
+  it('switches between versions with their own downstream messages', () => {
+    let tree = selectBranch(branchedTree(), 'a1b', 'prev')
+    expect(contents(tree)).toEqual(['u1', 'a1', 'u2', 'a2'])
+    expect(branchInfo(tree, 'a1')).toEqual({ index: 1, total: 2 })
+
+    // Out of range is a no-op
+    expect(selectBranch(tree, 'a1', 'prev')).toBe(tree)
+
+    tree = selectBranch(tree, 'a1', 'next')
+    expect(contents(tree)).toEqual(['u1', 'a1b'])
+  })
+
+  it('keys nodes by client ID so server IDs can change', () => {
+    let tree = addMessage(emptyTree(), null, { role: 'user', content: 'hi', id: 'c1', clientId: 'c1' })
+    tree = updateMessage(tree, 'c1', { id: 'server_1', status: 'sent' })
+    expect(visibleKeys(tree)).toEqual(['c1'])
+    expect(findKey(tree, 'server_1')).toBe('c1')
+    expect(visibleMessages(tree)[0]).toMatchObject({ id: 'server_1', status: 'sent' })
+  })
+
+  it('removes a message with everything below it', () => {
+    const tree = removeMessage(selectBranch(branchedTree(), 'a1b', 'prev'), 'a1')
+    expect(contents(tree)).toEqual(['u1', 'a1b'])
+    expect(tree.nodes.u2).toBeUndefined()
+    expect(tree.nodes.a2).toBeUndefined()
+    expect(branchInfo(tree, 'a1b')).toEqual({ index: 1, total: 1 })
+  })
+
+  it('rejects unknown parents', () => {
+    expect(() => addMessage(emptyTree(), 'nope', user('u1'))).toThrow(/Unknown parent/)
+  })
+})
+
+describe('treeFromMessages', () => {
+  it('chains messages without tree information', () => {
+    const tree = treeFromMessages([user('u1'), assistant('a1'), user('u2')])
+    expect(contents(tree)).toEqual(['u1', 'a1', 'u2'])
+  })
+
+  it('places messages by parent pointer and shows the active branch', () => {
+    const tree = treeFromMessages([
+      { ...user('u1'), parentId: null },
+      { ...assistant('a1'), parentId: 'u1', isActive: false },
+      { ...user('u2'), parentId: 'a1', isActive: false },
+      { ...assistant('a1b'), parentId: 'u1' },
+      { ...user('u3'), parentId: 'a1b' },
+    ])
+
+    expect(contents(tree)).toEqual(['u1', 'a1b', 'u3'])
+    expect(contents(selectBranch(tree, 'a1b', 'prev'))).toEqual(['u1', 'a1', 'u2'])
+  })
+
+  it('groups legacy versions by groupId and isActive', () => {
+    const tree = treeFromMessages([
+      user('u1'),
+      { ...assistant('a1'), isActive: false },
+      { ...user('u2'), isActive: false },
+      { ...assistant('a2'), isActive: false },
+      { ...assistant('a1b'), groupId: 'group-a1', isActive: false },
+      { ...assistant('a1c'), groupId: 'group-a1' },
+      user('u3'),
+    ])
+
+    expect(contents(tree)).toEqual(['u1', 'a1c', 'u3'])
+    expect(branchInfo(tree, 'a1c')).toEqual({ index: 3, total: 3 })
+    expect(contents(selectBranch(selectBranch(tree, 'a1c', 'prev'), 'a1b', 'prev'))).toEqual([
+      'u1',
+      'a1',
+      'u2',
+      'a2',
+    ])
+  })
+
+  it('keeps stored citations on their message', () => {
+    const citations = [{ title: 'LUMEN', source: 'selve_web' }]
+    const tree = treeFromMessages([user('u1'), { ...assistant('a1'), citations }, user('u2'), assistant('a2')])
+
+    expect(tree.nodes.a1.citations).toEqual(citations)
+    expect(tree.nodes.a1.message).not.toHaveProperty('citations')
+    expect(tree.nodes.a2.citations).toBeUndefined()
+  })
+
+  it('gives messages without IDs a stable key', () => {
+    const tree = treeFromMessages([{ role: 'user', content: 'no id' }])
+    expect(visibleKeys(tree)).toEqual(['restored-0'])
+    expect(visibleMessages(tree)[0].id).toBe('restored-0')
+  })
+})
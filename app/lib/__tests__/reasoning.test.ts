@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import {
+  finishReasoning,
+  formatDuration,
+  ReasoningStep,
+  reasoningPhases,
+  reasoningSources,
+  recordReasoningStep,
+} from '../reasoning'
+import type { ThinkingStatus } from '../../components/ThinkingIndicator'
+
+function record(events: Array<[ThinkingStatus, number]>): ReasoningStep[] {
+  return events.reduce<ReasoningStep[]>((steps, [status, at]) => recordReasoningStep(steps, status, at), [])
+}
+
+const search: ThinkingStatus = {
+  status: 'rag_searching',
+  message: 'Searching...',
+  details: { phase: 1, total_phases: 2, sources: [{ title: 'LUMEN', source: 'rag' }] },
+}
+const tool: ThinkingStatus = {
+  status: 'executing_tool',
+  message: 'Running get_user_scores...',
+  details: { tool_name: 'get_user_scores', tool_args: { dimension: 'LUMEN' } },
+}
+const writing: ThinkingStatus = { status: 'generating', message: 'Writing...', details: { phase: 2, total_phases: 2 } }
+
+describe('reasoning timeline', () => {
+  it('ends each step when the next one starts', () => {
+    const steps = finishReasoning(record([[search, 1000], [tool, 1300], [writing, 1500]]), 2500)
+
+    expect(steps.map((step) => [step.status, step.startedAt, step.endedAt])).toEqual([
+      ['rag_searching', 1000, 1300],
+      ['executing_tool', 1300, 1500],
+      ['generating', 1500, 2500],
+    ])
+    expect(finishReasoning(steps, 9000)).toBe(steps)
+  })
+
+  it('treats complete as the end of the last step, not a step', () => {
+    const steps = record([[search, 0], [{ status: 'complete', message: 'Done' }, 200]])
+    expect(steps).toHaveLength(1)
+    expect(steps[0].endedAt).toBe(200)
+  })
+
+  it('groups steps into phases with their total time', () => {
+    const phases = reasoningPhases(finishReasoning(record([[search, 0], [tool, 300], [writing, 500]]), 1700))
+
+    expect(phases.map((phase) => [phase.phase, phase.totalPhases, phase.steps.length, phase.durationMs])).toEqual([
+      [1, 2, 2, 500],
+      [2, 2, 1, 1200],
+    ])
+  })
+
+  it('leaves the duration open while a phase is still running', () => {
+    expect(reasoningPhases(record([[search, 0]]))[0].durationMs).toBeNull()
+  })
+
+  it('collects each reported source once', () => {
+    expect(reasoningSources(record([[search, 0], [search, 10]]))).toEqual([{ title: 'LUMEN', source: 'rag' }])
+  })
+
+  it('formats durations', () => {
+    expect(formatDuration(420)).toBe('420 ms')
+    expect(formatDuration(1260)).toBe('1.3 s')
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { formatCountdown, parseRestriction, restrictionRemainingMs } from '../restriction'
+
+describe('parseRestriction', () => {
+  it('reads an active restriction with its policy and appeal', () => {
+    expect(
+      parseRestriction({
+        restricted: true,
+        message: 'Restricted',
+        expires_at: '2030-01-01T00:00:00Z',
+        policy: { id: 'spam', title: 'Spam' },
+        appeal: { status: 'pending', submitted_at: '2029-12-31T00:00:00Z' },
+      })
+    ).toEqual({
+      message: 'Restricted',
+      expiresAt: '2030-01-01T00:00:00Z',
+      policy: { id: 'spam', title: 'Spam' },
+      appeal: { status: 'pending', submittedAt: '2029-12-31T00:00:00Z' },
+    })
+  })
+
+  it('returns null when the user is not restricted', () => {
+    expect(parseRestriction({ restricted: false })).toBeNull()
+    expect(parseRestriction(null)).toBeNull()
+  })
+
+  it('drops an incomplete policy and unknown appeal statuses', () => {
+    expect(parseRestriction({ restricted: true, policy: { id: 'spam' }, appeal: { status: 'lost' } })).toEqual({
+      message: null,
+      expiresAt: null,
+      policy: null,
+      appeal: null,
+    })
+  })
+})
+
+describe('restrictionRemainingMs', () => {
+  const restriction = { message: null, policy: null, appeal: null }
+
+  it('counts down to the expiry and stops at zero', () => {
+    const expiresAt = '2030-01-01T00:10:00Z'
+    const now = Date.parse('2030-01-01T00:00:00Z')
+    expect(restrictionRemainingMs({ ...restriction, expiresAt }, now)).toBe(600000)
+    expect(restrictionRemainingMs({ ...restriction, expiresAt }, now + 3600000)).toBe(0)
+  })
+
+  it('has no end without an expiry', () => {
+    expect(restrictionRemainingMs({ ...restriction, expiresAt: null }, Date.now())).toBeNull()
+  })
+})
+
+describe('formatCountdown', () => {
+  it('formats by magnitude', () => {
+    expect(formatCountdown(42000)).toBe('0:42')
+    expect(formatCountdown(14 * 60000 + 5000)).toBe('14:05')
+    expect(formatCountdown(2 * 3600000 + 3 * 60000 + 9000)).toBe('2:03:09')
+    expect(formatCountdown(3 * 86400000 + 4 * 3600000)).toBe('3d 4h')
+  })
+
+  it('rounds partial seconds up', () => {
+    expect(formatCountdown(1500)).toBe('0:02')
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { navigateToSession, sessionIdFromPath, sessionPath } from '../sessionUrl'
+
+describe('session URLs', () => {
+  it('round-trips session IDs through paths', () => {
+    expect(sessionPath(null)).toBe('/')
+    expect(sessionPath('a b/c')).toBe('/c/a%20b%2Fc')
+    expect(sessionIdFromPath('/c/a%20b%2Fc')).toBe('a b/c')
+    expect(sessionIdFromPath('/c/abc/')).toBe('abc')
+  })
+
+  it('ignores other paths', () => {
+    expect(sessionIdFromPath('/')).toBeNull()
+    expect(sessionIdFromPath('/c/')).toBeNull()
+    expect(sessionIdFromPath('/c/abc/extra')).toBeNull()
+    expect(sessionIdFromPath('/share/abc')).toBeNull()
+    expect(sessionIdFromPath('/c/%E0%A4%A')).toBeNull()
+  })
+
+  it('pushes or replaces history only when the URL changes', () => {
+    const start = window.history.length
+
+    navigateToSession('one')
+    navigateToSession('one')
+    expect(window.location.pathname).toBe('/c/one')
+    expect(window.history.length).toBe(start + 1)
+
+    navigateToSession(null, { replace: true })
+    expect(window.location.pathname).toBe('/')
+    expect(window.history.length).toBe(start + 1)
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildShareRequest,
+  getStoredShareId,
+  redactForSharing,
+  redactNames,
+  redactScores,
+  shareUrl,
+  storeShareId,
+} from '../share'
+import type { Message } from '../../hooks/useChat'
+
+describe('redactScores', () => {
+  it('replaces numbers attached to a dimension name', () => {
+    expect(redactScores('Your LUMEN: 72 and orin score of 45/100')).toBe(
+      'Your LUMEN: [score] and orin score of [score]'
+    )
+    expect(redactScores('KAEL (81%) is high')).toBe('KAEL ([score]) is high')
+  })
+
+  it('leaves dimension names without scores alone', () => {
+    expect(redactScores('LUMEN is about social energy.')).toBe('LUMEN is about social energy.')
+  })
+})
+
+describe('redactNames', () => {
+  it('replaces whole-word names, longest first and case-insensitively', () => {
+    expect(redactNames('Ada Lovelace here; ada likes Adam.', ['Ada', 'Ada Lovelace'])).toBe(
+      '[name] here; [name] likes Adam.'
+    )
+  })
+
+  it('ignores empty and one-letter names', () => {
+    expect(redactNames('A quiet day', ['A', '', null, undefined])).toBe('A quiet day')
+  })
+
+  it('handles names with regex characters and accents', () => {
+    expect(redactNames('Zoë (J.) said hi', ['Zoë', 'J.'])).toBe('[name] ([name]) said hi')
+  })
+})
+
+describe('buildShareRequest', () => {
+  const messages: Message[] = [
+    { role: 'user', content: 'Hi, I am Ada. My LUMEN is 72.', status: 'sent' },
+    { id: 'msg_2', role: 'assistant', content: 'Hello Ada! A LUMEN of 72 means...', status: 'sent' },
+    { role: 'user', content: 'never delivered', status: 'failed' },
+    { role: 'user', content: 'still sending', status: 'pending' },
+  ]
+
+  it('redacts the snapshot and drops undelivered messages', () => {
+    const request = buildShareRequest({
+      sessionId: 'session_1',
+      title: "Ada's LUMEN: 72",
+      messages,
+      messageCitations: { msg_2: [{ title: 'LUMEN', source: 'selve_web' }] },
+      ownerNames: ['Ada'],
+    })
+
+    expect(request).toEqual({
+      session_id: 'session_1',
+      title: "[name]'s LUMEN: [score]",
+      messages: [
+        { role: 'user', content: 'Hi, I am [name]. My LUMEN is [score].' },
+        {
+          role: 'assistant',
+          content: 'Hello [name]! A LUMEN of [score] means...',
+          citations: [{ title: 'LUMEN', source: 'selve_web' }],
+        },
+      ],
+    })
+  })
+
+  it('falls back to a generic title', () => {
+    expect(buildShareRequest({ sessionId: 's', title: '  ', messages: [] }).title).toBe('Shared conversation')
+  })
+})
+
+describe('share links', () => {
+  it('builds the public URL', () => {
+    expect(shareUrl('abc 1', 'https://chat.selve.me/')).toBe('https://chat.selve.me/share/abc%201')
+  })
+
+  it('remembers and forgets the link for a session', () => {
+    storeShareId('session_1', 'share_1')
+    expect(getStoredShareId('session_1')).toBe('share_1')
+    storeShareId('session_1', null)
+    expect(getStoredShareId('session_1')).toBeNull()
+  })
+
+  it('redactForSharing applies both redactions', () => {
+    expect(redactForSharing('Ada has VARA 30', ['Ada'])).toBe('[name] has VARA [score]')
+  })
+})
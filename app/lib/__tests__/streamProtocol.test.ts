@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createStreamDecoder, parseStreamPayload, StreamEvent } from '../streamProtocol'
+import { sseFrame } from '../../../test/sse'
+
+describe('parseStreamPayload', () => {
+  it('parses typed events', () => {
+    expect(parseStreamPayload('{"type":"trace_id","trace_id":"t1"}').events).toEqual([
+      { type: 'trace_id', trace_id: 't1' },
+    ])
+    expect(
+      parseStreamPayload('{"type":"ban","message":"Banned","expires_at":"2030-01-01T00:00:00Z"}').events
+    ).toEqual([{ type: 'ban', message: 'Banned', expires_at: '2030-01-01T00:00:00Z', policy: null }])
+    expect(parseStreamPayload('{"type":"warning"}').events).toEqual([
+      { type: 'warning', message: null },
+    ])
+  })
+
+  it('accepts legacy chunk payloads and content offsets', () => {
+    expect(parseStreamPayload('{"chunk":"Hi"}').events).toEqual([{ type: 'content', content: 'Hi' }])
+    expect(parseStreamPayload('{"content":"there","offset":2}').events).toEqual([
+      { type: 'content', content: 'there', offset: 2 },
+    ])
+  })
+
+  it('splits a folded final payload into ordered events', () => {
+    const { events, issues } = parseStreamPayload(
+      JSON.stringify({
+        content: 'end',
+        citations: [{ title: 'A', source: 'rag' }],
+        compression_needed: true,
+        total_tokens: 42,
+        done: true,
+      })
+    )
+    expect(issues).toEqual([])
+    expect(events.map((event) => event.type)).toEqual([
+      'content',
+      'citations',
+      'compression',
+      'tokens',
+      'done',
+    ])
+  })
+
+  it('reports problems instead of throwing', () => {
+    expect(parseStreamPayload('{not json').issues[0].kind).toBe('malformed_json')
+    expect(parseStreamPayload('{"type":"mystery"}').issues[0].kind).toBe('unknown_event')
+
+    const citations = parseStreamPayload('{"citations":[{"title":"A","source":"rag"},{"title":1}]}')
+    expect(citations.events).toEqual([{ type: 'citations', citations: [{ title: 'A', source: 'rag' }] }])
+    expect(citations.issues[0].kind).toBe('invalid_field')
+
+    expect(parseStreamPayload('{"type":"user_message_id"}').issues[0].kind).toBe('invalid_field')
+  })
+})
+
+describe('createStreamDecoder', () => {
+  it('reassembles lines split across network chunks', () => {
+    const events: StreamEvent[] = []
+    const decoder = createStreamDecoder({ onEvent: (event) => events.push(event) })
+    const text = sseFrame({ content: 'Hello ' }) + sseFrame({ content: 'world' }) + 'data: [DONE]\n\n'
+
+    for (let i = 0; i < text.length; i += 7) {
+      decoder.push(text.slice(i, i + 7))
+    }
+    decoder.flush()
+
+    expect(events).toEqual([
+      { type: 'content', content: 'Hello ' },
+      { type: 'content', content: 'world' },
+    ])
+  })
+
+  it('tracks the last event id and parses a trailing unterminated line on flush', () => {
+    const events: StreamEvent[] = []
+    const decoder = createStreamDecoder({ onEvent: (event) => events.push(event) })
+
+    decoder.push(sseFrame({ content: 'a' }, 1) + sseFrame({ content: 'b' }, 2))
+    decoder.push('data: {"done":true}')
+    expect(decoder.lastEventId).toBe('2')
+    expect(events).toHaveLength(2)
+
+    decoder.flush()
+    expect(events.at(-1)).toEqual({ type: 'done' })
+  })
+
+  it('forwards protocol issues to onIssue', () => {
+    const onIssue = vi.fn()
+    const decoder = createStreamDecoder({ onEvent: vi.fn(), onIssue })
+    decoder.push('data: {broken\n')
+    expect(onIssue).toHaveBeenCalledWith(expect.objectContaining({ kind: 'malformed_json' }))
+  })
+})
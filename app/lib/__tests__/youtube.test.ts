@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatTimestamp,
+  youtubeEmbedUrl,
+  youtubeStartSeconds,
+  youtubeVideoId,
+  youtubeWatchUrl,
+} from '../youtube'
+import type { Citation } from '../../components/SourceCitations'
+
+const video: Citation = { title: 'Traits', source: 'youtube', type: 'youtube', video_id: 'dQw4w9WgXcQ' }
+
+describe('youtubeVideoId', () => {
+  it('accepts YouTube citations with a well-formed ID', () => {
+    expect(youtubeVideoId(video)).toBe('dQw4w9WgXcQ')
+    expect(youtubeVideoId({ ...video, type: undefined })).toBe('dQw4w9WgXcQ')
+  })
+
+  it('ignores other sources and malformed IDs', () => {
+    expect(youtubeVideoId({ ...video, type: 'web', source: 'web' })).toBeNull()
+    expect(youtubeVideoId({ ...video, video_id: 'x"><script>' })).toBeNull()
+  })
+})
+
+describe('youtubeStartSeconds', () => {
+  it('prefers start_time and falls back to the URL timestamp', () => {
+    expect(youtubeStartSeconds({ ...video, start_time: 95.7 })).toBe(95)
+    expect(youtubeStartSeconds({ ...video, url: 'https://youtu.be/dQw4w9WgXcQ?t=1m30s' })).toBe(90)
+    expect(youtubeStartSeconds({ ...video, url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42' })).toBe(42)
+  })
+
+  it('returns null without a usable timestamp', () => {
+    expect(youtubeStartSeconds(video)).toBeNull()
+    expect(youtubeStartSeconds({ ...video, start_time: 0, url: 'not a url' })).toBeNull()
+    expect(youtubeStartSeconds({ ...video, url: 'https://youtu.be/x?t=soon' })).toBeNull()
+  })
+})
+
+describe('player URLs', () => {
+  it('embeds from youtube-nocookie at the cited segment', () => {
+    expect(youtubeEmbedUrl('dQw4w9WgXcQ', 95)).toBe(
+      'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?autoplay=1&rel=0&modestbranding=1&start=95'
+    )
+    expect(youtubeEmbedUrl('dQw4w9WgXcQ', null)).not.toContain('start=')
+  })
+
+  it('links to the same moment on YouTube', () => {
+    expect(youtubeWatchUrl('dQw4w9WgXcQ', 95)).toBe('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=95s')
+  })
+
+  it('formats timestamps the way YouTube does', () => {
+    expect(formatTimestamp(95)).toBe('1:35')
+    expect(formatTimestamp(3725)).toBe('1:02:05')
+  })
+})
@@ -0,0 +1,350 @@
+import type { Message, Session, UserAccount, UserProfile } from '../hooks/useChat'
+import type { ImportedConversation } from './conversationImport'
+import type { MessageFeedback } from './feedback'
+import { createRequestId, HttpError, REQUEST_ID_HEADER, TimeoutError, httpErrorFromResponse } from './http'
+import type { CreateShareRequest, SharedConversation } from './share'
+
+/**
+ * Chat API Client
+ *
+ * Every call to the backends goes through here, so base URLs, the `X-User-ID`
+ * auth header, timeouts and error types are decided in one place:
+ *
+ * - the chat backend (`NEXT_PUBLIC_API_URL`) owns sessions, search, feedback,
+ *   moderation, scores, accounts and streaming;
+ * - the main app backend (`NEXT_PUBLIC_MAIN_APP_API_URL`) owns the shared
+ *   user profile and theme preference.
+ *
+ * Methods reject with `HttpError` for non-2xx responses and `TimeoutError`
+ * when the backend is too slow, both of which `useRetry` understands. Each
+ * request gets a fresh `X-Request-ID` unless the caller supplies one.
+ */
+
+const DEFAULT_CHAT_API_URL = 'http://localhost:9000'
+const DEFAULT_MAIN_APP_API_URL = 'http://localhost:8000'
+const DEFAULT_TIMEOUT = 10000
+
+export type ApiBackend = 'chat' | 'mainApp'
+
+export interface ApiClientConfig {
+  chatApiUrl?: string
+  mainAppApiUrl?: string
+  /** Default request timeout in milliseconds. */
+  timeout?: number
+}
+
+export interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE'
+  /** Serialized as JSON. */
+  body?: unknown
+  /** Sent as `X-User-ID`. */
+  userId?: string | null
+  headers?: Record<string, string>
+  timeout?: number
+  signal?: AbortSignal
+}
+
+export type SessionWithMessages = Session & {
+  messages?: Message[]
+  total_tokens?: number | null
+  compression?: CompressSessionResponse | null
+}
+
+export interface SessionSearchResult extends Session {
+  messages?: Message[]
+  matchingContent?: string
+}
+
+export interface CompressSessionResponse {
+  summary: string
+  /** ID of the last message the summary replaces. */
+  compressed_through: string
+  total_tokens?: number | null
+  created_at?: string
+}
+
+export interface GeneratedTitle {
+  title?: string
+  session?: { title?: string }
+}
+
+export interface FeedbackRequest {
+  messageId: string
+  feedback: MessageFeedback
+  /** Langfuse trace of the answer, when known. */
+  traceId?: string | null
+  sessionId: string | null
+  userId: string | null
+}
+
+/** Current moderation state of the user; see `parseRestriction`. */
+export interface RestrictionStatus {
+  restricted: boolean
+  message?: string | null
+  expires_at?: string | null
+  policy?: { id: string; title: string; description?: string } | null
+  appeal?: AppealResponse | null
+}
+
+export interface AppealResponse {
+  status: string
+  submitted_at?: string
+}
+
+export interface AppealRequest {
+  message: string
+  policyId?: string | null
+  userId: string
+}
+
+/** Shared profile from the main app; only the fields the chat uses. */
+export interface MainAppProfile {
+  currentSessionId?: string | null
+}
+
+export interface ThemePreference {
+  theme?: string | null
+}
+
+function trimBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '')
+}
+
+export class ChatApiClient {
+  readonly chatApiUrl: string
+  readonly mainAppApiUrl: string
+  private readonly timeout: number
+
+  constructor({
+    chatApiUrl = process.env.NEXT_PUBLIC_API_URL || DEFAULT_CHAT_API_URL,
+    mainAppApiUrl = process.env.NEXT_PUBLIC_MAIN_APP_API_URL || DEFAULT_MAIN_APP_API_URL,
+    timeout = DEFAULT_TIMEOUT,
+  }: ApiClientConfig = {}) {
+    this.chatApiUrl = trimBaseUrl(chatApiUrl)
+    this.mainAppApiUrl = trimBaseUrl(mainAppApiUrl)
+    this.timeout = timeout
+  }
+
+  /** Absolute URL for a path on one of the backends. */
+  url(path: string, backend: ApiBackend = 'chat'): string {
+    const base = backend === 'chat' ? this.chatApiUrl : this.mainAppApiUrl
+    return `${base}${path}`
+  }
+
+  /** Endpoint for `streamChat`, which manages its own connection. */
+  get chatStreamUrl(): string {
+    return this.url('/api/chat/stream')
+  }
+
+  /** Auth headers for a request made on behalf of `userId`. */
+  headers(userId?: string | null, extra: Record<string, string> = {}): Record<string, string> {
+    return userId ? { 'X-User-ID': userId, ...extra } : { ...extra }
+  }
+
+  /**
+   * Perform a request and parse the JSON response (`null` for empty bodies).
+   */
+  async request<T>(
+    path: string,
+    backend: ApiBackend = 'chat',
+    { method = 'GET', body, userId, headers = {}, timeout = this.timeout, signal }: ApiRequestOptions = {}
+  ): Promise<T> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), timeout)
+    const onCallerAbort = () => controller.abort(signal?.reason)
+    signal?.addEventListener('abort', onCallerAbort, { once: true })
+
+    const requestHeaders = this.headers(userId, { [REQUEST_ID_HEADER]: createRequestId(), ...headers })
+    if (body !== undefined) {
+      requestHeaders['Content-Type'] = 'application/json'
+    }
+
+    try {
+      const response = await fetch(this.url(path, backend), {
+        method,
+        headers: requestHeaders,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      })
+
+      if (!response.ok) {
+        throw httpErrorFromResponse(response, requestHeaders[REQUEST_ID_HEADER])
+      }
+
+      const text = await response.text()
+      return (text ? JSON.parse(text) : null) as T
+    } catch (err) {
+      // Our own timer fired, not the caller's signal
+      if (err instanceof Error && err.name === 'AbortError' && !signal?.aborted) {
+        throw new TimeoutError()
+      }
+      throw err
+    } finally {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', onCallerAbort)
+    }
+  }
+
+  // Sessions
+
+  listSessions(userId: string): Promise<Session[] | { sessions: Session[] }> {
+    return this.request(`/api/sessions/user/${encodeURIComponent(userId)}`, 'chat', { userId })
+  }
+
+  getSession(sessionId: string, userId?: string | null): Promise<SessionWithMessages> {
+    return this.request(`/api/sessions/${encodeURIComponent(sessionId)}`, 'chat', { userId })
+  }
+
+  createSession(userId: string, title = 'New Conversation'): Promise<Session> {
+    return this.request('/api/sessions/', 'chat', {
+      method: 'POST',
+      userId,
+      body: { userId, clerkUserId: userId, title },
+    })
+  }
+
+  /** Summarize the older turns of a session to free up context. */
+  compressSession(sessionId: string, userId: string | null): Promise<CompressSessionResponse> {
+    return this.request(`/api/sessions/${encodeURIComponent(sessionId)}/compress`, 'chat', {
+      method: 'POST',
+      userId,
+      // Summarizing a long conversation takes a while
+      timeout: 60000,
+    })
+  }
+
+  /** Create a session that already contains the given messages. */
+  importSession(userId: string, { title, messages }: ImportedConversation): Promise<Session> {
+    return this.request('/api/sessions/import', 'chat', {
+      method: 'POST',
+      userId,
+      body: { userId, clerkUserId: userId, title, messages },
+    })
+  }
+
+  deleteSession(sessionId: string, userId?: string | null): Promise<unknown> {
+    return this.request(`/api/sessions/${encodeURIComponent(sessionId)}`, 'chat', {
+      method: 'DELETE',
+      userId,
+    })
+  }
+
+  generateTitle(
+    sessionId: string,
+    message: string,
+    assistantResponse: string,
+    userId?: string | null
+  ): Promise<GeneratedTitle> {
+    return this.request(`/api/sessions/${encodeURIComponent(sessionId)}/generate-title`, 'chat', {
+      method: 'POST',
+      userId,
+      body: { message, assistant_response: assistantResponse },
+    })
+  }
+
+  // Search
+
+  searchSessions(
+    userId: string,
+    query: string,
+    { limit = 20, signal }: { limit?: number; signal?: AbortSignal } = {}
+  ): Promise<SessionSearchResult[]> {
+    const params = new URLSearchParams({ q: query, limit: String(limit) })
+    return this.request(
+      `/api/sessions/search/${encodeURIComponent(userId)}?${params.toString()}`,
+      'chat',
+      { userId, signal }
+    )
+  }
+
+  // Sharing
+
+  createShare(request: CreateShareRequest, userId: string): Promise<{ share_id: string }> {
+    return this.request('/api/shares', 'chat', { method: 'POST', userId, body: request })
+  }
+
+  /** Public: no user header, anyone with the link may read it. */
+  getShare(shareId: string): Promise<SharedConversation> {
+    return this.request(`/api/shares/${encodeURIComponent(shareId)}`)
+  }
+
+  revokeShare(shareId: string, userId: string): Promise<unknown> {
+    return this.request(`/api/shares/${encodeURIComponent(shareId)}`, 'chat', {
+      method: 'DELETE',
+      userId,
+    })
+  }
+
+  // Feedback
+
+  /** Create or replace the user's feedback on a message. */
+  submitFeedback({ messageId, feedback, traceId = null, sessionId, userId }: FeedbackRequest): Promise<unknown> {
+    return this.request('/api/chat/feedback', 'chat', {
+      method: 'POST',
+      userId,
+      body: {
+        message_id: messageId,
+        feedback_type: feedback.type,
+        reasons: feedback.reasons ?? [],
+        comment: feedback.comment ?? null,
+        trace_id: traceId,
+        session_id: sessionId,
+        clerk_user_id: userId,
+      },
+    })
+  }
+
+  deleteFeedback(messageId: string, userId: string | null): Promise<unknown> {
+    return this.request(`/api/chat/feedback/${encodeURIComponent(messageId)}`, 'chat', {
+      method: 'DELETE',
+      userId,
+    })
+  }
+
+  // Moderation
+
+  getRestriction(userId: string): Promise<RestrictionStatus> {
+    return this.request('/api/moderation/restriction', 'chat', { userId })
+  }
+
+  submitAppeal({ message, policyId = null, userId }: AppealRequest): Promise<AppealResponse> {
+    return this.request('/api/moderation/appeals', 'chat', {
+      method: 'POST',
+      userId,
+      body: { message, policy_id: policyId },
+    })
+  }
+
+  // Scores and account
+
+  getScores(userId: string): Promise<UserProfile> {
+    return this.request(`/api/users/${encodeURIComponent(userId)}/scores`, 'chat', { userId })
+  }
+
+  getAccount(userId: string): Promise<UserAccount> {
+    return this.request(`/api/users/${encodeURIComponent(userId)}`, 'chat', { userId })
+  }
+
+  // Main app: shared profile and theme
+
+  getMainAppProfile(userId: string): Promise<MainAppProfile> {
+    return this.request('/api/users/profile', 'mainApp', { userId })
+  }
+
+  getTheme(userId: string): Promise<ThemePreference> {
+    return this.request('/api/users/theme', 'mainApp', { userId })
+  }
+
+  updateTheme(userId: string, theme: string): Promise<unknown> {
+    return this.request('/api/users/theme', 'mainApp', {
+      method: 'PUT',
+      userId,
+      body: { theme },
+    })
+  }
+}
+
+/** Shared client configured from the environment. */
+export const apiClient = new ChatApiClient()
+
+export { HttpError, TimeoutError }
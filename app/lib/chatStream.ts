@@ -0,0 +1,203 @@
+import {
+  createStreamDecoder,
+  StreamEvent,
+  StreamProtocolIssue,
+} from './streamProtocol'
+import { HttpError, httpErrorFromResponse, REQUEST_ID_HEADER } from './http'
+
+/**
+ * Chat Stream Client
+ *
+ * POSTs to `/api/chat/stream` and feeds the SSE body through the stream
+ * protocol decoder. If the connection drops after the answer has started, it
+ * reconnects with `Last-Event-ID` and a resume token (the Langfuse `trace_id`)
+ * and picks up where the answer stopped. Content that was already received is
+ * trimmed using chunk offsets, so callers never see duplicated text. A body
+ * that closes without a `done` event counts as a dropped connection too.
+ */
+
+export interface ChatStreamOptions {
+  url: string
+  body: Record<string, unknown>
+  headers?: Record<string, string>
+  signal: AbortSignal
+  onEvent: (event: StreamEvent) => void
+  onIssue?: (issue: StreamProtocolIssue) => void
+  /** Called with `true` while reconnecting and `false` once data flows again. */
+  onResumeStateChange?: (isResuming: boolean) => void
+  maxResumeAttempts?: number
+  resumeDelay?: number
+}
+
+const DEFAULT_MAX_RESUME_ATTEMPTS = 3
+const DEFAULT_RESUME_DELAY = 1000
+
+/**
+ * The stream closed before the answer finished: without a `done` event, or
+ * after the server reported an error.
+ */
+export class StreamEndedError extends Error {
+  constructor(message = 'The answer stream closed before it finished') {
+    super(message)
+    this.name = 'StreamEndedError'
+  }
+}
+
+function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === 'AbortError'
+}
+
+function waitBeforeResume(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'))
+      return
+    }
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Returns the part of `chunk` that has not been received yet, given how many
+ * characters of the answer the client already holds. Chunks without an offset
+ * are trusted as-is (the server only replays after `Last-Event-ID`).
+ */
+export function unseenContent(content: string, offset: number | undefined, receivedLength: number): string {
+  if (offset === undefined || offset >= receivedLength) return content
+  const overlap = receivedLength - offset
+  return overlap >= content.length ? '' : content.slice(overlap)
+}
+
+/**
+ * Stream a chat response, resuming transparently after network drops.
+ *
+ * Resolves once the `done` event arrives; rejects with the original error if
+ * the request fails before any resumable state exists, the server rejects it
+ * (as an `HttpError`) or all resume attempts are exhausted, and with a
+ * `StreamEndedError` if the server reports an error and closes the stream.
+ */
+export async function streamChat({
+  url,
+  body,
+  headers = {},
+  signal,
+  onEvent,
+  onIssue,
+  onResumeStateChange,
+  maxResumeAttempts = DEFAULT_MAX_RESUME_ATTEMPTS,
+  resumeDelay = DEFAULT_RESUME_DELAY,
+}: ChatStreamOptions): Promise<void> {
+  let lastEventId: string | null = null
+  let resumeToken: string | null = null
+  let receivedLength = 0
+  let receivedDone = false
+  let serverError: string | null = null
+  let resumeAttempt = 0
+
+  const handleEvent = (event: StreamEvent) => {
+    if (event.type === 'trace_id') {
+      resumeToken = event.trace_id
+    }
+
+    if (event.type === 'content') {
+      const content = unseenContent(event.content, event.offset, receivedLength)
+      if (!content) return
+      receivedLength += content.length
+      onEvent({ type: 'content', content, offset: receivedLength - content.length })
+      return
+    }
+
+    if (event.type === 'done') {
+      receivedDone = true
+    }
+
+    if (event.type === 'error') {
+      serverError = event.message ?? 'The server failed to finish the answer'
+    }
+
+    onEvent(event)
+  }
+
+  while (true) {
+    const isResume = resumeAttempt > 0
+    const requestHeaders: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...headers,
+    }
+    if (isResume && lastEventId) {
+      requestHeaders['Last-Event-ID'] = lastEventId
+    }
+    const requestBody = isResume
+      ? { ...body, resume_token: resumeToken, resume_from: receivedLength }
+      : body
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: requestHeaders,
+        body: JSON.stringify(requestBody),
+        signal,
+      })
+
+      if (!response.ok) {
+        throw httpErrorFromResponse(response, requestHeaders[REQUEST_ID_HEADER] ?? null)
+      }
+
+      if (!response.body) {
+        throw new Error('Response body is null')
+      }
+
+      if (isResume) {
+        onResumeStateChange?.(false)
+      }
+
+      const reader = response.body.getReader()
+      const textDecoder = new TextDecoder()
+      const streamDecoder = createStreamDecoder({ onEvent: handleEvent, onIssue })
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read()
+          if (done) {
+            streamDecoder.flush()
+            if (receivedDone) return
+            throw new StreamEndedError(serverError ?? undefined)
+          }
+          streamDecoder.push(textDecoder.decode(value, { stream: true }))
+          lastEventId = streamDecoder.lastEventId ?? lastEventId
+        }
+      } finally {
+        reader.releaseLock()
+      }
+    } catch (err) {
+      const canResume =
+        !isAbortError(err) &&
+        // Non-2xx answers mean the request itself was rejected
+        !(err instanceof HttpError) &&
+        !receivedDone &&
+        // The server ended the answer on purpose; asking again won't help
+        serverError === null &&
+        (resumeToken !== null || lastEventId !== null) &&
+        resumeAttempt < maxResumeAttempts
+
+      if (!canResume) {
+        if (isResume) {
+          onResumeStateChange?.(false)
+        }
+        throw err
+      }
+
+      resumeAttempt += 1
+      onResumeStateChange?.(true)
+      await waitBeforeResume(resumeDelay * resumeAttempt, signal)
+    }
+  }
+}
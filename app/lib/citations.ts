@@ -0,0 +1,101 @@
+import type { Citation } from '../components/SourceCitations'
+
+/**
+ * Inline Citation Markers
+ *
+ * The backend marks sourced sentences with `[1]` (1-based position in the
+ * answer's citations) or `[^source-id]` (a citation's `id`, or its
+ * `video_id` for YouTube). `linkCitationMarkers` turns the markers it can
+ * resolve into numbered chips carrying `data-citation-index`; markers
+ * without a matching citation are left as written.
+ */
+
+// `[1]`, or `[^id]` footnote style
+const MARKER_PATTERN = /\[(\d{1,3}|\^[\w.:-]+)\]/g
+
+// Markers are only linked in text: not inside tags (attributes such as
+// `href="…/[1]"`), inline code, or links, which can't contain a button
+const SKIPPED_HTML_PATTERN = /(<code[^>]*>[\s\S]*?<\/code>|<a\b[^>]*>[\s\S]*?<\/a>|<[^>]+>)/g
+
+const CHIP_CLASS =
+  'citation-chip mx-0.5 inline-flex min-w-[1.25rem] items-center justify-center rounded-full bg-[#de6b35]/15 px-1 text-[10px] font-semibold leading-4 text-[#de6b35] align-super hover:bg-[#de6b35]/25 focus:outline-none focus-visible:ring-2 focus-visible:ring-[#de6b35]/50'
+
+/** Index into `citations` for a marker body (`1` or `^source-id`), or null. */
+export function resolveCitationMarker(marker: string, citations: Citation[]): number | null {
+  if (marker.startsWith('^')) {
+    const sourceId = marker.slice(1)
+    const index = citations.findIndex((citation) => citation.id === sourceId || citation.video_id === sourceId)
+    return index === -1 ? null : index
+  }
+  const position = Number(marker)
+  return position >= 1 && position <= citations.length ? position - 1 : null
+}
+
+/** Replace resolvable markers in rendered HTML with citation chips. */
+export function linkCitationMarkers(html: string, citations: Citation[]): string {
+  if (citations.length === 0) return html
+
+  return html
+    .split(SKIPPED_HTML_PATTERN)
+    .map((segment) =>
+      segment.startsWith('<')
+        ? segment
+        : segment.replace(MARKER_PATTERN, (marker, body: string) => {
+            const index = resolveCitationMarker(body, citations)
+            if (index === null) return marker
+            return `<button type="button" class="${CHIP_CLASS}" data-citation-index="${index}" aria-label="Source ${index + 1}">${index + 1}</button>`
+          })
+    )
+    .join('')
+}
+
+/** Relevance as a percentage, from `relevance` or the legacy 0-1 `score`. */
+export function citationRelevance(citation: Citation): number | null {
+  if (citation.relevance !== undefined) return citation.relevance
+  if (citation.score !== undefined) return Math.round(citation.score * 100)
+  return null
+}
+
+// Same source: the same ID, video or URL; without any of those in common,
+// the same title from the same place
+function sameCitation(a: Citation, b: Citation): boolean {
+  const keys = (['id', 'video_id', 'url'] as const).filter((key) => a[key] && b[key])
+  if (keys.length > 0) return keys.some((key) => a[key] === b[key])
+  return a.title === b.title && a.source === b.source
+}
+
+/**
+ * Append `added` to `existing`, skipping sources already cited, so existing
+ * markers keep their numbers. `positions[i]` is where `added[i]` ended up.
+ */
+export function mergeCitations(
+  existing: Citation[],
+  added: Citation[]
+): { citations: Citation[]; positions: number[] } {
+  const citations = [...existing]
+  const positions = added.map((citation) => {
+    const index = citations.findIndex((kept) => sameCitation(kept, citation))
+    if (index !== -1) return index
+    citations.push(citation)
+    return citations.length - 1
+  })
+  return { citations, positions }
+}
+
+/**
+ * Point the `[n]` markers of markdown written against one citation list at
+ * the merged list (see `mergeCitations`). Code and link text are left alone.
+ */
+export function renumberCitationMarkers(markdown: string, positions: number[]): string {
+  return markdown
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((segment) =>
+      segment.startsWith('`')
+        ? segment
+        : segment.replace(/\[(\d{1,3})\](?!\()/g, (marker, body: string) => {
+            const position = positions[Number(body) - 1]
+            return position === undefined ? marker : `[${position + 1}]`
+          })
+    )
+    .join('')
+}
@@ -0,0 +1,62 @@
+/**
+ * Context Window
+ *
+ * How much of the model's context the conversation uses, from the
+ * `total_tokens` the backend reports after each answer. The limit comes from
+ * `NEXT_PUBLIC_CONTEXT_TOKEN_LIMIT` (the chat model's window by default).
+ * Past `CONTEXT_WARNING_RATIO` the chat suggests compressing the
+ * conversation; past `CONTEXT_CRITICAL_RATIO` older turns may be dropped.
+ */
+
+export const DEFAULT_CONTEXT_TOKEN_LIMIT = 128000
+export const CONTEXT_WARNING_RATIO = 0.75
+export const CONTEXT_CRITICAL_RATIO = 0.9
+
+export type ContextLevel = 'ok' | 'warning' | 'critical'
+
+export interface ContextUsage {
+  tokens: number
+  limit: number
+  /** 0-1, capped at 1. */
+  ratio: number
+  level: ContextLevel
+}
+
+/** Where a compressed conversation's summary took over from the messages. */
+export interface ConversationCompression {
+  summary: string
+  /** Last message the summary covers. */
+  compressedThroughId: string
+  createdAt?: string
+}
+
+export function contextTokenLimit(): number {
+  const configured = Number(process.env.NEXT_PUBLIC_CONTEXT_TOKEN_LIMIT)
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_CONTEXT_TOKEN_LIMIT
+}
+
+export function contextUsage(tokens: number, limit: number = contextTokenLimit()): ContextUsage {
+  const ratio = Math.min(1, Math.max(0, tokens / limit))
+  const level: ContextLevel =
+    ratio >= CONTEXT_CRITICAL_RATIO ? 'critical' : ratio >= CONTEXT_WARNING_RATIO ? 'warning' : 'ok'
+  return { tokens, limit, ratio, level }
+}
+
+/** `850`, `12.3k` or `128k`. */
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) return String(tokens)
+  const thousands = tokens / 1000
+  return `${thousands >= 100 || Number.isInteger(thousands) ? Math.round(thousands) : thousands.toFixed(1)}k`
+}
+
+/** The compression marker in a session payload, if it has a usable one. */
+export function parseCompression(value: unknown): ConversationCompression | null {
+  if (typeof value !== 'object' || value === null) return null
+  const { summary, compressed_through, created_at } = value as Record<string, unknown>
+  if (typeof summary !== 'string' || typeof compressed_through !== 'string' || !compressed_through) return null
+  return {
+    summary,
+    compressedThroughId: compressed_through,
+    ...(typeof created_at === 'string' ? { createdAt: created_at } : {}),
+  }
+}
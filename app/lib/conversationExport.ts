@@ -0,0 +1,311 @@
+import type { Citation } from '../components/SourceCitations'
+import type { Message, MessageCitations } from '../hooks/useChat'
+import { sanitizeAndRenderMarkdown } from './markdown'
+
+/**
+ * Conversation Export
+ *
+ * Serializes a chat session to Markdown, structured JSON or a standalone HTML
+ * page styled like the chat, or prints that same HTML from a hidden iframe.
+ * There is no PDF generator: a PDF comes from the print dialog's own
+ * "Save as PDF" destination.
+ *
+ * The serializers are pure; `exportConversation` handles the browser side
+ * (downloads and printing).
+ */
+
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'print'
+
+export const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'markdown', label: 'Markdown (.md)' },
+  { format: 'json', label: 'JSON (.json)' },
+  { format: 'html', label: 'Web page (.html)' },
+  { format: 'print', label: 'Print / Save as PDF' },
+]
+
+export interface ExportedMessage {
+  role: Message['role']
+  content: string
+  createdAt: string | null
+  /** Set for answers that were stopped before they finished. */
+  interrupted?: boolean
+  citations: Citation[]
+}
+
+export interface ConversationExport {
+  version: 1
+  title: string
+  sessionId: string | null
+  exportedAt: string
+  messages: ExportedMessage[]
+}
+
+interface BuildExportOptions {
+  title?: string | null
+  sessionId?: string | null
+  messages: Message[]
+  messageCitations?: MessageCitations
+  exportedAt?: Date
+}
+
+const DEFAULT_TITLE = 'SELVE Chat conversation'
+
+/**
+ * Collect everything an export needs. Failed and pending user messages never
+ * reached the backend, so they are left out.
+ */
+export function buildConversationExport({
+  title,
+  sessionId = null,
+  messages,
+  messageCitations = {},
+  exportedAt = new Date(),
+}: BuildExportOptions): ConversationExport {
+  const exported = messages.flatMap((message): ExportedMessage[] => {
+    if (message.status === 'failed' || message.status === 'pending') return []
+    return [
+      {
+        role: message.role,
+        content: message.content,
+        createdAt: message.createdAt ?? null,
+        ...(message.status === 'interrupted' ? { interrupted: true } : {}),
+        citations: (message.id && messageCitations[message.id]) || [],
+      },
+    ]
+  })
+
+  return {
+    version: 1,
+    title: title?.trim() || DEFAULT_TITLE,
+    sessionId,
+    exportedAt: exportedAt.toISOString(),
+    messages: exported,
+  }
+}
+
+function speaker(role: Message['role']): string {
+  return role === 'user' ? 'You' : 'SELVE'
+}
+
+function formatTimestamp(iso: string | null): string | null {
+  if (!iso) return null
+  const date = new Date(iso)
+  if (Number.isNaN(date.getTime())) return null
+  return date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+function citationLink(citation: Citation): string {
+  return citation.url ? `[${citation.title}](${citation.url})` : citation.title
+}
+
+export function toMarkdown(conversation: ConversationExport): string {
+  const lines = [`# ${conversation.title}`, '', `_Exported ${formatTimestamp(conversation.exportedAt)}_`]
+
+  for (const message of conversation.messages) {
+    const time = formatTimestamp(message.createdAt)
+    lines.push('', '---', '', `### ${speaker(message.role)}${time ? ` · ${time}` : ''}`, '', message.content)
+
+    if (message.interrupted) {
+      lines.push('', '_Response stopped_')
+    }
+    if (message.citations.length > 0) {
+      lines.push('', '**Sources**', '')
+      message.citations.forEach((citation) => lines.push(`- ${citationLink(citation)}`))
+    }
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+export function toJson(conversation: ConversationExport): string {
+  return JSON.stringify(conversation, null, 2)
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function safeUrl(url: string | undefined): string | null {
+  return url && /^https?:\/\//i.test(url) ? url : null
+}
+
+const HTML_STYLES = `
+  :root { color-scheme: light; }
+  * { box-sizing: border-box; }
+  body {
+    margin: 0;
+    background: #faf9f7;
+    color: #18181b;
+    font: 15px/1.65 -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+  }
+  main { max-width: 760px; margin: 0 auto; padding: 40px 24px 64px; }
+  header { border-bottom: 1px solid #e4e4e7; margin-bottom: 32px; padding-bottom: 16px; }
+  header h1 { margin: 0 0 4px; font-size: 24px; }
+  header p { margin: 0; color: #71717a; font-size: 13px; }
+  .message { margin: 0 0 24px; }
+  .meta { color: #71717a; font-size: 12px; margin-bottom: 6px; }
+  .meta strong { color: #3f3f46; }
+  .user .bubble {
+    margin-left: auto;
+    max-width: 85%;
+    width: fit-content;
+    background: #f4f4f5;
+    border-radius: 18px;
+    padding: 10px 16px;
+    white-space: pre-wrap;
+  }
+  .user .meta { text-align: right; }
+  .assistant .bubble p:first-child { margin-top: 0; }
+  .bubble pre { background: #18181b; color: #f4f4f5; border-radius: 8px; padding: 12px 16px; overflow-x: auto; }
+  .bubble code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 13px; }
+  .bubble a, .sources a { color: #de6b35; }
+  .bubble table { border-collapse: collapse; }
+  .bubble th, .bubble td { border-bottom: 1px solid #e4e4e7; padding: 6px 12px; text-align: left; }
+  .interrupted { color: #a16207; font-size: 12px; margin-top: 6px; }
+  .sources { border-left: 3px solid #de6b35; margin-top: 12px; padding-left: 12px; font-size: 13px; }
+  .sources ul { margin: 4px 0 0; padding-left: 18px; }
+  footer { color: #a1a1aa; font-size: 12px; margin-top: 48px; text-align: center; }
+  @media print {
+    body { background: #fff; }
+    main { padding: 0; }
+    .message { break-inside: avoid; }
+  }
+`
+
+function renderCitationsHtml(citations: Citation[]): string {
+  if (citations.length === 0) return ''
+  const items = citations
+    .map((citation) => {
+      const url = safeUrl(citation.url)
+      const title = escapeHtml(citation.title)
+      return `<li>${url ? `<a href="${escapeHtml(url)}" rel="noopener noreferrer">${title}</a>` : title}</li>`
+    })
+    .join('')
+  return `<div class="sources"><strong>Sources</strong><ul>${items}</ul></div>`
+}
+
+function renderMessageHtml(message: ExportedMessage): string {
+  const time = formatTimestamp(message.createdAt)
+  const body =
+    message.role === 'assistant'
+      ? sanitizeAndRenderMarkdown(message.content)
+      : escapeHtml(message.content)
+
+  return [
+    `<section class="message ${message.role}">`,
+    `<div class="meta"><strong>${speaker(message.role)}</strong>${time ? ` · ${escapeHtml(time)}` : ''}</div>`,
+    `<div class="bubble">${body}</div>`,
+    message.interrupted ? '<div class="interrupted">Response stopped</div>' : '',
+    renderCitationsHtml(message.citations),
+    '</section>',
+  ].join('')
+}
+
+/** A self-contained HTML document (inline styles, no scripts). */
+export function toHtml(conversation: ConversationExport): string {
+  const title = escapeHtml(conversation.title)
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<header><h1>${title}</h1><p>Exported ${escapeHtml(formatTimestamp(conversation.exportedAt) ?? '')}</p></header>
+${conversation.messages.map(renderMessageHtml).join('\n')}
+<footer>Exported from SELVE Chat</footer>
+</main>
+</body>
+</html>
+`
+}
+
+/** File name for an export, e.g. `my-scores-2026-03-01.md`. */
+export function exportFilename(conversation: ConversationExport, extension: string): string {
+  const slug =
+    conversation.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'selve-chat'
+  return `${slug}-${conversation.exportedAt.slice(0, 10)}.${extension}`
+}
+
+function downloadFile(filename: string, content: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Give the download a moment to start before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * Open the print dialog for an HTML document without leaving the page.
+ * The iframe is removed once printing finishes.
+ */
+function printHtml(html: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const iframe = document.createElement('iframe')
+    iframe.setAttribute('aria-hidden', 'true')
+    iframe.style.position = 'fixed'
+    iframe.style.width = '0'
+    iframe.style.height = '0'
+    iframe.style.border = '0'
+    iframe.srcdoc = html
+
+    iframe.onload = () => {
+      const frameWindow = iframe.contentWindow
+      if (!frameWindow) {
+        iframe.remove()
+        reject(new Error('Print frame is not available'))
+        return
+      }
+      const cleanup = () => {
+        iframe.remove()
+        resolve()
+      }
+      frameWindow.addEventListener('afterprint', cleanup, { once: true })
+      frameWindow.focus()
+      frameWindow.print()
+      // Browsers without afterprint: print() blocks until the dialog closes
+      setTimeout(() => {
+        if (iframe.isConnected) cleanup()
+      }, 60000)
+    }
+
+    document.body.appendChild(iframe)
+  })
+}
+
+export async function exportConversation(
+  format: ExportFormat,
+  conversation: ConversationExport
+): Promise<void> {
+  switch (format) {
+    case 'markdown':
+      downloadFile(exportFilename(conversation, 'md'), toMarkdown(conversation), 'text/markdown;charset=utf-8')
+      break
+    case 'json':
+      downloadFile(exportFilename(conversation, 'json'), toJson(conversation), 'application/json')
+      break
+    case 'html':
+      downloadFile(exportFilename(conversation, 'html'), toHtml(conversation), 'text/html;charset=utf-8')
+      break
+    case 'print':
+      await printHtml(toHtml(conversation))
+      break
+  }
+}
@@ -0,0 +1,224 @@
+import type { Message, Session } from '../hooks/useChat'
+
+/**
+ * Conversation Import
+ *
+ * Parses a JSON file into conversations that can be saved as new sessions.
+ * Two formats are accepted:
+ *
+ * - SELVE: the JSON produced by "Export → JSON" (`ConversationExport`,
+ *   version 1), documented in the README.
+ * - ChatGPT: `conversations.json` from a ChatGPT data export, either the full
+ *   array or a single conversation. Each conversation is a tree of messages
+ *   (`mapping`); the branch ending at `current_node` is the one imported.
+ *
+ * Parsing is strict about structure and collects every problem it finds, so
+ * the preview can show all of them at once instead of failing one by one.
+ */
+
+export type ImportSource = 'selve' | 'chatgpt'
+
+export interface ImportedMessage {
+  role: Message['role']
+  content: string
+  createdAt: string | null
+}
+
+export interface ImportedConversation {
+  title: string
+  source: ImportSource
+  messages: ImportedMessage[]
+}
+
+/** What became of one conversation when saving an import. */
+export interface ImportResult {
+  conversation: ImportedConversation
+  /** The new session, or null if it could not be saved. */
+  session: Session | null
+}
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024
+export const MAX_IMPORT_MESSAGES = 2000
+const MAX_ISSUES = 20
+const DEFAULT_TITLE = 'Imported conversation'
+
+/**
+ * Thrown when a file cannot be imported. `issues` lists each problem with the
+ * JSON path it was found at.
+ */
+export class ImportError extends Error {
+  readonly issues: string[]
+
+  constructor(message: string, issues: string[] = []) {
+    super(message)
+    this.name = 'ImportError'
+    this.issues = issues
+  }
+}
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function titleOf(value: unknown): string {
+  return typeof value === 'string' && value.trim() ? value.trim() : DEFAULT_TITLE
+}
+
+/** Accepts ISO strings and Unix seconds (ChatGPT); anything else is dropped. */
+function timestampOf(value: unknown): string | null {
+  const date =
+    typeof value === 'number' ? new Date(value * 1000) : typeof value === 'string' ? new Date(value) : null
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : null
+}
+
+// SELVE export
+
+function isSelveExport(data: unknown): data is JsonObject {
+  return isObject(data) && 'version' in data && Array.isArray(data.messages)
+}
+
+function parseSelveExport(data: JsonObject, issues: string[]): ImportedConversation {
+  if (data.version !== 1) {
+    issues.push(`version: unsupported version ${JSON.stringify(data.version)} (expected 1)`)
+  }
+
+  const messages: ImportedMessage[] = []
+  ;(data.messages as unknown[]).forEach((message, index) => {
+    const path = `messages[${index}]`
+    if (!isObject(message)) {
+      issues.push(`${path}: expected an object`)
+      return
+    }
+    if (message.role !== 'user' && message.role !== 'assistant') {
+      issues.push(`${path}.role: expected "user" or "assistant"`)
+      return
+    }
+    if (typeof message.content !== 'string') {
+      issues.push(`${path}.content: expected a string`)
+      return
+    }
+    messages.push({
+      role: message.role,
+      content: message.content,
+      createdAt: timestampOf(message.createdAt),
+    })
+  })
+
+  return { title: titleOf(data.title), source: 'selve', messages }
+}
+
+// ChatGPT export
+
+function isChatGptConversation(data: unknown): data is JsonObject {
+  return isObject(data) && isObject(data.mapping)
+}
+
+function chatGptContent(content: unknown): string | null {
+  if (!isObject(content) || !Array.isArray(content.parts)) return null
+  // Non-text parts (images, attachments) are skipped
+  const text = content.parts.filter((part): part is string => typeof part === 'string').join('\n')
+  return text.trim() ? text : null
+}
+
+function parseChatGptConversation(data: JsonObject, path: string, issues: string[]): ImportedConversation {
+  const mapping = data.mapping as JsonObject
+  const nodeIds = Object.keys(mapping)
+
+  // Without `current_node`, follow the first child from the root instead
+  let leaf = typeof data.current_node === 'string' ? data.current_node : null
+  if (!leaf) {
+    let node = nodeIds.map((id) => mapping[id]).find((n) => isObject(n) && !n.parent)
+    while (isObject(node) && Array.isArray(node.children) && node.children.length > 0) {
+      leaf = String(node.children[0])
+      node = mapping[leaf]
+    }
+  }
+
+  const branch: JsonObject[] = []
+  const seen = new Set<string>()
+  let cursor: string | null = leaf
+  while (cursor && !seen.has(cursor)) {
+    seen.add(cursor)
+    const node = mapping[cursor]
+    if (!isObject(node)) {
+      issues.push(`${path}.mapping: missing node "${cursor}"`)
+      break
+    }
+    branch.push(node)
+    cursor = typeof node.parent === 'string' ? node.parent : null
+  }
+
+  const messages = branch.reverse().flatMap((node): ImportedMessage[] => {
+    const message = node.message
+    if (!isObject(message) || !isObject(message.author)) return []
+    // System prompts and tool calls are not part of the visible conversation
+    const role = message.author.role
+    if (role !== 'user' && role !== 'assistant') return []
+    const content = chatGptContent(message.content)
+    if (content === null) return []
+    return [{ role, content, createdAt: timestampOf(message.create_time) }]
+  })
+
+  return { title: titleOf(data.title), source: 'chatgpt', messages }
+}
+
+/**
+ * Parse an import file's text. Throws `ImportError` when the file is not
+ * valid JSON, has an unknown shape, or any conversation fails validation.
+ */
+export function parseConversationImport(text: string): ImportedConversation[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ImportError('This file is not valid JSON.')
+  }
+
+  const issues: string[] = []
+  let conversations: ImportedConversation[]
+
+  if (isSelveExport(data)) {
+    conversations = [parseSelveExport(data, issues)]
+  } else if (isChatGptConversation(data)) {
+    conversations = [parseChatGptConversation(data, 'conversation', issues)]
+  } else if (Array.isArray(data) && data.length > 0 && data.every(isChatGptConversation)) {
+    // Full exports often contain empty chats; those are skipped
+    conversations = data
+      .map((conversation, index) => parseChatGptConversation(conversation, `[${index}]`, issues))
+      .filter((conversation) => conversation.messages.length > 0)
+    if (conversations.length === 0) {
+      throw new ImportError('This file has no conversations with messages.')
+    }
+  } else {
+    throw new ImportError(
+      'Unrecognized format. Use a SELVE JSON export or a ChatGPT conversations.json file.'
+    )
+  }
+
+  if (conversations.length === 1 && conversations[0].messages.length === 0) {
+    issues.push('messages: no user or assistant messages')
+  }
+
+  const total = conversations.reduce((sum, conversation) => sum + conversation.messages.length, 0)
+  if (total > MAX_IMPORT_MESSAGES) {
+    issues.push(`too many messages (${total}, limit ${MAX_IMPORT_MESSAGES})`)
+  }
+
+  if (issues.length > 0) {
+    const shown = issues.slice(0, MAX_ISSUES)
+    if (issues.length > MAX_ISSUES) shown.push(`…and ${issues.length - MAX_ISSUES} more`)
+    throw new ImportError('This file could not be imported.', shown)
+  }
+
+  return conversations
+}
+
+/** Read and parse a user-selected file, enforcing the size limit first. */
+export async function readConversationFile(file: File): Promise<ImportedConversation[]> {
+  if (file.size > MAX_IMPORT_BYTES) {
+    throw new ImportError(`This file is too large (limit ${MAX_IMPORT_BYTES / 1024 / 1024} MB).`)
+  }
+  return parseConversationImport(await file.text())
+}
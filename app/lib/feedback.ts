@@ -0,0 +1,66 @@
+import type { StoredMessage } from './messageTree'
+
+/**
+ * Message Feedback
+ *
+ * Thumbs up or down on an answer, optionally with reasons and a comment.
+ * Feedback can be changed or withdrawn; the backend keeps one entry per
+ * message and user and returns it with the session's messages.
+ */
+
+export type FeedbackType = 'helpful' | 'not_helpful'
+
+export type FeedbackReason = 'inaccurate' | 'not_personal' | 'too_long' | 'unsafe' | 'wrong_sources'
+
+export interface MessageFeedback {
+  type: FeedbackType
+  reasons?: FeedbackReason[]
+  comment?: string
+}
+
+/** Feedback given in the current session, keyed by message ID. */
+export interface MessageFeedbackMap {
+  [messageId: string]: MessageFeedback
+}
+
+export const FEEDBACK_REASONS: Array<{ value: FeedbackReason; label: string }> = [
+  { value: 'inaccurate', label: 'Inaccurate' },
+  { value: 'not_personal', label: 'Not personal enough' },
+  { value: 'too_long', label: 'Too long' },
+  { value: 'unsafe', label: 'Unsafe or harmful' },
+  { value: 'wrong_sources', label: 'Wrong sources' },
+]
+
+export const MAX_FEEDBACK_COMMENT_LENGTH = 1000
+
+const REASON_VALUES = new Set<string>(FEEDBACK_REASONS.map((reason) => reason.value))
+
+/** The feedback, or null when the payload doesn't hold usable feedback. */
+export function parseMessageFeedback(value: unknown): MessageFeedback | null {
+  if (typeof value !== 'object' || value === null) return null
+  const { type, reasons, comment } = value as Record<string, unknown>
+  if (type !== 'helpful' && type !== 'not_helpful') return null
+
+  const validReasons = Array.isArray(reasons)
+    ? reasons.filter((reason): reason is FeedbackReason => typeof reason === 'string' && REASON_VALUES.has(reason))
+    : []
+  return {
+    type,
+    ...(validReasons.length > 0 ? { reasons: validReasons } : {}),
+    ...(typeof comment === 'string' && comment.trim() ? { comment: comment.trim() } : {}),
+  }
+}
+
+/** Separate the feedback stored on restored messages from the messages. */
+export function splitStoredFeedback(stored: StoredMessage[]): {
+  messages: StoredMessage[]
+  feedback: MessageFeedbackMap
+} {
+  const feedback: MessageFeedbackMap = {}
+  const messages = stored.map(({ feedback: storedFeedback, ...message }) => {
+    const parsed = parseMessageFeedback(storedFeedback)
+    if (parsed && message.id) feedback[message.id] = parsed
+    return message
+  })
+  return { messages, feedback }
+}
@@ -0,0 +1,80 @@
+/**
+ * HTTP helpers shared by the chat backend calls.
+ *
+ * `HttpError` carries the response status (which `useRetry` inspects to decide
+ * whether a failure is transient) and any `Retry-After` hint from the server.
+ * `TimeoutError` marks requests that gave up waiting.
+ *
+ * Every request carries an `X-Request-ID` the backend logs with it, so a
+ * failure seen in the browser can be found in the backend logs.
+ */
+
+export const REQUEST_ID_HEADER = 'X-Request-ID'
+
+export function createRequestId(): string {
+  return typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `req_${Date.now()}_${Math.random().toString(36).slice(2)}`
+}
+
+export class HttpError extends Error {
+  readonly status: number
+  readonly statusText: string
+  /** Delay requested by the server via `Retry-After`, in milliseconds. */
+  readonly retryAfterMs: number | null
+  /** `X-Request-ID` of the failed request. */
+  readonly requestId: string | null
+
+  constructor(
+    status: number,
+    statusText: string,
+    retryAfterMs: number | null = null,
+    requestId: string | null = null
+  ) {
+    super(`HTTP ${status}: ${statusText}`)
+    this.name = 'HttpError'
+    this.status = status
+    this.statusText = statusText
+    this.retryAfterMs = retryAfterMs
+    this.requestId = requestId
+  }
+}
+
+/**
+ * Thrown when a request is aborted by its own timeout rather than the caller.
+ * Keeps the Node-style `ETIMEDOUT` code that `isRetryableError` looks for.
+ */
+export class TimeoutError extends Error {
+  readonly code = 'ETIMEDOUT'
+
+  constructor(message = 'Request timed out') {
+    super(message)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null
+
+  const seconds = Number(value.trim())
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? Math.round(seconds * 1000) : null
+  }
+
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) return null
+  return Math.max(0, date - now)
+}
+
+/** `requestId` is what was sent; the backend's echo of it wins. */
+export function httpErrorFromResponse(response: Response, requestId: string | null = null): HttpError {
+  return new HttpError(
+    response.status,
+    response.statusText,
+    parseRetryAfter(response.headers.get('Retry-After')),
+    response.headers.get(REQUEST_ID_HEADER) ?? requestId
+  )
+}
@@ -0,0 +1,248 @@
+import type { Citation } from '../components/SourceCitations'
+import type { Message } from '../hooks/useChat'
+import type { MessageFeedback } from './feedback'
+import type { ReasoningStep } from './reasoning'
+
+/**
+ * Message Tree
+ *
+ * A conversation is a tree: every message points at the message it follows,
+ * and regenerating an answer or editing a question adds a sibling version
+ * instead of overwriting it. Each version keeps its own downstream messages
+ * and citations. What the chat shows is one path from a root to a leaf,
+ * chosen by `selected` (the newest child wherever nothing was chosen).
+ *
+ * Nodes are keyed by the message's client ID when it has one (stable while
+ * the backend assigns its own ID), otherwise by its server ID. All functions
+ * are pure and return a new tree.
+ */
+
+export interface MessageNode {
+  message: Message
+  parentKey: string | null
+  childKeys: string[]
+  citations?: Citation[]
+  // Status events behind an answer written since the chat was opened; the
+  // backend doesn't store them, so restored answers have none
+  reasoning?: ReasoningStep[]
+}
+
+export interface MessageTree {
+  nodes: Record<string, MessageNode>
+  rootKeys: string[]
+  /** Child shown under each parent key (`ROOT_KEY` for the first message). */
+  selected: Record<string, string>
+}
+
+/** Position of a message among its versions, 1-based. */
+export interface BranchInfo {
+  index: number
+  total: number
+}
+
+/** Message as stored by the backend, with its place in the tree. */
+export interface StoredMessage extends Message {
+  parentId?: string | null
+  isActive?: boolean
+  groupId?: string | null
+  citations?: Citation[]
+  // The requesting user's feedback on this message
+  feedback?: MessageFeedback | null
+}
+
+const ROOT_KEY = ''
+
+export function emptyTree(): MessageTree {
+  return { nodes: {}, rootKeys: [], selected: {} }
+}
+
+export function messageKey(message: Message): string | undefined {
+  return message.clientId ?? message.id
+}
+
+function childKeysOf(tree: MessageTree, parentKey: string | null): string[] {
+  return parentKey === null ? tree.rootKeys : tree.nodes[parentKey]?.childKeys ?? []
+}
+
+function selectedChild(tree: MessageTree, parentKey: string | null): string | undefined {
+  const children = childKeysOf(tree, parentKey)
+  const chosen = tree.selected[parentKey ?? ROOT_KEY]
+  return chosen && children.includes(chosen) ? chosen : children[children.length - 1]
+}
+
+/** Keys of the messages on the shown path, root first. */
+export function visibleKeys(tree: MessageTree): string[] {
+  const keys: string[] = []
+  let key = selectedChild(tree, null)
+  while (key !== undefined) {
+    keys.push(key)
+    key = selectedChild(tree, key)
+  }
+  return keys
+}
+
+export function visibleMessages(tree: MessageTree): Message[] {
+  return visibleKeys(tree).map((key) => tree.nodes[key].message)
+}
+
+export function lastVisibleKey(tree: MessageTree): string | null {
+  const keys = visibleKeys(tree)
+  return keys[keys.length - 1] ?? null
+}
+
+/** Key of the node holding the message with this client or server ID. */
+export function findKey(tree: MessageTree, id: string): string | null {
+  if (tree.nodes[id]) return id
+  const found = Object.keys(tree.nodes).find((key) => tree.nodes[key].message.id === id)
+  return found ?? null
+}
+
+/** Add a message under `parentKey` (null for a first message) and show it. */
+export function addMessage(
+  tree: MessageTree,
+  parentKey: string | null,
+  message: Message,
+  citations?: Citation[]
+): MessageTree {
+  const key = messageKey(message)
+  if (!key) throw new Error('Messages in a tree need a client or server ID')
+  if (parentKey !== null && !tree.nodes[parentKey]) throw new Error(`Unknown parent message ${parentKey}`)
+
+  const nodes = {
+    ...tree.nodes,
+    [key]: { message, parentKey, childKeys: [], ...(citations ? { citations } : {}) },
+  }
+  let rootKeys = tree.rootKeys
+  if (parentKey === null) {
+    rootKeys = [...rootKeys, key]
+  } else {
+    const parent = nodes[parentKey]
+    nodes[parentKey] = { ...parent, childKeys: [...parent.childKeys, key] }
+  }
+
+  return { nodes, rootKeys, selected: { ...tree.selected, [parentKey ?? ROOT_KEY]: key } }
+}
+
+export function updateMessage(
+  tree: MessageTree,
+  key: string,
+  update: Partial<Message> | ((message: Message) => Message)
+): MessageTree {
+  const node = tree.nodes[key]
+  if (!node) return tree
+  const message = typeof update === 'function' ? update(node.message) : { ...node.message, ...update }
+  return { ...tree, nodes: { ...tree.nodes, [key]: { ...node, message } } }
+}
+
+export function setCitations(tree: MessageTree, key: string, citations: Citation[]): MessageTree {
+  const node = tree.nodes[key]
+  if (!node) return tree
+  return { ...tree, nodes: { ...tree.nodes, [key]: { ...node, citations } } }
+}
+
+export function setReasoning(tree: MessageTree, key: string, reasoning: ReasoningStep[]): MessageTree {
+  const node = tree.nodes[key]
+  if (!node) return tree
+  return { ...tree, nodes: { ...tree.nodes, [key]: { ...node, reasoning } } }
+}
+
+/** Remove a message together with everything below it. */
+export function removeMessage(tree: MessageTree, key: string): MessageTree {
+  const node = tree.nodes[key]
+  if (!node) return tree
+
+  const nodes = { ...tree.nodes }
+  const selected = { ...tree.selected }
+  const drop = (dropKey: string) => {
+    nodes[dropKey]?.childKeys.forEach(drop)
+    delete nodes[dropKey]
+    delete selected[dropKey]
+  }
+  drop(key)
+
+  let rootKeys = tree.rootKeys
+  if (node.parentKey === null) {
+    rootKeys = rootKeys.filter((rootKey) => rootKey !== key)
+  } else if (nodes[node.parentKey]) {
+    const parent = nodes[node.parentKey]
+    nodes[node.parentKey] = { ...parent, childKeys: parent.childKeys.filter((childKey) => childKey !== key) }
+  }
+  const parentSlot = node.parentKey ?? ROOT_KEY
+  if (selected[parentSlot] === key) delete selected[parentSlot]
+
+  return { nodes, rootKeys, selected }
+}
+
+/** All versions of a message, oldest first (including itself). */
+export function siblingKeys(tree: MessageTree, key: string): string[] {
+  const node = tree.nodes[key]
+  return node ? childKeysOf(tree, node.parentKey) : []
+}
+
+export function branchInfo(tree: MessageTree, key: string): BranchInfo {
+  const siblings = siblingKeys(tree, key)
+  return { index: siblings.indexOf(key) + 1, total: siblings.length }
+}
+
+/** Show the previous or next version of a message. */
+export function selectBranch(tree: MessageTree, key: string, direction: 'prev' | 'next'): MessageTree {
+  const node = tree.nodes[key]
+  if (!node) return tree
+  const siblings = siblingKeys(tree, key)
+  const target = siblings[siblings.indexOf(key) + (direction === 'prev' ? -1 : 1)]
+  if (!target) return tree
+  return { ...tree, selected: { ...tree.selected, [node.parentKey ?? ROOT_KEY]: target } }
+}
+
+/**
+ * Rebuild the tree from a session payload (chronological). Messages with a
+ * `parentId` are placed exactly. Older payloads only mark replaced versions
+ * with `isActive: false` and link versions through `groupId`
+ * (`group-<original id>`), so for those a version becomes a sibling of the
+ * original and any other message follows the latest message before it on
+ * its own branch. Citations stored with a message stay on its node.
+ */
+export function treeFromMessages(messages: StoredMessage[]): MessageTree {
+  let tree = emptyTree()
+  const keyById = new Map<string, string>()
+  const firstInGroup = new Map<string, string>()
+  let previousKey: string | null = null
+  let previousActiveKey: string | null = null
+  const activeChild = new Map<string, string>()
+
+  messages.forEach((stored, index) => {
+    const { parentId, isActive, groupId, citations, ...message } = stored
+    const key = messageKey(message) ?? `restored-${index}`
+    if (!messageKey(message)) message.id = key
+
+    let parentKey: string | null
+    const groupOriginal =
+      groupId &&
+      (firstInGroup.get(groupId) ??
+        (groupId.startsWith('group-') ? keyById.get(groupId.slice('group-'.length)) : undefined))
+
+    if (parentId !== undefined) {
+      parentKey = parentId === null ? null : keyById.get(parentId) ?? previousActiveKey
+    } else if (groupOriginal && tree.nodes[groupOriginal]) {
+      parentKey = tree.nodes[groupOriginal].parentKey
+    } else {
+      parentKey = isActive === false ? previousKey : previousActiveKey
+    }
+
+    tree = addMessage(tree, parentKey, message, Array.isArray(citations) && citations.length ? citations : undefined)
+    if (message.id) keyById.set(message.id, key)
+    if (groupId && !firstInGroup.has(groupId)) firstInGroup.set(groupId, groupOriginal || key)
+    previousKey = key
+    if (isActive !== false) {
+      previousActiveKey = key
+      activeChild.set(parentKey ?? ROOT_KEY, key)
+    }
+  })
+
+  // Show the active versions; where none is marked active, the newest
+  const selected: Record<string, string> = {}
+  activeChild.forEach((key, parentSlot) => {
+    selected[parentSlot] = key
+  })
+  return { ...tree, selected }
+}
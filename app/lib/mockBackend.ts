@@ -0,0 +1,806 @@
+import type { Citation } from '../components/SourceCitations'
+import type { SelveScores, UserProfile } from '../hooks/useChat'
+import type { SharedConversation, SharedMessage } from './share'
+import {
+  buildMockScript,
+  chunkAnswer,
+  MockPayload,
+  MockScript,
+  scenarioFor,
+} from './mockStreams'
+
+/**
+ * Mock Chat Backend
+ *
+ * In-memory stand-in for the FastAPI chat backend (and the two main-app user
+ * endpoints the chat calls), so the frontend runs offline. It is served by the
+ * `app/mock-api/[...path]` route when `MOCK_API=true`; point
+ * `NEXT_PUBLIC_API_URL` and `NEXT_PUBLIC_MAIN_APP_API_URL` at `/mock-api`
+ * (`pnpm dev:mock` does both).
+ *
+ * `handleMockRequest` is a plain `Request -> Response` function over a
+ * `MockStore`, so tests can call it directly with a fresh store and no delay.
+ * See `mockStreams.ts` for the scripted stream scenarios.
+ */
+
+export interface MockMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  clientId?: string
+  createdAt: string
+  // The message this one follows; versions of a message share a parent
+  parentId?: string | null
+  // Sources sent with an assistant answer, returned again on reload
+  citations?: Citation[]
+  // Trace of the stream that wrote an assistant answer
+  traceId?: string
+}
+
+export interface MockSession {
+  id: string
+  userId: string
+  title: string
+  createdAt: string
+  lastMessageAt: string
+  messages: MockMessage[]
+  // Set once older turns were summarized to free up context
+  compression?: MockCompression
+}
+
+export interface MockCompression {
+  summary: string
+  compressed_through: string
+  created_at: string
+}
+
+export interface MockFeedback {
+  message_id: string
+  feedback_type: string
+  reasons: string[]
+  comment: string | null
+  trace_id: string | null
+  session_id: string | null
+  clerk_user_id: string | null
+}
+
+export interface MockRestriction {
+  message: string | null
+  expires_at: string | null
+  policy: { id: string; title: string; description?: string } | null
+}
+
+export interface MockAppeal {
+  clerk_user_id: string
+  message: string
+  policy_id: string | null
+  status: 'pending'
+  submitted_at: string
+}
+
+export interface MockShare extends SharedConversation {
+  ownerId: string
+  sessionId: string
+  revoked: boolean
+}
+
+interface MockStreamRecord {
+  traceId: string
+  sessionId: string
+  script: MockScript
+  userMessageId: string | null
+  assistantMessageId: string
+  assistantParentId: string | null
+  /** Whether the server picked the assistant ID (and must announce it). */
+  announceAssistantId: boolean
+  /** Set for continuations: the message the answer is appended to. */
+  continueMessageId: string | null
+  completed: boolean
+}
+
+export interface MockStore {
+  sessions: Map<string, MockSession>
+  feedback: MockFeedback[]
+  themes: Map<string, string>
+  shares: Map<string, MockShare>
+  /** Active restrictions by user ID. */
+  restrictions: Map<string, MockRestriction>
+  appeals: MockAppeal[]
+  /** Streams by trace ID, for resuming. */
+  streams: Map<string, MockStreamRecord>
+  /** Trace IDs by client message ID, for idempotent resends. */
+  streamsByClientId: Map<string, string>
+  /** Entries shipped by the client log transport. */
+  logs: unknown[]
+}
+
+export interface MockRequestOptions {
+  store?: MockStore
+  /** Pause between streamed events in milliseconds. */
+  chunkDelay?: number
+}
+
+export const MOCK_SCORES: SelveScores = {
+  LUMEN: 72,
+  AETHER: 58,
+  ORPHEUS: 81,
+  ORIN: 45,
+  LYRA: 66,
+  VARA: 77,
+  CHRONOS: 52,
+  KAEL: 39,
+}
+
+const DEFAULT_CHUNK_DELAY = 40
+
+export function createMockStore(): MockStore {
+  return {
+    sessions: new Map(),
+    feedback: [],
+    themes: new Map(),
+    shares: new Map(),
+    restrictions: new Map(),
+    appeals: [],
+    streams: new Map(),
+    streamsByClientId: new Map(),
+    logs: [],
+  }
+}
+
+// Survive dev-server module reloads
+const globalForMock = globalThis as { __selveMockStore?: MockStore }
+
+/** Store shared by the mock API route. */
+export function getSharedMockStore(): MockStore {
+  globalForMock.__selveMockStore ??= createMockStore()
+  return globalForMock.__selveMockStore
+}
+
+export function isMockApiEnabled(): boolean {
+  return process.env.MOCK_API === 'true'
+}
+
+function createId(prefix: string): string {
+  const random =
+    typeof crypto !== 'undefined' && crypto.randomUUID
+      ? crypto.randomUUID()
+      : `${Date.now()}_${Math.random().toString(36).slice(2)}`
+  return `${prefix}_${random}`
+}
+
+function json(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  })
+}
+
+function notFound(detail = 'Not found'): Response {
+  return json({ detail }, 404)
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve()
+}
+
+async function readJson(request: Request): Promise<Record<string, unknown>> {
+  try {
+    const body = await request.json()
+    return typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {}
+  } catch {
+    return {}
+  }
+}
+
+function stringField(body: Record<string, unknown>, key: string): string | null {
+  const value = body[key]
+  return typeof value === 'string' && value.length > 0 ? value : null
+}
+
+function sessionSummary(session: MockSession) {
+  const { id, title, createdAt, lastMessageAt } = session
+  return { id, title, createdAt, lastMessageAt }
+}
+
+// After compression the summary stands in for the messages it covers
+function estimateTokens(session: MockSession): number {
+  const { compression } = session
+  const summarizedUpTo = compression
+    ? session.messages.findIndex((message) => message.id === compression.compressed_through)
+    : -1
+  const characters = session.messages
+    .slice(summarizedUpTo + 1)
+    .reduce((total, message) => total + message.content.length, compression?.summary.length ?? 0)
+  return Math.max(1, Math.round(characters / 4))
+}
+
+// Sessions
+
+function createSession(store: MockStore, body: Record<string, unknown>): Response {
+  const userId = stringField(body, 'userId') ?? stringField(body, 'clerkUserId')
+  if (!userId) return json({ detail: 'userId is required' }, 422)
+
+  const now = new Date().toISOString()
+  const session: MockSession = {
+    id: createId('session'),
+    userId,
+    title: stringField(body, 'title') ?? 'New Conversation',
+    createdAt: now,
+    lastMessageAt: now,
+    messages: [],
+  }
+  store.sessions.set(session.id, session)
+  return json(sessionSummary(session), 201)
+}
+
+function importSession(store: MockStore, body: Record<string, unknown>): Response {
+  const userId = stringField(body, 'userId') ?? stringField(body, 'clerkUserId')
+  if (!userId) return json({ detail: 'userId is required' }, 422)
+
+  const raw = Array.isArray(body.messages) ? body.messages : []
+  const valid = raw.every(
+    (message) =>
+      typeof message === 'object' &&
+      message !== null &&
+      (message.role === 'user' || message.role === 'assistant') &&
+      typeof message.content === 'string'
+  )
+  if (raw.length === 0 || !valid) return json({ detail: 'messages must be a non-empty list' }, 422)
+
+  const now = new Date().toISOString()
+  const messages: MockMessage[] = raw.map((message) => ({
+    id: createId('msg'),
+    role: message.role,
+    content: message.content,
+    createdAt: typeof message.createdAt === 'string' ? message.createdAt : now,
+  }))
+  const session: MockSession = {
+    id: createId('session'),
+    userId,
+    title: stringField(body, 'title') ?? 'Imported conversation',
+    createdAt: now,
+    lastMessageAt: now,
+    messages,
+  }
+  store.sessions.set(session.id, session)
+  return json(sessionSummary(session), 201)
+}
+
+function listSessions(store: MockStore, userId: string): Response {
+  const sessions = [...store.sessions.values()]
+    .filter((session) => session.userId === userId)
+    .sort((a, b) => b.lastMessageAt.localeCompare(a.lastMessageAt))
+    .map(sessionSummary)
+  return json(sessions)
+}
+
+function searchSessions(store: MockStore, userId: string, url: URL): Response {
+  const query = (url.searchParams.get('q') ?? '').trim().toLowerCase()
+  const limit = Number(url.searchParams.get('limit')) || 20
+  if (!query) return json([])
+
+  const results = [...store.sessions.values()]
+    .filter((session) => session.userId === userId)
+    .flatMap((session) => {
+      const match = session.messages.find((message) =>
+        message.content.toLowerCase().includes(query)
+      )
+      if (!match && !session.title.toLowerCase().includes(query)) return []
+      return [{ ...sessionSummary(session), matchingContent: match?.content.slice(0, 200) }]
+    })
+    .slice(0, limit)
+  return json(results)
+}
+
+function generateTitle(store: MockStore, session: MockSession, body: Record<string, unknown>): Response {
+  const message = stringField(body, 'message') ?? 'New Conversation'
+  const words = message.replace(/^mock:[a-z0-9-]+\s*/i, '').split(/\s+/).filter(Boolean)
+  session.title = words.length > 0 ? words.slice(0, 6).join(' ') : 'Mock conversation'
+  store.sessions.set(session.id, session)
+  return json({ title: session.title })
+}
+
+// Keeps the latest turn verbatim and summarizes everything on the shown
+// branch before it
+function compressSession(store: MockStore, session: MockSession): Response {
+  const active = withActiveFlags(session.messages).filter((message) => message.isActive)
+  const summarized = active.slice(0, -2)
+  if (summarized.length < 2) {
+    return json({ detail: 'Not enough conversation to compress yet' }, 422)
+  }
+
+  const questions = summarized
+    .filter((message) => message.role === 'user')
+    .map((message) => message.content.slice(0, 80))
+  session.compression = {
+    summary: `Earlier, the user asked about: ${questions.join('; ')}.`,
+    compressed_through: summarized[summarized.length - 1].id,
+    created_at: new Date().toISOString(),
+  }
+  store.sessions.set(session.id, session)
+  return json({ ...session.compression, total_tokens: estimateTokens(session) })
+}
+
+// Moderation
+
+function restrictionStatus(store: MockStore, userId: string): Response {
+  const restriction = store.restrictions.get(userId)
+  if (restriction?.expires_at && Date.parse(restriction.expires_at) <= Date.now()) {
+    store.restrictions.delete(userId)
+  }
+  const active = store.restrictions.get(userId)
+  if (!active) return json({ restricted: false })
+
+  const appeal = store.appeals.findLast((entry) => entry.clerk_user_id === userId)
+  return json({
+    restricted: true,
+    ...active,
+    appeal: appeal ? { status: appeal.status, submitted_at: appeal.submitted_at } : null,
+  })
+}
+
+function submitAppeal(store: MockStore, userId: string, body: Record<string, unknown>): Response {
+  if (!store.restrictions.has(userId)) return json({ detail: 'Nothing to appeal' }, 409)
+  const message = stringField(body, 'message')
+  if (!message) return json({ detail: 'message is required' }, 422)
+  if (store.appeals.some((entry) => entry.clerk_user_id === userId)) {
+    return json({ detail: 'This restriction was already appealed' }, 409)
+  }
+
+  const appeal: MockAppeal = {
+    clerk_user_id: userId,
+    message,
+    policy_id: stringField(body, 'policy_id'),
+    status: 'pending',
+    submitted_at: new Date().toISOString(),
+  }
+  store.appeals.push(appeal)
+  return json({ status: appeal.status, submitted_at: appeal.submitted_at }, 201)
+}
+
+// Sharing
+
+function createShare(store: MockStore, ownerId: string | null, body: Record<string, unknown>): Response {
+  if (!ownerId) return json({ detail: 'X-User-ID header is required' }, 401)
+  const sessionId = stringField(body, 'session_id')
+  const session = sessionId ? store.sessions.get(sessionId) : undefined
+  if (!session) return notFound('Session not found')
+  if (session.userId !== ownerId) return json({ detail: 'Not your session' }, 403)
+
+  const share: MockShare = {
+    share_id: createId('share'),
+    title: stringField(body, 'title') ?? session.title,
+    created_at: new Date().toISOString(),
+    messages: Array.isArray(body.messages) ? (body.messages as SharedMessage[]) : [],
+    ownerId,
+    sessionId: session.id,
+    revoked: false,
+  }
+  store.shares.set(share.share_id, share)
+  return json({ share_id: share.share_id }, 201)
+}
+
+function publicShare({ share_id, title, created_at, messages }: MockShare): SharedConversation {
+  return { share_id, title, created_at, messages }
+}
+
+// Streaming
+
+function encodeEvent(id: number, payload: MockPayload): string {
+  return `id: ${id}\ndata: ${JSON.stringify(payload)}\n\n`
+}
+
+/**
+ * Stream a recorded script, starting `resumeFrom` characters into the answer.
+ * A fresh (non-resumed) stream honours the script's `dropAfter`.
+ */
+function streamRecord(
+  store: MockStore,
+  record: MockStreamRecord,
+  { resumeFrom, chunkDelay, signal }: { resumeFrom: number | null; chunkDelay: number; signal: AbortSignal }
+): Response {
+  const encoder = new TextEncoder()
+  const isResume = resumeFrom !== null
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let eventId = 0
+      const send = async (payload: MockPayload) => {
+        if (signal.aborted) throw new DOMException('Aborted', 'AbortError')
+        controller.enqueue(encoder.encode(encodeEvent(++eventId, payload)))
+        await sleep(chunkDelay)
+      }
+
+      try {
+        if (!isResume) {
+          await send({ type: 'trace_id', trace_id: record.traceId })
+          if (record.userMessageId) {
+            await send({ type: 'user_message_id', message_id: record.userMessageId })
+          }
+          if (record.announceAssistantId) {
+            await send({ type: 'assistant_message_id', message_id: record.assistantMessageId })
+          }
+          for (const payload of record.script.prelude) {
+            await send(payload)
+          }
+        }
+
+        let offset = 0
+        for (const chunk of chunkAnswer(record.script.answer)) {
+          const end = offset + chunk.length
+          if (!isResume && record.script.dropAfter !== undefined && end > record.script.dropAfter) {
+            // Simulate the connection dropping mid-answer
+            controller.error(new TypeError('network error: mock connection dropped'))
+            return
+          }
+          if (!isResume || end > resumeFrom) {
+            await send({ type: 'content', content: chunk, offset })
+          }
+          offset = end
+        }
+
+        finishRecord(store, record)
+        for (const payload of record.script.epilogue) {
+          await send(payload)
+        }
+        controller.close()
+      } catch {
+        // The client went away; nothing left to send
+        try {
+          controller.close()
+        } catch {
+          // Already closed or errored
+        }
+      }
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  })
+}
+
+/** Persist the assistant side of a finished stream (once). */
+function finishRecord(store: MockStore, record: MockStreamRecord) {
+  if (record.completed) return
+  record.completed = true
+
+  const session = store.sessions.get(record.sessionId)
+  if (!session) return
+
+  // An error mid-answer means the backend never stored a reply
+  if (record.script.epilogue.some((payload) => payload.type === 'error')) return
+
+  const now = new Date().toISOString()
+  session.lastMessageAt = now
+
+  if (record.continueMessageId) {
+    const target = session.messages.find((message) => message.id === record.continueMessageId)
+    if (target) {
+      target.content += record.script.answer
+      target.traceId = record.traceId
+    }
+    return
+  }
+
+  const citations = record.script.epilogue.find((payload) => Array.isArray(payload.citations))?.citations as
+    | Citation[]
+    | undefined
+  session.messages.push({
+    id: record.assistantMessageId,
+    role: 'assistant',
+    content: record.script.answer,
+    createdAt: now,
+    parentId: record.assistantParentId,
+    traceId: record.traceId,
+    ...(citations?.length ? { citations } : {}),
+  })
+}
+
+// The active branch is the one holding the newest message. Messages without
+// a parent pointer (seeded or imported) follow the one stored before them.
+function withActiveFlags(messages: MockMessage[]) {
+  const indexById = new Map(messages.map((message, index) => [message.id, index]))
+  const active = new Set<string>()
+  let index: number | undefined = messages.length - 1
+  while (index !== undefined && index >= 0 && !active.has(messages[index].id)) {
+    const message: MockMessage = messages[index]
+    active.add(message.id)
+    index =
+      message.parentId === undefined
+        ? index - 1
+        : message.parentId === null
+          ? undefined
+          : indexById.get(message.parentId)
+  }
+  return messages.map((message) => ({ ...message, isActive: active.has(message.id) }))
+}
+
+// The requesting user's feedback, as the backend returns it with a session
+function withFeedback<T extends MockMessage>(store: MockStore, messages: T[], userId: string | null) {
+  return messages.map((message) => {
+    const entry = store.feedback.find((item) => item.message_id === message.id && item.clerk_user_id === userId)
+    if (!entry) return message
+    return {
+      ...message,
+      feedback: { type: entry.feedback_type, reasons: entry.reasons, comment: entry.comment },
+    }
+  })
+}
+
+async function handleChatStream(
+  store: MockStore,
+  request: Request,
+  chunkDelay: number
+): Promise<Response> {
+  const body = await readJson(request)
+  const message = stringField(body, 'message') ?? ''
+  const sessionId = stringField(body, 'session_id')
+  const session = sessionId ? store.sessions.get(sessionId) : undefined
+  if (!session) return notFound('Session not found')
+
+  // Reconnect after a dropped connection
+  const resumeToken = stringField(body, 'resume_token')
+  if (resumeToken) {
+    const record = store.streams.get(resumeToken)
+    if (!record) return notFound('Nothing to resume')
+    const resumeFrom = typeof body.resume_from === 'number' ? body.resume_from : 0
+    return streamRecord(store, record, { resumeFrom, chunkDelay, signal: request.signal })
+  }
+
+  const scenario = scenarioFor(message)
+  if (scenario === 'http-500') {
+    return json({ detail: 'Mock internal server error' }, 500)
+  }
+  if (scenario === 'rate-limit') {
+    return json({ detail: 'Too many requests' }, 429, { 'Retry-After': '2' })
+  }
+
+  // Replay instead of storing the same message twice
+  const clientMessageId = stringField(body, 'client_message_id')
+  const existingTraceId = clientMessageId ? store.streamsByClientId.get(clientMessageId) : undefined
+  const existing = existingTraceId ? store.streams.get(existingTraceId) : undefined
+  if (existing) {
+    return streamRecord(store, { ...existing, completed: true }, {
+      resumeFrom: null,
+      chunkDelay,
+      signal: request.signal,
+    })
+  }
+
+  const continueMessageId = stringField(body, 'continue_message_id')
+  const requestedAssistantId = stringField(body, 'assistant_message_id')
+  const script = continueMessageId
+    ? {
+        prelude: [],
+        answer: ' And that is the rest of the mock answer, picked up where it stopped.',
+        epilogue: [{ total_tokens: estimateTokens(session), done: true }],
+      }
+    : buildMockScript(scenario, estimateTokens(session) + Math.round(message.length / 4))
+  const ban = script.prelude.find((payload) => payload.type === 'ban')
+  if (ban) {
+    // A new restriction can be appealed again
+    store.appeals = store.appeals.filter((entry) => entry.clerk_user_id !== session.userId)
+    store.restrictions.set(session.userId, {
+      message: stringField(ban, 'message'),
+      expires_at: stringField(ban, 'expires_at'),
+      policy: (ban.policy as MockRestriction['policy']) ?? null,
+    })
+  }
+
+  // Without a pointer the turn follows the newest message
+  const previousMessageId =
+    stringField(body, 'previous_message_id') ?? session.messages[session.messages.length - 1]?.id ?? null
+  const isRegeneration = body.regeneration_type === 'regenerate'
+
+  // A regenerated answer reuses the existing question
+  let userMessageId: string | null = null
+  if (!continueMessageId && !isRegeneration) {
+    userMessageId = clientMessageId ?? createId('msg')
+    session.messages.push({
+      id: userMessageId,
+      role: 'user',
+      content: message,
+      clientId: clientMessageId ?? undefined,
+      createdAt: new Date().toISOString(),
+      parentId: previousMessageId,
+    })
+    session.lastMessageAt = new Date().toISOString()
+  }
+
+  const record: MockStreamRecord = {
+    traceId: createId('trace'),
+    sessionId: session.id,
+    script,
+    userMessageId,
+    assistantMessageId: continueMessageId ?? requestedAssistantId ?? createId('msg'),
+    assistantParentId: userMessageId ?? previousMessageId,
+    announceAssistantId: !continueMessageId && !requestedAssistantId,
+    continueMessageId,
+    completed: false,
+  }
+  store.streams.set(record.traceId, record)
+  if (clientMessageId) store.streamsByClientId.set(clientMessageId, record.traceId)
+
+  return streamRecord(store, record, { resumeFrom: null, chunkDelay, signal: request.signal })
+}
+
+// Users
+
+function userScores(): UserProfile {
+  return {
+    has_scores: true,
+    scores: MOCK_SCORES,
+    archetype: 'The Explorer',
+    profile_pattern: 'balanced',
+    subscriptionPlan: 'free',
+  }
+}
+
+function userAccount(userId: string) {
+  return {
+    user_id: userId,
+    clerk_user_id: userId,
+    user_name: 'Mock User',
+    email: 'mock.user@example.com',
+    has_assessment: true,
+    subscription_plan: 'free',
+  }
+}
+
+/**
+ * Route a request to the mock backend. `path` is the API path, e.g.
+ * `/api/sessions/abc`; the query string is read from `request.url`.
+ */
+export async function handleMockRequest(
+  request: Request,
+  path: string,
+  { store = getSharedMockStore(), chunkDelay = DEFAULT_CHUNK_DELAY }: MockRequestOptions = {}
+): Promise<Response> {
+  const url = new URL(request.url)
+  const method = request.method.toUpperCase()
+  const segments = path.split('/').filter(Boolean).map(decodeURIComponent)
+  const route = segments.join('/')
+  const userHeader = request.headers.get('X-User-ID')
+
+  if (method === 'POST' && route === 'api/chat/stream') {
+    return handleChatStream(store, request, chunkDelay)
+  }
+
+  if (method === 'POST' && route === 'api/chat/feedback') {
+    const body = await readJson(request)
+    const messageId = stringField(body, 'message_id')
+    if (!messageId) return json({ detail: 'message_id is required' }, 422)
+    const clerkUserId = stringField(body, 'clerk_user_id')
+    // One entry per message and user; giving feedback again replaces it
+    store.feedback = store.feedback.filter(
+      (entry) => !(entry.message_id === messageId && entry.clerk_user_id === clerkUserId)
+    )
+    store.feedback.push({
+      message_id: messageId,
+      feedback_type: stringField(body, 'feedback_type') ?? 'helpful',
+      reasons: Array.isArray(body.reasons) ? body.reasons.filter((reason) => typeof reason === 'string') : [],
+      comment: stringField(body, 'comment'),
+      trace_id: stringField(body, 'trace_id'),
+      session_id: stringField(body, 'session_id'),
+      clerk_user_id: clerkUserId,
+    })
+    return json({ success: true })
+  }
+
+  if (method === 'POST' && route === 'api/logs') {
+    const body = await readJson(request)
+    const entries = Array.isArray(body.entries) ? body.entries : []
+    store.logs.push(...entries)
+    return json({ accepted: entries.length }, 202)
+  }
+
+  const feedbackMessageId = route.startsWith('api/chat/feedback/') ? segments[3] : undefined
+  if (method === 'DELETE' && feedbackMessageId) {
+    store.feedback = store.feedback.filter(
+      (entry) => !(entry.message_id === feedbackMessageId && entry.clerk_user_id === userHeader)
+    )
+    return json({ success: true })
+  }
+
+  if (segments[0] === 'api' && segments[1] === 'moderation') {
+    if (!userHeader) return json({ detail: 'X-User-ID header is required' }, 401)
+    if (method === 'GET' && segments[2] === 'restriction') {
+      return restrictionStatus(store, userHeader)
+    }
+    if (method === 'POST' && segments[2] === 'appeals') {
+      return submitAppeal(store, userHeader, await readJson(request))
+    }
+  }
+
+  if (segments[0] === 'api' && segments[1] === 'shares') {
+    const shareId = segments[2]
+    if (method === 'POST' && !shareId) {
+      return createShare(store, userHeader, await readJson(request))
+    }
+
+    const share = shareId ? store.shares.get(shareId) : undefined
+    if (!share) return notFound('Share not found')
+    if (share.revoked) return json({ detail: 'This link has been revoked' }, 410)
+
+    if (method === 'GET') {
+      return json(publicShare(share))
+    }
+    if (method === 'DELETE') {
+      if (share.ownerId !== userHeader) return json({ detail: 'Not your share' }, 403)
+      share.revoked = true
+      return json({ success: true })
+    }
+  }
+
+  if (segments[0] === 'api' && segments[1] === 'sessions') {
+    const [, , first, second] = segments
+
+    if (method === 'POST' && !first) {
+      return createSession(store, await readJson(request))
+    }
+    if (method === 'POST' && first === 'import' && !second) {
+      return importSession(store, await readJson(request))
+    }
+    if (method === 'GET' && first === 'user' && second) {
+      return listSessions(store, second)
+    }
+    if (method === 'GET' && first === 'search' && second) {
+      return searchSessions(store, second, url)
+    }
+
+    const session = first ? store.sessions.get(first) : undefined
+    // Someone else's session is reported as missing, so IDs can't be probed
+    if (!session || (userHeader && session.userId !== userHeader)) return notFound('Session not found')
+
+    if (method === 'GET' && !second) {
+      return json({
+        ...sessionSummary(session),
+        messages: withFeedback(store, withActiveFlags(session.messages), userHeader),
+        total_tokens: session.messages.length > 0 ? estimateTokens(session) : null,
+        compression: session.compression ?? null,
+      })
+    }
+    if (method === 'DELETE' && !second) {
+      store.sessions.delete(session.id)
+      return json({ success: true })
+    }
+    if (method === 'POST' && second === 'generate-title') {
+      return generateTitle(store, session, await readJson(request))
+    }
+    if (method === 'POST' && second === 'compress') {
+      return compressSession(store, session)
+    }
+  }
+
+  if (segments[0] === 'api' && segments[1] === 'users') {
+    const [, , first, second] = segments
+
+    // Main app endpoints, keyed by the X-User-ID header
+    if (first === 'profile' && method === 'GET') {
+      return json({ currentSessionId: null })
+    }
+    if (first === 'theme') {
+      if (!userHeader) return json({ detail: 'X-User-ID header is required' }, 401)
+      if (method === 'PUT') {
+        const theme = stringField(await readJson(request), 'theme')
+        if (theme) store.themes.set(userHeader, theme)
+        return json({ theme })
+      }
+      return json({ theme: store.themes.get(userHeader) ?? null })
+    }
+
+    if (method === 'GET' && first && second === 'scores') {
+      return json(userScores())
+    }
+    if (method === 'GET' && first && !second) {
+      return json(userAccount(first))
+    }
+  }
+
+  return notFound(`No mock for ${method} ${path}`)
+}
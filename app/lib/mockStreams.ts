@@ -0,0 +1,179 @@
+import type { Citation } from '../components/SourceCitations'
+import type { ThinkingStatus } from '../components/ThinkingIndicator'
+
+/**
+ * Scripted chat streams for the mock backend.
+ *
+ * A message starting with `mock:<scenario>` picks the script; anything else
+ * gets the default answer. Every script is a list of wire payloads in the
+ * shapes documented in `streamProtocol.ts`, so each client stream path can be
+ * exercised deterministically:
+ *
+ * | Scenario           | Behaviour                                               |
+ * |--------------------|---------------------------------------------------------|
+ * | (default)          | statuses, content, citations, tokens, done              |
+ * | `mock:ban`         | 15-minute `ban` event followed by an explanation        |
+ * | `mock:warning`     | `warning` event, then a normal answer                   |
+ * | `mock:error`       | partial content, then an `error` event                  |
+ * | `mock:compression` | normal answer that asks for context compression         |
+ * | `mock:drop`        | connection closes halfway; resuming finishes the answer |
+ * | `mock:http-500`    | request fails with 500                                  |
+ * | `mock:rate-limit`  | request fails with 429 and `Retry-After: 2`             |
+ */
+
+export type MockScenario =
+  | 'default'
+  | 'ban'
+  | 'warning'
+  | 'error'
+  | 'compression'
+  | 'drop'
+  | 'http-500'
+  | 'rate-limit'
+
+const SCENARIOS = new Set<MockScenario>([
+  'default',
+  'ban',
+  'warning',
+  'error',
+  'compression',
+  'drop',
+  'http-500',
+  'rate-limit',
+])
+
+/** One SSE `data:` payload, exactly as the backend would send it. */
+export type MockPayload = Record<string, unknown>
+
+export interface MockScript {
+  /** Payloads sent before the answer text (statuses, bans, warnings). */
+  prelude: MockPayload[]
+  /** The full answer, streamed as offset-tagged content chunks. */
+  answer: string
+  /** Payloads sent after the answer text. */
+  epilogue: MockPayload[]
+  /** Close the connection after this many answer characters (first request only). */
+  dropAfter?: number
+}
+
+export const MOCK_CITATIONS: Citation[] = [
+  {
+    title: 'The Eight SELVE Dimensions',
+    source: 'selve_web',
+    type: 'selve_web',
+    url: 'https://selve.me/dimensions',
+    relevance: 92,
+  },
+  {
+    title: 'Understanding Personality Traits',
+    source: 'youtube',
+    type: 'youtube',
+    channel: 'SELVE',
+    video_id: 'dQw4w9WgXcQ',
+    url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    start_time: 95,
+    relevance: 78,
+  },
+]
+
+const DEFAULT_ANSWER = [
+  'Here is a mock answer from the local development backend.',
+  '',
+  'Your **LUMEN** score reflects how you draw energy from social situations [1], ',
+  'while **ORIN** describes how you organise your day [^dQw4w9WgXcQ]. ',
+  'Nothing here comes from a real model, so feel free to iterate on the UI.',
+].join('\n')
+
+function status(value: ThinkingStatus['status'], message: string, details: ThinkingStatus['details'] = {}): MockPayload {
+  return { type: 'status', status: value, message, details }
+}
+
+const THINKING: MockPayload[] = [
+  status('security_check', 'Checking message safety...', { phase: 1, total_phases: 3, intent: 'personality_question' }),
+  status('calling_tools', 'Looking up your scores...', { phase: 2, total_phases: 3, tools_used: ['get_user_scores'] }),
+  status('executing_tool', 'Running get_user_scores...', {
+    phase: 2,
+    total_phases: 3,
+    tool_name: 'get_user_scores',
+    tool_args: { dimensions: ['LUMEN', 'ORIN'] },
+  }),
+  status('rag_searching', 'Searching the SELVE knowledge base...', {
+    phase: 2,
+    total_phases: 3,
+    sources: MOCK_CITATIONS.map(({ title, source }) => ({ title, source })),
+  }),
+  status('generating', 'Writing the answer...', { phase: 3, total_phases: 3, model: 'mock-model' }),
+]
+
+/** Scenario requested by a `mock:<scenario>` prefix, or `default`. */
+export function scenarioFor(message: string): MockScenario {
+  const match = /^mock:([a-z0-9-]+)/i.exec(message.trim())
+  const requested = match?.[1].toLowerCase() as MockScenario | undefined
+  return requested && SCENARIOS.has(requested) ? requested : 'default'
+}
+
+export function buildMockScript(scenario: MockScenario, totalTokens: number): MockScript {
+  const done: MockPayload[] = [
+    { citations: MOCK_CITATIONS, total_tokens: totalTokens, done: true },
+  ]
+
+  switch (scenario) {
+    case 'ban':
+      return {
+        prelude: [
+          {
+            type: 'ban',
+            message: 'You have been temporarily restricted.',
+            expires_at: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
+            policy: {
+              id: 'harassment',
+              title: 'Harassment and abuse',
+              description: 'Messages that insult, threaten or demean others are not allowed.',
+            },
+          },
+        ],
+        answer: 'Your account is temporarily restricted because of repeated policy violations.',
+        epilogue: [{ done: true }],
+      }
+
+    case 'warning':
+      return {
+        prelude: [
+          { type: 'warning', message: 'Please keep the conversation respectful.' },
+          ...THINKING,
+        ],
+        answer: DEFAULT_ANSWER,
+        epilogue: done,
+      }
+
+    case 'error':
+      return {
+        prelude: THINKING,
+        answer: DEFAULT_ANSWER.slice(0, 60),
+        epilogue: [{ type: 'error', message: 'Mock backend failed mid-answer.' }],
+      }
+
+    case 'compression':
+      return {
+        prelude: THINKING,
+        answer: DEFAULT_ANSWER,
+        epilogue: [{ compression_needed: true }, ...done],
+      }
+
+    case 'drop':
+      return {
+        prelude: THINKING,
+        answer: DEFAULT_ANSWER,
+        epilogue: done,
+        dropAfter: Math.floor(DEFAULT_ANSWER.length / 2),
+      }
+
+    default:
+      return { prelude: THINKING, answer: DEFAULT_ANSWER, epilogue: done }
+  }
+}
+
+/** Split an answer into word-sized chunks, the way the model streams it. */
+export function chunkAnswer(answer: string): string[] {
+  return answer.match(/\S+\s*|\s+/g) ?? []
+}
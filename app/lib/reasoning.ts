@@ -0,0 +1,93 @@
+import type { ThinkingStatus } from '../components/ThinkingIndicator'
+
+/**
+ * Reasoning Timeline
+ *
+ * The backend reports its progress as `status` events (searching, calling
+ * tools, generating...). These helpers keep the whole sequence for an answer
+ * instead of only the latest event: every step records when it started and
+ * ends when the next one starts, or when the answer text begins.
+ */
+
+export interface ReasoningStep extends ThinkingStatus {
+  /** Epoch milliseconds. */
+  startedAt: number
+  endedAt: number | null
+}
+
+export interface ReasoningPhase {
+  phase: number | null
+  totalPhases: number | null
+  steps: ReasoningStep[]
+  durationMs: number | null
+}
+
+export interface ReasoningSource {
+  title: string
+  source: string
+}
+
+// Closing markers, not steps of their own
+const TERMINAL_STATUSES = new Set<ThinkingStatus['status']>(['complete'])
+
+/** Close the step still running, if any. */
+export function finishReasoning(steps: ReasoningStep[], at: number): ReasoningStep[] {
+  const last = steps[steps.length - 1]
+  if (!last || last.endedAt !== null) return steps
+  return [...steps.slice(0, -1), { ...last, endedAt: Math.max(at, last.startedAt) }]
+}
+
+/** Append a status event as a new step, ending the previous one. */
+export function recordReasoningStep(steps: ReasoningStep[], status: ThinkingStatus, at: number): ReasoningStep[] {
+  const finished = finishReasoning(steps, at)
+  if (TERMINAL_STATUSES.has(status.status)) return finished
+  return [...finished, { ...status, startedAt: at, endedAt: null }]
+}
+
+export function stepDuration(step: ReasoningStep): number | null {
+  return step.endedAt === null ? null : step.endedAt - step.startedAt
+}
+
+/**
+ * Group steps into the backend's numbered phases. Steps without a phase
+ * number belong to the phase before them.
+ */
+export function reasoningPhases(steps: ReasoningStep[]): ReasoningPhase[] {
+  const phases: ReasoningPhase[] = []
+  steps.forEach((step) => {
+    const phase = step.details?.phase ?? null
+    const current = phases[phases.length - 1]
+    if (current && (phase === null || phase === current.phase)) {
+      current.steps.push(step)
+    } else {
+      phases.push({ phase, totalPhases: step.details?.total_phases ?? null, steps: [step], durationMs: null })
+    }
+  })
+
+  return phases.map((phase) => {
+    const durations = phase.steps.map(stepDuration)
+    const complete = durations.every((duration) => duration !== null)
+    return {
+      ...phase,
+      durationMs: complete ? durations.reduce<number>((sum, duration) => sum + (duration ?? 0), 0) : null,
+    }
+  })
+}
+
+/** Every source the steps reported, without duplicates. */
+export function reasoningSources(steps: ReasoningStep[]): ReasoningSource[] {
+  const seen = new Set<string>()
+  return steps.flatMap((step) =>
+    (step.details?.sources ?? []).filter((source) => {
+      const key = `${source.source}:${source.title}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  )
+}
+
+/** `420 ms` or `1.3 s`. */
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`
+}
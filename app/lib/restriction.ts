@@ -0,0 +1,93 @@
+/**
+ * Account Restrictions
+ *
+ * The backend restricts users who repeatedly break the usage policies: a
+ * `ban` stream event starts the restriction and `/api/moderation/restriction`
+ * reports the current one, so it survives a reload. A restriction without an
+ * expiry lasts until moderation lifts it. Restricted users may appeal once
+ * per restriction.
+ */
+
+export interface RestrictionPolicy {
+  id: string
+  title: string
+  description?: string
+}
+
+export type AppealStatus = 'pending' | 'approved' | 'rejected'
+
+export interface RestrictionAppeal {
+  status: AppealStatus
+  submittedAt?: string
+}
+
+export interface Restriction {
+  message: string | null
+  /** ISO timestamp; null while moderation hasn't set an end. */
+  expiresAt: string | null
+  /** The policy that was triggered, when the backend says. */
+  policy: RestrictionPolicy | null
+  appeal: RestrictionAppeal | null
+}
+
+export const MAX_APPEAL_LENGTH = 2000
+
+const APPEAL_STATUSES = new Set<string>(['pending', 'approved', 'rejected'])
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value : null
+}
+
+export function parseRestrictionPolicy(value: unknown): RestrictionPolicy | null {
+  if (typeof value !== 'object' || value === null) return null
+  const { id, title, description } = value as Record<string, unknown>
+  const policyId = optionalString(id)
+  const policyTitle = optionalString(title)
+  if (!policyId || !policyTitle) return null
+  const policyDescription = optionalString(description)
+  return { id: policyId, title: policyTitle, ...(policyDescription ? { description: policyDescription } : {}) }
+}
+
+export function parseAppeal(value: unknown): RestrictionAppeal | null {
+  if (typeof value !== 'object' || value === null) return null
+  const { status, submitted_at } = value as Record<string, unknown>
+  if (typeof status !== 'string' || !APPEAL_STATUSES.has(status)) return null
+  const submittedAt = optionalString(submitted_at)
+  return { status: status as AppealStatus, ...(submittedAt ? { submittedAt } : {}) }
+}
+
+/** The restriction in a moderation status payload, or null when there is none. */
+export function parseRestriction(value: unknown): Restriction | null {
+  if (typeof value !== 'object' || value === null) return null
+  const { restricted, message, expires_at, policy, appeal } = value as Record<string, unknown>
+  if (restricted !== true) return null
+  return {
+    message: optionalString(message),
+    expiresAt: optionalString(expires_at),
+    policy: parseRestrictionPolicy(policy),
+    appeal: parseAppeal(appeal),
+  }
+}
+
+/** Milliseconds until the restriction ends, or null when it has no end. */
+export function restrictionRemainingMs(restriction: Restriction, now: number): number | null {
+  if (!restriction.expiresAt) return null
+  const expiresAt = Date.parse(restriction.expiresAt)
+  if (Number.isNaN(expiresAt)) return null
+  return Math.max(0, expiresAt - now)
+}
+
+/** `0:42`, `14:05`, `2:03:09` or `3d 4h`. */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000)
+  const days = Math.floor(totalSeconds / 86400)
+  const hours = Math.floor((totalSeconds % 86400) / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  if (days > 0) return `${days}d ${hours}h`
+
+  const paddedSeconds = String(seconds).padStart(2, '0')
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${paddedSeconds}`
+    : `${minutes}:${paddedSeconds}`
+}
@@ -0,0 +1,43 @@
+/**
+ * Session URLs
+ *
+ * Each saved conversation lives at `/c/<sessionId>`; `/` is a new, unsaved
+ * chat. Switching sessions updates the address bar with the History API
+ * rather than the Next.js router, so the chat page (and its in-flight state)
+ * stays mounted while the URL changes. Back and forward are handled by
+ * `useChat` listening to `popstate`.
+ */
+
+const SESSION_PATH_PREFIX = '/c/'
+
+export function sessionPath(sessionId: string | null): string {
+  return sessionId ? `${SESSION_PATH_PREFIX}${encodeURIComponent(sessionId)}` : '/'
+}
+
+/** The session ID in a pathname, or null for any other page. */
+export function sessionIdFromPath(pathname: string): string | null {
+  if (!pathname.startsWith(SESSION_PATH_PREFIX)) return null
+  const segment = pathname.slice(SESSION_PATH_PREFIX.length).replace(/\/$/, '')
+  if (!segment || segment.includes('/')) return null
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Point the address bar at a session (or `/` for a new chat). Does nothing
+ * when it already shows that URL, so repeated calls don't stack history.
+ */
+export function navigateToSession(sessionId: string | null, { replace = false }: { replace?: boolean } = {}) {
+  if (typeof window === 'undefined') return
+  const path = sessionPath(sessionId)
+  if (window.location.pathname === path) return
+
+  if (replace) {
+    window.history.replaceState(null, '', path)
+  } else {
+    window.history.pushState(null, '', path)
+  }
+}
@@ -0,0 +1,146 @@
+import type { Citation } from '../components/SourceCitations'
+import type { Message, MessageCitations, SelveScores } from '../hooks/useChat'
+
+/**
+ * Conversation Sharing
+ *
+ * A share is a read-only snapshot of a session stored by the backend under a
+ * share ID and served at `/share/<shareId>`. Snapshots are redacted before
+ * they leave the browser: the owner's name and their SELVE scores are
+ * replaced with placeholders. The share page runs the score redaction again
+ * when rendering, so older or hand-made snapshots can't leak scores either.
+ */
+
+export interface SharedMessage {
+  role: Message['role']
+  content: string
+  citations?: Citation[]
+}
+
+export interface CreateShareRequest {
+  session_id: string
+  title: string
+  messages: SharedMessage[]
+}
+
+export interface SharedConversation {
+  share_id: string
+  title: string
+  created_at: string
+  messages: SharedMessage[]
+}
+
+export const NAME_PLACEHOLDER = '[name]'
+export const SCORE_PLACEHOLDER = '[score]'
+
+const DIMENSIONS: Array<keyof SelveScores> = [
+  'LUMEN',
+  'AETHER',
+  'ORPHEUS',
+  'ORIN',
+  'LYRA',
+  'VARA',
+  'CHRONOS',
+  'KAEL',
+]
+
+// "LUMEN: 72", "LUMEN score of 72/100", "ORIN (45%)"
+const SCORE_PATTERN = new RegExp(
+  `\\b(${DIMENSIONS.join('|')})\\b([^\\n\\d]{0,24}?)\\d{1,3}(?:\\.\\d+)?(?:\\s*(?:%|/\\s*100|out of 100|points?\\b))?`,
+  'gi'
+)
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Replace numeric dimension scores mentioned next to a dimension name. */
+export function redactScores(text: string): string {
+  return text.replace(SCORE_PATTERN, (_match, dimension: string, between: string) =>
+    `${dimension}${between}${SCORE_PLACEHOLDER}`
+  )
+}
+
+/** Replace each name (whole words, any case) with a placeholder. */
+export function redactNames(text: string, names: Array<string | null | undefined>): string {
+  const cleaned = names
+    .map((name) => name?.trim())
+    .filter((name): name is string => !!name && name.length > 1)
+    // Longest first, so "Ada Lovelace" wins over "Ada"
+    .sort((a, b) => b.length - a.length)
+
+  return cleaned.reduce((result, name) => {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name)}(?![\\p{L}\\p{N}])`, 'giu')
+    return result.replace(pattern, NAME_PLACEHOLDER)
+  }, text)
+}
+
+export function redactForSharing(text: string, names: Array<string | null | undefined> = []): string {
+  return redactScores(redactNames(text, names))
+}
+
+interface BuildShareOptions {
+  sessionId: string
+  title?: string | null
+  messages: Message[]
+  messageCitations?: MessageCitations
+  /** The owner's names (full, first, username), removed from the snapshot. */
+  ownerNames?: Array<string | null | undefined>
+}
+
+/** Redacted snapshot of the delivered part of a conversation. */
+export function buildShareRequest({
+  sessionId,
+  title,
+  messages,
+  messageCitations = {},
+  ownerNames = [],
+}: BuildShareOptions): CreateShareRequest {
+  const shared = messages.flatMap((message): SharedMessage[] => {
+    if (message.status === 'failed' || message.status === 'pending') return []
+    const citations = message.id ? messageCitations[message.id] : undefined
+    return [
+      {
+        role: message.role,
+        content: redactForSharing(message.content, ownerNames),
+        ...(citations?.length ? { citations } : {}),
+      },
+    ]
+  })
+
+  return {
+    session_id: sessionId,
+    title: redactForSharing(title?.trim() || 'Shared conversation', ownerNames),
+    messages: shared,
+  }
+}
+
+export function shareUrl(shareId: string, origin: string = window.location.origin): string {
+  return `${origin.replace(/\/$/, '')}/share/${encodeURIComponent(shareId)}`
+}
+
+// Links the owner created, so they can be revoked later from this browser
+const SHARES_STORAGE_KEY = 'selve_chat_shares'
+
+function readShares(): Record<string, string> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SHARES_STORAGE_KEY) || '{}')
+    return typeof stored === 'object' && stored !== null ? stored : {}
+  } catch {
+    return {}
+  }
+}
+
+export function getStoredShareId(sessionId: string): string | null {
+  return readShares()[sessionId] ?? null
+}
+
+export function storeShareId(sessionId: string, shareId: string | null) {
+  const shares = readShares()
+  if (shareId) {
+    shares[sessionId] = shareId
+  } else {
+    delete shares[sessionId]
+  }
+  localStorage.setItem(SHARES_STORAGE_KEY, JSON.stringify(shares))
+}
@@ -0,0 +1,383 @@
+import type { ThinkingStatus } from '../components/ThinkingIndicator'
+import type { Citation } from '../components/SourceCitations'
+import { parseRestrictionPolicy, RestrictionPolicy } from './restriction'
+
+/**
+ * Chat Stream Protocol
+ *
+ * Single source of truth for the server-sent events emitted by
+ * `/api/chat/stream`. Raw `data:` payloads are validated here and turned into
+ * a discriminated union, so consumers switch on `event.type` instead of
+ * probing `parsed.content || parsed.chunk` and friends.
+ *
+ * Wire shapes (one JSON object per `data:` line):
+ *
+ * | Event                  | Payload                                                   |
+ * |------------------------|-----------------------------------------------------------|
+ * | `ban`                  | `{ type: 'ban', message?, expires_at?, policy? }`         |
+ * | `warning`              | `{ type: 'warning', message? }`                           |
+ * | `error`                | `{ type: 'error', message? }`                             |
+ * | `trace_id`             | `{ type: 'trace_id', trace_id }`                          |
+ * | `user_message_id`      | `{ type: 'user_message_id', message_id }`                 |
+ * | `assistant_message_id` | `{ type: 'assistant_message_id', message_id }`            |
+ * | `status`               | `{ type: 'status', status, message?, details? }`          |
+ * | `content`              | `{ content, offset? }` or legacy `{ chunk }`              |
+ * | `citations`            | `{ citations: Citation[] }`                               |
+ * | `compression`          | `{ compression_needed: true }`                            |
+ * | `tokens`               | `{ total_tokens }`                                        |
+ * | `done`                 | `{ done: true }`                                          |
+ *
+ * The backend is allowed to fold several of these into one payload (the final
+ * chunk usually carries `citations`, `total_tokens` and `done` together), so a
+ * single payload can yield more than one event. Events are emitted in the
+ * order above.
+ *
+ * Resumable streams additionally prefix events with an SSE `id:` line and tag
+ * content chunks with their character `offset` in the full answer, which lets
+ * the client reconnect with `Last-Event-ID` and drop text it already has.
+ */
+
+export interface BanEvent {
+  type: 'ban'
+  message: string | null
+  expires_at: string | null
+  /** `{ id, title, description? }` of the policy that was triggered. */
+  policy: RestrictionPolicy | null
+}
+
+export interface WarningEvent {
+  type: 'warning'
+  message: string | null
+}
+
+export interface ErrorEvent {
+  type: 'error'
+  message: string | null
+}
+
+export interface TraceIdEvent {
+  type: 'trace_id'
+  trace_id: string
+}
+
+export interface UserMessageIdEvent {
+  type: 'user_message_id'
+  message_id: string
+}
+
+/**
+ * Sent by backends that store the answer under their own ID instead of the
+ * client-minted `assistant_message_id` from the request.
+ */
+export interface AssistantMessageIdEvent {
+  type: 'assistant_message_id'
+  message_id: string
+}
+
+export interface StatusEvent {
+  type: 'status'
+  status: ThinkingStatus['status']
+  message: string | null
+  details: NonNullable<ThinkingStatus['details']>
+}
+
+export interface ContentEvent {
+  type: 'content'
+  content: string
+  /** Character offset of this chunk within the full answer, when known. */
+  offset?: number
+}
+
+export interface CitationsEvent {
+  type: 'citations'
+  citations: Citation[]
+}
+
+export interface CompressionEvent {
+  type: 'compression'
+  compression_needed: true
+}
+
+export interface TokensEvent {
+  type: 'tokens'
+  total_tokens: number
+}
+
+export interface DoneEvent {
+  type: 'done'
+}
+
+export type StreamEvent =
+  | BanEvent
+  | WarningEvent
+  | ErrorEvent
+  | TraceIdEvent
+  | UserMessageIdEvent
+  | AssistantMessageIdEvent
+  | StatusEvent
+  | ContentEvent
+  | CitationsEvent
+  | CompressionEvent
+  | TokensEvent
+  | DoneEvent
+
+export type StreamEventType = StreamEvent['type']
+
+export interface StreamProtocolIssue {
+  kind: 'malformed_json' | 'unknown_event' | 'invalid_field'
+  message: string
+  raw: string
+}
+
+export interface ParsedStreamPayload {
+  events: StreamEvent[]
+  issues: StreamProtocolIssue[]
+}
+
+/** Payload `type` values that map directly onto an event. */
+const TYPED_EVENTS = new Set<string>([
+  'ban',
+  'warning',
+  'error',
+  'trace_id',
+  'user_message_id',
+  'assistant_message_id',
+  'status',
+  'content',
+  'citations',
+  'compression',
+  'tokens',
+  'done',
+])
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null
+}
+
+function isCitation(value: unknown): value is Citation {
+  return (
+    isRecord(value) &&
+    typeof value.title === 'string' &&
+    typeof value.source === 'string'
+  )
+}
+
+/**
+ * Parse a single SSE `data:` payload into zero or more typed events.
+ *
+ * Never throws: malformed JSON, unknown event types and fields with the wrong
+ * shape are reported in `issues` so callers can log them.
+ */
+export function parseStreamPayload(data: string): ParsedStreamPayload {
+  const events: StreamEvent[] = []
+  const issues: StreamProtocolIssue[] = []
+
+  const report = (kind: StreamProtocolIssue['kind'], message: string) => {
+    issues.push({ kind, message, raw: data })
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(data)
+  } catch {
+    report('malformed_json', 'Payload is not valid JSON')
+    return { events, issues }
+  }
+
+  if (!isRecord(parsed)) {
+    report('malformed_json', 'Payload is not a JSON object')
+    return { events, issues }
+  }
+
+  const type = typeof parsed.type === 'string' ? parsed.type : null
+
+  if (type === 'ban') {
+    events.push({
+      type: 'ban',
+      message: optionalString(parsed.message),
+      expires_at: optionalString(parsed.expires_at),
+      policy: parseRestrictionPolicy(parsed.policy),
+    })
+  }
+
+  if (type === 'warning') {
+    events.push({ type: 'warning', message: optionalString(parsed.message) })
+  }
+
+  if (type === 'error') {
+    events.push({ type: 'error', message: optionalString(parsed.message) })
+  }
+
+  if (type === 'trace_id') {
+    const traceId = optionalString(parsed.trace_id)
+    if (traceId) {
+      events.push({ type: 'trace_id', trace_id: traceId })
+    } else {
+      report('invalid_field', 'trace_id event without a trace_id')
+    }
+  }
+
+  if (type === 'user_message_id') {
+    const messageId = optionalString(parsed.message_id)
+    if (messageId) {
+      events.push({ type: 'user_message_id', message_id: messageId })
+    } else {
+      report('invalid_field', 'user_message_id event without a message_id')
+    }
+  }
+
+  if (type === 'assistant_message_id') {
+    const messageId = optionalString(parsed.message_id)
+    if (messageId) {
+      events.push({ type: 'assistant_message_id', message_id: messageId })
+    } else {
+      report('invalid_field', 'assistant_message_id event without a message_id')
+    }
+  }
+
+  if (type === 'status') {
+    if (parsed.details !== undefined && !isRecord(parsed.details)) {
+      report('invalid_field', 'status.details must be an object')
+    }
+    events.push({
+      type: 'status',
+      status: (optionalString(parsed.status) ?? 'generating') as ThinkingStatus['status'],
+      message: optionalString(parsed.message),
+      details: isRecord(parsed.details) ? (parsed.details as StatusEvent['details']) : {},
+    })
+  }
+
+  const content = parsed.content ?? parsed.chunk
+  if (content !== undefined && content !== null) {
+    if (typeof content !== 'string') {
+      report('invalid_field', 'content must be a string')
+    } else if (content) {
+      if (parsed.offset !== undefined && (typeof parsed.offset !== 'number' || parsed.offset < 0)) {
+        report('invalid_field', 'content offset must be a non-negative number')
+        events.push({ type: 'content', content })
+      } else {
+        events.push(
+          typeof parsed.offset === 'number'
+            ? { type: 'content', content, offset: parsed.offset }
+            : { type: 'content', content }
+        )
+      }
+    }
+  }
+
+  if (parsed.citations !== undefined && parsed.citations !== null) {
+    if (!Array.isArray(parsed.citations)) {
+      report('invalid_field', 'citations must be an array')
+    } else {
+      const citations = parsed.citations.filter(isCitation)
+      if (citations.length !== parsed.citations.length) {
+        report(
+          'invalid_field',
+          `Dropped ${parsed.citations.length - citations.length} citation(s) without title/source`
+        )
+      }
+      if (citations.length > 0) {
+        events.push({ type: 'citations', citations })
+      }
+    }
+  }
+
+  if (parsed.compression_needed === true) {
+    events.push({ type: 'compression', compression_needed: true })
+  }
+
+  if (parsed.total_tokens !== undefined && parsed.total_tokens !== null) {
+    if (typeof parsed.total_tokens === 'number' && Number.isFinite(parsed.total_tokens)) {
+      if (parsed.total_tokens > 0) {
+        events.push({ type: 'tokens', total_tokens: parsed.total_tokens })
+      }
+    } else {
+      report('invalid_field', 'total_tokens must be a number')
+    }
+  }
+
+  if (parsed.done === true || type === 'done') {
+    events.push({ type: 'done' })
+  }
+
+  if (events.length === 0 && issues.length === 0) {
+    report(
+      'unknown_event',
+      type && !TYPED_EVENTS.has(type)
+        ? `Unknown event type "${type}"`
+        : 'Payload did not match any known event'
+    )
+  }
+
+  return { events, issues }
+}
+
+interface StreamDecoderHandlers {
+  onEvent: (event: StreamEvent) => void
+  onIssue?: (issue: StreamProtocolIssue) => void
+}
+
+export interface StreamDecoder {
+  /** Feed a decoded text chunk; complete lines are parsed immediately. */
+  push: (chunk: string) => void
+  /** Parse whatever is left in the buffer once the stream has ended. */
+  flush: () => void
+  /** Most recent SSE `id:` seen, for reconnecting with `Last-Event-ID`. */
+  readonly lastEventId: string | null
+}
+
+/**
+ * Incremental SSE decoder.
+ *
+ * Buffers partial lines across network chunks and hands every complete
+ * `data:` line to `parseStreamPayload`. `id:` lines are remembered as the last
+ * event ID. Comments, blank lines and the `[DONE]` sentinel are ignored.
+ */
+export function createStreamDecoder({ onEvent, onIssue }: StreamDecoderHandlers): StreamDecoder {
+  let buffer = ''
+  let lastEventId: string | null = null
+
+  const processLine = (line: string) => {
+    const trimmedLine = line.trim()
+
+    if (trimmedLine.startsWith('id:')) {
+      const id = trimmedLine.slice(3).trim()
+      // Per the SSE spec, IDs containing NULL are ignored
+      if (id && !id.includes('\0')) {
+        lastEventId = id
+      }
+      return
+    }
+
+    if (!trimmedLine.startsWith('data:')) return
+
+    const data = trimmedLine.slice(5).trim()
+    if (!data || data === '[DONE]') return
+
+    const { events, issues } = parseStreamPayload(data)
+    issues.forEach((issue) => onIssue?.(issue))
+    events.forEach(onEvent)
+  }
+
+  return {
+    push(chunk: string) {
+      buffer += chunk
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      lines.forEach(processLine)
+    },
+    flush() {
+      if (buffer.trim()) {
+        processLine(buffer)
+      }
+      buffer = ''
+    },
+    get lastEventId() {
+      return lastEventId
+    },
+  }
+}
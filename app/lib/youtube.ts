@@ -0,0 +1,62 @@
+import type { Citation } from '../components/SourceCitations'
+
+/**
+ * YouTube Citations
+ *
+ * Helpers for playing a cited video inside the chat. Embeds use the
+ * privacy-enhanced youtube-nocookie.com player and start at the cited
+ * segment when the backend sends `start_time` (or the URL carries `t=`).
+ */
+
+const VIDEO_ID_PATTERN = /^[\w-]{11}$/
+
+/** The citation's video ID, if it is a YouTube citation with a usable one. */
+export function youtubeVideoId(citation: Citation): string | null {
+  const isYouTube = (citation.type ?? citation.source) === 'youtube'
+  if (!isYouTube || !citation.video_id) return null
+  return VIDEO_ID_PATTERN.test(citation.video_id) ? citation.video_id : null
+}
+
+// `90`, `90s` or `1h2m30s`, as used by YouTube's `t` parameter
+function parseTimestamp(value: string): number | null {
+  if (/^\d+s?$/.test(value)) return parseInt(value, 10)
+  const match = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/.exec(value)
+  if (!match || !value) return null
+  const [, hours = '0', minutes = '0', seconds = '0'] = match
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)
+}
+
+/** Seconds into the video where the cited segment starts, or null. */
+export function youtubeStartSeconds(citation: Citation): number | null {
+  if (typeof citation.start_time === 'number' && Number.isFinite(citation.start_time) && citation.start_time > 0) {
+    return Math.floor(citation.start_time)
+  }
+  if (!citation.url) return null
+  try {
+    const params = new URL(citation.url).searchParams
+    const seconds = parseTimestamp(params.get('t') ?? params.get('start') ?? '')
+    return seconds && seconds > 0 ? seconds : null
+  } catch {
+    return null
+  }
+}
+
+export function youtubeEmbedUrl(videoId: string, startSeconds: number | null): string {
+  const params = new URLSearchParams({ autoplay: '1', rel: '0', modestbranding: '1' })
+  if (startSeconds) params.set('start', String(startSeconds))
+  return `https://www.youtube-nocookie.com/embed/${videoId}?${params}`
+}
+
+export function youtubeWatchUrl(videoId: string, startSeconds: number | null): string {
+  const params = new URLSearchParams({ v: videoId })
+  if (startSeconds) params.set('t', `${startSeconds}s`)
+  return `https://www.youtube.com/watch?${params}`
+}
+
+/** `m:ss` or `h:mm:ss`, the way YouTube shows timestamps. */
+export function formatTimestamp(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, '0')
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`
+}
@@ -0,0 +1,25 @@
+import { handleMockRequest, isMockApiEnabled } from '../../lib/mockBackend'
+
+/**
+ * Mock chat backend, enabled with `MOCK_API=true` (see `lib/mockBackend.ts`).
+ * Everything under `/mock-api` maps onto the backend's own paths, so
+ * `/mock-api/api/sessions/abc` answers like `GET /api/sessions/abc`.
+ */
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: Promise<{ path: string[] }> }
+
+async function handle(request: Request, { params }: RouteContext): Promise<Response> {
+  if (!isMockApiEnabled()) {
+    return new Response('Not found', { status: 404 })
+  }
+
+  const { path } = await params
+  const chunkDelay = parseInt(process.env.MOCK_API_CHUNK_DELAY_MS ?? '', 10)
+  return handleMockRequest(request, `/${path.join('/')}`, {
+    chunkDelay: chunkDelay >= 0 ? chunkDelay : undefined,
+  })
+}
+
+export { handle as GET, handle as POST, handle as PUT, handle as DELETE }
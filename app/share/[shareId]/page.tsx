@@ -0,0 +1,13 @@
+import type { Metadata } from 'next'
+import SharedConversationView from '../../components/SharedConversationView'
+
+export const metadata: Metadata = {
+  title: 'Shared conversation | SELVE Chat',
+  // Shared links are unlisted
+  robots: { index: false, follow: false },
+}
+
+export default async function SharePage({ params }: { params: Promise<{ shareId: string }> }) {
+  const { shareId } = await params
+  return <SharedConversationView shareId={shareId} />
+}
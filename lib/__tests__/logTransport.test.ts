@@ -0,0 +1,228 @@
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { LogEntry, LogLevel } from "../logger";
+import { indexedDbLogStorage, LogTransport, memoryLogStorage } from "../logTransport";
+
+function entry(message: string, level: LogLevel = "warn", timestamp = new Date().toISOString()): LogEntry {
+  return { timestamp, level, message };
+}
+
+function stubFetch(...statuses: number[]) {
+  const fetchMock = vi.fn<typeof fetch>(async () => new Response(null, { status: statuses.shift() ?? 202 }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function sentMessages(fetchMock: ReturnType<typeof stubFetch>, call = 0): string[] {
+  const body = fetchMock.mock.calls[call][1]?.body as string;
+  return JSON.parse(body).entries.map((sent: LogEntry) => sent.message);
+}
+
+describe("LogTransport", () => {
+  let transport: LogTransport | undefined;
+
+  afterEach(() => {
+    transport?.stop();
+    transport = undefined;
+  });
+
+  function createTransport(options: Partial<ConstructorParameters<typeof LogTransport>[0]> = {}) {
+    transport = new LogTransport({ endpoint: "https://logs.test/api/logs", random: () => 0, ...options });
+    return transport;
+  }
+
+  it("sends queued entries in batches of the configured size", async () => {
+    const fetchMock = stubFetch();
+    const logs = createTransport({ maxBatchSize: 2 });
+
+    logs.send(entry("one"));
+    logs.send(entry("two"));
+    logs.send(entry("three"));
+    await logs.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][0]).toBe("https://logs.test/api/logs");
+    expect(sentMessages(fetchMock, 0)).toEqual(["one", "two"]);
+    expect(sentMessages(fetchMock, 1)).toEqual(["three"]);
+    expect(logs.pending).toBe(0);
+  });
+
+  it("splits batches that would exceed the byte limit", async () => {
+    const fetchMock = stubFetch();
+    const logs = createTransport({ maxBatchBytes: 300 });
+
+    logs.send(entry("a".repeat(150)));
+    logs.send(entry("b".repeat(150)));
+    await logs.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("samples entries by level", async () => {
+    const fetchMock = stubFetch();
+    const logs = createTransport({ random: () => 0.5 });
+
+    logs.send(entry("debug", "debug"));
+    logs.send(entry("info", "info"));
+    logs.send(entry("warn", "warn"));
+    logs.send(entry("error", "error"));
+    await logs.flush();
+
+    expect(sentMessages(fetchMock)).toEqual(["warn", "error"]);
+  });
+
+  it("keeps only the newest entries when the queue is full", () => {
+    stubFetch();
+    const logs = createTransport({ maxQueueSize: 2 });
+
+    logs.send(entry("one"));
+    logs.send(entry("two"));
+    logs.send(entry("three"));
+
+    expect(logs.pending).toBe(2);
+  });
+
+  it("drops entries older than the maximum age", async () => {
+    const fetchMock = stubFetch();
+    const logs = createTransport({ maxEntryAgeMs: 60_000 });
+
+    logs.send(entry("stale", "warn", new Date(Date.now() - 120_000).toISOString()));
+    logs.send(entry("fresh"));
+    await logs.flush();
+
+    expect(sentMessages(fetchMock)).toEqual(["fresh"]);
+  });
+
+  it("stores entries that failed to send and replays them on the next start", async () => {
+    stubFetch(503);
+    const storage = memoryLogStorage();
+    const save = vi.spyOn(storage, "save");
+    const logs = createTransport({ storage });
+
+    logs.send(entry("one"));
+    await logs.flush();
+
+    expect(logs.pending).toBe(1);
+    expect(save).toHaveBeenLastCalledWith([expect.objectContaining({ message: "one" })], { closing: false });
+
+    logs.stop();
+    const fetchMock = stubFetch();
+    const next = createTransport({ storage });
+    await next.start();
+
+    expect(sentMessages(fetchMock)).toEqual(["one"]);
+    expect(save).toHaveBeenLastCalledWith([], { closing: false });
+  });
+
+  it("caps a stored backlog to the queue size on start", async () => {
+    const storage = memoryLogStorage();
+    await storage.save([entry("one"), entry("two"), entry("three")]);
+    vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    const logs = createTransport({ storage, maxQueueSize: 2 });
+
+    await logs.start();
+
+    expect(logs.pending).toBe(2);
+  });
+
+  it("drops batches the server rejects", async () => {
+    stubFetch(400);
+    const logs = createTransport();
+
+    logs.send(entry("malformed"));
+    await logs.flush();
+
+    expect(logs.pending).toBe(0);
+  });
+
+  it("holds entries while offline and sends them once back online", async () => {
+    const fetchMock = stubFetch();
+    const onLine = vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    const logs = createTransport();
+    await logs.start();
+
+    logs.send(entry("offline"));
+    await logs.flush();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event("online"));
+    await logs.flush();
+
+    expect(sentMessages(fetchMock)).toEqual(["offline"]);
+  });
+
+  it("beacons the queue when the page is hidden", () => {
+    const sendBeacon = vi.fn<typeof navigator.sendBeacon>(() => true);
+    Object.defineProperty(navigator, "sendBeacon", { value: sendBeacon, configurable: true });
+    const logs = createTransport();
+
+    logs.send(entry("leaving"));
+    logs.flushOnHide();
+
+    expect(sendBeacon).toHaveBeenCalledWith("https://logs.test/api/logs", expect.any(Blob));
+    // A CORS-safelisted type, so cross-origin endpoints accept the beacon
+    expect(sendBeacon.mock.calls[0][1]).toHaveProperty("type", "text/plain");
+    expect(logs.pending).toBe(0);
+    Reflect.deleteProperty(navigator, "sendBeacon");
+  });
+});
+
+describe("indexedDbLogStorage", () => {
+  const STALE_MS = 60_000;
+
+  beforeEach(() => {
+    vi.stubGlobal("indexedDB", new IDBFactory());
+  });
+
+  const messages = (entries: LogEntry[]) => entries.map((taken) => taken.message);
+
+  it("hands a closed page's entries to the page loaded after it", async () => {
+    const before = indexedDbLogStorage("logs", STALE_MS);
+    await before.save([entry("one"), entry("two")], { closing: true });
+
+    const after = indexedDbLogStorage("logs", STALE_MS);
+
+    expect(messages(await after.take())).toEqual(["one", "two"]);
+    expect(await after.take()).toEqual([]);
+  });
+
+  it("leaves the entries of other open pages alone", async () => {
+    const first = indexedDbLogStorage("logs", STALE_MS);
+    const second = indexedDbLogStorage("logs", STALE_MS);
+    await first.save([entry("first")]);
+    await second.save([entry("second")]);
+
+    const third = indexedDbLogStorage("logs", STALE_MS);
+    expect(await third.take()).toEqual([]);
+
+    await second.save([entry("second"), entry("closing")], { closing: true });
+    expect(messages(await third.take())).toEqual(["second", "closing"]);
+    expect(await first.save([entry("first"), entry("later")])).toBe(true);
+  });
+
+  it("tells a page that comes back after a takeover, so it doesn't resend", async () => {
+    const now = vi.spyOn(Date, "now");
+    now.mockReturnValue(1_000_000);
+    const fetchMock = stubFetch(503);
+    const frozen = new LogTransport({
+      endpoint: "https://logs.test/api/logs",
+      storage: indexedDbLogStorage("logs", STALE_MS),
+      random: () => 0,
+    });
+    frozen.send(entry("stored"));
+    await frozen.flush();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_000_000 + STALE_MS + 1);
+    const other = indexedDbLogStorage("logs", STALE_MS);
+    expect(messages(await other.take())).toEqual(["stored"]);
+
+    frozen.send(entry("after"));
+    await frozen.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sentMessages(fetchMock, 1)).toEqual(["after"]);
+    frozen.stop();
+  });
+});
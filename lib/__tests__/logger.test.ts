@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as Sentry from "@sentry/nextjs";
+import { logger } from "../logger";
+import { HttpError } from "../../app/lib/http";
+
+vi.mock("@sentry/nextjs", () => ({ addBreadcrumb: vi.fn() }));
+
+describe("logger", () => {
+  beforeEach(() => {
+    vi.mocked(Sentry.addBreadcrumb).mockClear();
+  });
+
+  it("adds the child's context to every entry", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    logger.child({ component: "useChat" }).error("Stream error", { action: "sendMessage" });
+
+    expect(error).toHaveBeenCalledWith(
+      expect.objectContaining({ level: "error", message: "Stream error", component: "useChat", action: "sendMessage" })
+    );
+  });
+
+  it("reduces errors to their scrubbed message and keeps their request ID", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    logger.warn("Request failed", {
+      error: new HttpError(500, "Server error for jane@example.com", null, "req-1"),
+    });
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: "HTTP 500: Server error for [email]",
+        errorName: "HttpError",
+        requestId: "req-1",
+      })
+    );
+  });
+
+  it("keeps timestamps and request IDs intact while scrubbing", () => {
+    const info = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    logger.info("Request 1760842800123 for jane@example.com", {
+      error: new Error("Timed out after 1760842800123 (req 4f1c2b7a-0d3e-4a55-9b1e-123456789012)"),
+    });
+
+    expect(info).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Request 1760842800123 for [email]",
+        error: "Timed out after 1760842800123 (req 4f1c2b7a-0d3e-4a55-9b1e-123456789012)",
+      })
+    );
+  });
+
+  it("leaves a Sentry breadcrumb in the browser", () => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+
+    logger.child({ component: "useChat" }).info("Answer traced", { requestId: "req-1", traceId: "trace-1" });
+
+    expect(Sentry.addBreadcrumb).toHaveBeenCalledWith({
+      category: "useChat",
+      level: "info",
+      message: "Answer traced",
+      data: { requestId: "req-1", traceId: "trace-1" },
+    });
+  });
+
+  it("hands browser entries to registered sinks until removed", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const send = vi.fn();
+    const removeSink = logger.addSink({ send });
+
+    logger.warn("Slow response", { component: "useChat" });
+    removeSink();
+    logger.warn("Slow response");
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({ level: "warn", message: "Slow response", component: "useChat" })
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { detectPII, PII_RULES, PIIRule, redactPII } from "../pii";
+
+function kinds(text: string, rules?: PIIRule[]) {
+  return detectPII(text, rules).map((match) => match.kind);
+}
+
+describe("detectPII", () => {
+  it("finds each built-in kind", () => {
+    expect(kinds("Mail me at jane.doe@example.com")).toEqual(["email"]);
+    expect(kinds("My card is 4111 1111 1111 1111")).toEqual(["card"]);
+    expect(kinds("key: sk-abcdefghijklmnopqrstuvwx")).toEqual(["secret"]);
+    expect(kinds("api_key=abcdefghijklmnopqrstuvwxyz")).toEqual(["secret"]);
+    expect(kinds("SSN 123-45-6789")).toEqual(["national_id"]);
+    expect(kinds("NI number AB 12 34 56 C")).toEqual(["national_id"]);
+    expect(kinds("Call +1 (415) 555-0132 tonight")).toEqual(["phone"]);
+    expect(kinds("I live at 221 Baker Street now")).toEqual(["address"]);
+  });
+
+  it("reports positions in the original text", () => {
+    const [match] = detectPII("email: a@b.io!");
+    expect(match).toMatchObject({ start: 7, end: 13, text: "a@b.io", label: "Email address" });
+  });
+
+  it("leaves dates, years and small numbers alone", () => {
+    expect(kinds("On 2026-01-15 I slept 8 hours, since 1999, costing 12.50")).toEqual([]);
+  });
+
+  it("reports overlapping text once, for the first rule", () => {
+    expect(kinds("4111-1111-1111-1111")).toEqual(["card"]);
+  });
+
+  it("accepts extra rules", () => {
+    const postcode: PIIRule = {
+      kind: "address",
+      label: "Postcode",
+      pattern: /\b[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}\b/g,
+      placeholder: "[postcode]",
+    };
+    expect(kinds("Near SW1A 1AA", [...PII_RULES, postcode])).toEqual(["address"]);
+  });
+});
+
+describe("redactPII", () => {
+  it("replaces every match with its placeholder", () => {
+    expect(redactPII("Reach me at jane@example.com or +44 20 7946 0958.")).toBe(
+      "Reach me at [email] or [phone number]."
+    );
+  });
+
+  it("returns text without matches unchanged", () => {
+    expect(redactPII("I feel anxious before exams")).toBe("I feel anxious before exams");
+  });
+});
@@ -0,0 +1,402 @@
+import type { LogEntry, LogLevel, LogSink } from "./logger";
+
+/**
+ * Log Transport
+ * - Ships scrubbed browser log entries to our own log endpoint in batches,
+ *   for diagnostics too frequent to send to Sentry
+ * - Samples entries per level before queueing them
+ * - Caps the queue and each batch (count and bytes, under sendBeacon's
+ *   64 KB limit); entries older than a day are dropped
+ * - Flushes on an interval, when a batch fills and, via sendBeacon, when
+ *   the page is hidden. Beacons are sent as text/plain (a CORS-safelisted
+ *   type, so a cross-origin endpoint receives them too); the endpoint
+ *   should parse the JSON body whatever its content type
+ * - Keeps what couldn't be sent (offline, server down) in storage and
+ *   replays it on the next start or when the browser comes back online.
+ *   Each page load stores its own entries, so tabs never overwrite each
+ *   other; a page takes over those of pages that closed or stopped saving.
+ *   A page whose entries were taken over (frozen in the background, then
+ *   resumed) notices before it sends or saves again and drops them, but an
+ *   entry can still be sent twice if the takeover lands mid-send
+ */
+
+export interface LogQueueStorage {
+  /** Remove and return what closed or stale pages left behind. */
+  take(): Promise<LogEntry[]>;
+  /**
+   * Replace this page's stored entries; `closing` lets the next page take
+   * them right away. Resolves false, without saving, when another page took
+   * over what was stored since the last save.
+   */
+  save(entries: LogEntry[], options?: { closing?: boolean }): Promise<boolean>;
+}
+
+export interface LogTransportOptions {
+  endpoint: string;
+  storage?: LogQueueStorage;
+  /** Share of entries kept per level, 0-1. */
+  sampleRates?: Partial<Record<LogLevel, number>>;
+  maxBatchSize?: number;
+  maxBatchBytes?: number;
+  maxQueueSize?: number;
+  maxEntryAgeMs?: number;
+  flushIntervalMs?: number;
+  /** For tests. */
+  random?: () => number;
+}
+
+export const DEFAULT_SAMPLE_RATES: Record<LogLevel, number> = {
+  debug: 0,
+  info: 0.25,
+  warn: 1,
+  error: 1,
+};
+
+const DEFAULT_MAX_BATCH_SIZE = 50;
+const DEFAULT_MAX_BATCH_BYTES = 60 * 1024;
+const DEFAULT_MAX_QUEUE_SIZE = 500;
+const DEFAULT_MAX_ENTRY_AGE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_FLUSH_INTERVAL_MS = 10000;
+// A live page with unsent entries saves them on every flush interval (at
+// least once a minute even when throttled in the background)
+const DEFAULT_STALE_PAGE_MS = 5 * 60 * 1000;
+// How long a taken-over page's marker waits for its owner to come back
+const TAKEN_MARKER_TTL_MS = 24 * 60 * 60 * 1000;
+
+const DB_STORE = "queue";
+
+interface StoredQueue {
+  entries: LogEntry[];
+  savedAt: number;
+  closed?: boolean;
+}
+
+// Left in place of entries another page took over, so their owner finds out
+interface TakenMarker {
+  takenAt: number;
+}
+
+type StoredRecord = Partial<StoredQueue & TakenMarker>;
+
+function byteLength(value: unknown): number {
+  return new Blob([JSON.stringify(value)]).size;
+}
+
+function isOnline(): boolean {
+  return typeof navigator === "undefined" || navigator.onLine !== false;
+}
+
+function createId(): string {
+  return typeof crypto !== "undefined" && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now()}_${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Queue storage that lasts only as long as the page
+ */
+export function memoryLogStorage(): LogQueueStorage {
+  let saved: LogEntry[] = [];
+  return {
+    take: async () => {
+      const taken = saved;
+      saved = [];
+      return taken;
+    },
+    save: async (entries) => {
+      saved = entries;
+      return true;
+    },
+  };
+}
+
+/**
+ * Queue storage that survives reloads and closed tabs. Entries are stored
+ * per page load; those of a page that closed or hasn't saved for
+ * `staleAfterMs` are taken over as left behind.
+ */
+export function indexedDbLogStorage(name = "selve-logs", staleAfterMs = DEFAULT_STALE_PAGE_MS): LogQueueStorage {
+  // Not kept across reloads: a duplicated tab copies its sessionStorage
+  const key = createId();
+
+  const open = () =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+  // Runs `operation` in one read-write transaction and waits for it to commit
+  const run = async (operation: (store: IDBObjectStore) => void) => {
+    const db = await open();
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(DB_STORE, "readwrite");
+        operation(transaction.objectStore(DB_STORE));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    } finally {
+      db.close();
+    }
+  };
+
+  return {
+    // Reading and marking in one transaction keeps two pages starting
+    // together from both taking the same entries
+    take: async () => {
+      const taken: LogEntry[] = [];
+      const now = Date.now();
+      await run((store) => {
+        const request = store.openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          const stored = cursor.value as StoredRecord;
+          if (cursor.key !== key) {
+            if (stored.takenAt !== undefined) {
+              if (stored.takenAt < now - TAKEN_MARKER_TTL_MS) cursor.delete();
+            } else if (stored.closed || (stored.savedAt ?? 0) < now - staleAfterMs) {
+              if (Array.isArray(stored.entries)) taken.push(...stored.entries);
+              cursor.update({ takenAt: now } satisfies TakenMarker);
+            }
+          }
+          cursor.continue();
+        };
+      });
+      return taken.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    },
+    save: async (entries, { closing = false } = {}) => {
+      let saved = true;
+      await run((store) => {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          const stored = request.result as StoredRecord | undefined;
+          if (stored?.takenAt !== undefined) {
+            // Clear the marker; the caller drops what was taken and saves again
+            store.delete(key);
+            saved = false;
+          } else if (entries.length > 0) {
+            store.put({ entries, savedAt: Date.now(), closed: closing } satisfies StoredQueue, key);
+          } else {
+            store.delete(key);
+          }
+        };
+      });
+      return saved;
+    },
+  };
+}
+
+export class LogTransport implements LogSink {
+  private queue: LogEntry[] = [];
+  // What the last save stored; another page may since have taken it over
+  private saved = new Set<LogEntry>();
+  private flushing: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  private readonly endpoint: string;
+  private readonly storage: LogQueueStorage;
+  private readonly sampleRates: Record<LogLevel, number>;
+  private readonly maxBatchSize: number;
+  private readonly maxBatchBytes: number;
+  private readonly maxQueueSize: number;
+  private readonly maxEntryAgeMs: number;
+  private readonly flushIntervalMs: number;
+  private readonly random: () => number;
+
+  constructor({
+    endpoint,
+    storage = memoryLogStorage(),
+    sampleRates = {},
+    maxBatchSize = DEFAULT_MAX_BATCH_SIZE,
+    maxBatchBytes = DEFAULT_MAX_BATCH_BYTES,
+    maxQueueSize = DEFAULT_MAX_QUEUE_SIZE,
+    maxEntryAgeMs = DEFAULT_MAX_ENTRY_AGE_MS,
+    flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS,
+    random = Math.random,
+  }: LogTransportOptions) {
+    this.endpoint = endpoint;
+    this.storage = storage;
+    this.sampleRates = { ...DEFAULT_SAMPLE_RATES, ...sampleRates };
+    this.maxBatchSize = maxBatchSize;
+    this.maxBatchBytes = maxBatchBytes;
+    this.maxQueueSize = maxQueueSize;
+    this.maxEntryAgeMs = maxEntryAgeMs;
+    this.flushIntervalMs = flushIntervalMs;
+    this.random = random;
+  }
+
+  /**
+   * Entries waiting to be sent
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Queue an entry if it is sampled in; a full batch is sent right away
+   */
+  send(entry: LogEntry) {
+    const rate = this.sampleRates[entry.level];
+    if (rate <= 0 || this.random() >= rate) return;
+    // Too big to ever fit in a batch
+    if (byteLength(entry) > this.maxBatchBytes) return;
+
+    this.queue.push(entry);
+    this.trimQueue();
+    if (this.queue.length >= this.maxBatchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Replay entries stored by an earlier page and start flushing
+   */
+  async start() {
+    if (typeof window !== "undefined") {
+      document.addEventListener("visibilitychange", this.handleVisibilityChange);
+      window.addEventListener("pagehide", this.handlePageHide);
+      window.addEventListener("pageshow", this.handlePageShow);
+      window.addEventListener("online", this.handleOnline);
+    }
+    this.timer = setInterval(() => {
+      if (this.queue.length > 0) void this.flush();
+    }, this.flushIntervalMs);
+
+    try {
+      const stored = await this.storage.take();
+      this.queue = [...stored, ...this.queue];
+      this.trimQueue();
+    } catch {
+      // Storage unavailable (private mode); keep going in memory
+    }
+    await this.flush();
+  }
+
+  stop() {
+    if (typeof window !== "undefined") {
+      document.removeEventListener("visibilitychange", this.handleVisibilityChange);
+      window.removeEventListener("pagehide", this.handlePageHide);
+      window.removeEventListener("pageshow", this.handlePageShow);
+      window.removeEventListener("online", this.handleOnline);
+    }
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Send everything queued, one batch at a time; stops at the first failure
+   */
+  flush(): Promise<void> {
+    this.flushing ??= this.sendBatches().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  /**
+   * The page may be going away: beacon what fits and store the rest.
+   * `closing` lets the next page take what is stored right away.
+   */
+  flushOnHide(closing = false) {
+    this.dropExpired();
+    const canBeacon = typeof navigator !== "undefined" && typeof navigator.sendBeacon === "function";
+    while (canBeacon && isOnline() && this.queue.length > 0) {
+      const batch = this.takeBatch();
+      const body = new Blob([JSON.stringify({ entries: batch })], { type: "text/plain" });
+      if (!navigator.sendBeacon(this.endpoint, body)) {
+        this.queue.unshift(...batch);
+        break;
+      }
+    }
+    void this.persist(closing);
+  }
+
+  private async sendBatches() {
+    this.dropExpired();
+    // Finds out whether another page took over what is stored before sending it again
+    await this.persist();
+    while (this.queue.length > 0 && isOnline()) {
+      const batch = this.takeBatch();
+      try {
+        const response = await fetch(this.endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ entries: batch }),
+          keepalive: true,
+        });
+        // Rejected batches would be rejected again; drop them
+        if (!response.ok && (response.status >= 500 || response.status === 429)) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+      } catch {
+        this.queue.unshift(...batch);
+        break;
+      }
+    }
+    await this.persist();
+  }
+
+  private takeBatch(): LogEntry[] {
+    let bytes = 0;
+    let count = 0;
+    while (count < this.queue.length && count < this.maxBatchSize) {
+      // One byte for the separating comma, 16 kept for `{"entries":[]}`
+      const size = byteLength(this.queue[count]) + 1;
+      if (count > 0 && bytes + size > this.maxBatchBytes - 16) break;
+      bytes += size;
+      count += 1;
+    }
+    return this.queue.splice(0, count);
+  }
+
+  // Keep the newest entries
+  private trimQueue() {
+    if (this.queue.length > this.maxQueueSize) {
+      this.queue.splice(0, this.queue.length - this.maxQueueSize);
+    }
+  }
+
+  private dropExpired() {
+    const oldest = Date.now() - this.maxEntryAgeMs;
+    this.queue = this.queue.filter((entry) => Date.parse(entry.timestamp) >= oldest);
+  }
+
+  private async persist(closing = false) {
+    try {
+      let entries = [...this.queue];
+      if (!(await this.storage.save(entries, { closing }))) {
+        // Another page took over and will send what this one had stored
+        this.queue = this.queue.filter((entry) => !this.saved.has(entry));
+        entries = [...this.queue];
+        await this.storage.save(entries, { closing });
+      }
+      this.saved = new Set(entries);
+    } catch {
+      // Losing diagnostics is better than failing the page
+    }
+  }
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === "hidden") {
+      this.flushOnHide();
+    } else {
+      void this.persist();
+    }
+  };
+
+  private handlePageHide = () => this.flushOnHide(true);
+
+  // Back from the back/forward cache: the entries stored on hide are no
+  // longer left behind
+  private handlePageShow = (event: PageTransitionEvent) => {
+    if (event.persisted) void this.persist();
+  };
+
+  private handleOnline = () => {
+    void this.flush();
+  };
+}
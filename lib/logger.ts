@@ -1,51 +1,89 @@
+import * as Sentry from "@sentry/nextjs";
+import { detectPII, PII_RULES, PIIKind, redactPII } from "./pii";
+
 /**
  * Production Logger for Next.js
  * - Console logging in development
  * - PII scrubbing for all logs
  * - Server-side logging via Sentry in production
+ * - Browser logs become Sentry breadcrumbs, so an error report carries
+ *   the steps (and request IDs) that led to it
+ * - Browser logs also go to any registered sinks (see lib/logTransport.ts)
  */
 
-type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogLevel = "debug" | "info" | "warn" | "error";
 
-interface LogContext {
+export interface LogContext {
   userId?: string;
   requestId?: string;
   component?: string;
   action?: string;
+  /** Caught value; reduced to its name and scrubbed message. */
+  error?: unknown;
   [key: string]: any;
 }
 
+/** A scrubbed log entry, as written to the console. */
+export interface LogEntry extends LogContext {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+}
+
+export interface LogSink {
+  send(entry: LogEntry): void;
+}
+
+// Only what can't be mistaken for diagnostics: the phone and address rules
+// would also eat timestamps, request IDs and other runs of digits
+const LOG_PII_KINDS: PIIKind[] = ["email", "card", "secret"];
+const LOG_PII_RULES = PII_RULES.filter((rule) => LOG_PII_KINDS.includes(rule.kind));
+
+// Shared by the logger and all its children
+const sinks = new Set<LogSink>();
+
+const BREADCRUMB_LEVELS: Record<LogLevel, Sentry.SeverityLevel> = {
+  debug: "debug",
+  info: "info",
+  warn: "warning",
+  error: "error",
+};
+
 class Logger {
   private isProduction = process.env.NODE_ENV === "production";
   private isServer = typeof window === "undefined";
 
+  constructor(private baseContext: LogContext = {}) {}
+
+  /**
+   * Logger that adds `context` (usually the component) to every entry
+   */
+  child(context: LogContext): Logger {
+    return new Logger({ ...this.baseContext, ...context });
+  }
+
+  /**
+   * Also deliver browser entries to `sink`; returns a function that removes it
+   */
+  addSink(sink: LogSink): () => void {
+    sinks.add(sink);
+    return () => {
+      sinks.delete(sink);
+    };
+  }
+
   /**
    * Scrub PII from log messages
    */
   private scrubPII(message: string): string {
     if (typeof message !== "string") return message;
 
-    // Email scrubbing
-    message = message.replace(
-      /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
-      "***@***.***"
-    );
+    // Emails, card numbers and tokens (see lib/pii.ts)
+    message = redactPII(message, detectPII(message, LOG_PII_RULES));
 
     // Financial amounts
     message = message.replace(/\$\d+\.\d+/g, "$X.XX");
 
-    // Credit card numbers
-    message = message.replace(
-      /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g,
-      "****-****-****-****"
-    );
-
-    // API keys and tokens (common patterns)
-    message = message.replace(
-      /(api[_-]?key|token|secret)[:\s=]+[\w-]{20,}/gi,
-      "$1=***REDACTED***"
-    );
-
     return message;
   }
 
@@ -64,6 +102,21 @@ class Logger {
         (scrubbed.userId.length > 8 ? "***" : "");
     }
 
+    // Errors can't be serialized as is and their messages may echo input
+    if ("error" in scrubbed) {
+      const { error } = scrubbed;
+      if (error instanceof Error) {
+        scrubbed.error = this.scrubPII(error.message);
+        scrubbed.errorName = error.name;
+        const requestId = (error as { requestId?: unknown }).requestId;
+        if (!scrubbed.requestId && typeof requestId === "string") {
+          scrubbed.requestId = requestId;
+        }
+      } else {
+        scrubbed.error = this.scrubPII(String(error));
+      }
+    }
+
     // Remove sensitive fields
     delete scrubbed.email;
     delete scrubbed.password;
@@ -77,16 +130,27 @@ class Logger {
    */
   private log(level: LogLevel, message: string, context?: LogContext) {
     const scrubbedMessage = this.scrubPII(message);
-    const scrubbedContext = this.scrubContext(context);
+    const scrubbedContext = this.scrubContext({ ...this.baseContext, ...context });
     const timestamp = new Date().toISOString();
 
-    const logData = {
+    const logData: LogEntry = {
       timestamp,
       level,
       message: scrubbedMessage,
       ...scrubbedContext,
     };
 
+    if (!this.isServer) {
+      const { component, ...data } = scrubbedContext ?? {};
+      Sentry.addBreadcrumb({
+        category: component ?? "app",
+        level: BREADCRUMB_LEVELS[level],
+        message: scrubbedMessage,
+        data,
+      });
+      sinks.forEach((sink) => sink.send(logData));
+    }
+
     // In production, Sentry will capture console.error and console.warn
     // So we just need to log to console and Sentry integration handles it
     switch (level) {
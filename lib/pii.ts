@@ -0,0 +1,120 @@
+/**
+ * Personal Data Patterns
+ * - Shared by the logger (scrubbing) and the chat input (pre-send guard)
+ * - Each rule finds one kind of sensitive data; add rules to PII_RULES
+ *   or pass a custom list for other formats
+ */
+
+export type PIIKind =
+  | "email"
+  | "card"
+  | "secret"
+  | "phone"
+  | "address"
+  | "national_id";
+
+export interface PIIRule {
+  kind: PIIKind;
+  /** Shown to the user, e.g. "Email address". */
+  label: string;
+  /** Must use the global flag. */
+  pattern: RegExp;
+  /** Put in place of the match when redacting. */
+  placeholder: string;
+  /** Reject matches the pattern alone can't rule out. */
+  validate?: (match: string) => boolean;
+}
+
+export interface PIIMatch {
+  kind: PIIKind;
+  label: string;
+  placeholder: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+function digitCount(value: string): number {
+  return value.replace(/\D/g, "").length;
+}
+
+export const PII_RULES: PIIRule[] = [
+  {
+    kind: "email",
+    label: "Email address",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    placeholder: "[email]",
+  },
+  {
+    kind: "card",
+    label: "Card number",
+    pattern: /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g,
+    placeholder: "[card number]",
+  },
+  {
+    kind: "secret",
+    label: "API key or token",
+    pattern:
+      /(?:\b(?:api[_-]?key|token|secret)[:\s=]+[\w-]{20,})|\b(?:sk-[A-Za-z0-9_-]{20,}|gh[pousr]_[A-Za-z0-9]{30,}|AKIA[0-9A-Z]{16})\b/gi,
+    placeholder: "[secret]",
+  },
+  {
+    kind: "national_id",
+    label: "National ID number",
+    // US Social Security and UK National Insurance numbers
+    pattern: /\b(?:\d{3}-\d{2}-\d{4}|[A-CEGHJ-PR-TW-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D])\b/g,
+    placeholder: "[ID number]",
+  },
+  {
+    kind: "phone",
+    label: "Phone number",
+    pattern: /(?:\+|\b)\d[\d\s().-]{7,}\d\b/g,
+    placeholder: "[phone number]",
+    // Short runs are more likely dates, amounts or years
+    validate: (match) => digitCount(match) >= 10 && digitCount(match) <= 15,
+  },
+  {
+    kind: "address",
+    label: "Street address",
+    pattern:
+      /\b\d{1,5}\s+(?:[A-Z][A-Za-z]*\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Lane|Ln|Drive|Dr|Boulevard|Blvd|Court|Ct|Way|Place|Pl|Terrace|Close)\b\.?/g,
+    placeholder: "[address]",
+  },
+];
+
+/**
+ * Find sensitive data in text. Where rules overlap, the earlier rule in the
+ * list wins, so a card number is not also reported as a phone number.
+ */
+export function detectPII(text: string, rules: PIIRule[] = PII_RULES): PIIMatch[] {
+  const matches: PIIMatch[] = [];
+
+  for (const rule of rules) {
+    for (const found of text.matchAll(rule.pattern)) {
+      const start = found.index ?? 0;
+      const end = start + found[0].length;
+      if (rule.validate && !rule.validate(found[0])) continue;
+      if (matches.some((match) => start < match.end && end > match.start)) continue;
+      matches.push({
+        kind: rule.kind,
+        label: rule.label,
+        placeholder: rule.placeholder,
+        start,
+        end,
+        text: found[0],
+      });
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/** Replace every match with its placeholder. */
+export function redactPII(text: string, matches: PIIMatch[] = detectPII(text)): string {
+  return [...matches]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (redacted, match) => redacted.slice(0, match.start) + match.placeholder + redacted.slice(match.end),
+      text
+    );
+}
@@ -51,6 +51,22 @@ Sentry.init({
     return event;
   },
 
+  // Tag backend calls with their request ID so a breadcrumb can be matched
+  // to the backend's logs (see app/lib/http.ts)
+  beforeBreadcrumb(breadcrumb, hint) {
+    if (breadcrumb.category === "fetch") {
+      const headers = (hint?.input?.[1] as RequestInit | undefined)?.headers;
+      const requestId =
+        headers instanceof Headers
+          ? headers.get("X-Request-ID")
+          : (headers as Record<string, string> | undefined)?.["X-Request-ID"];
+      if (requestId) {
+        breadcrumb.data = { ...breadcrumb.data, request_id: requestId };
+      }
+    }
+    return breadcrumb;
+  },
+
   // Ignore common non-critical errors
   ignoreErrors: [
     "ResizeObserver loop limit exceeded",
@@ -0,0 +1,87 @@
+import { vi } from 'vitest'
+import { createMockStore, handleMockRequest, MockStore } from '../app/lib/mockBackend'
+
+/**
+ * Replaces global `fetch` with the in-memory mock backend (no streaming
+ * delay). Individual routes can be overridden to script failures or hand-made
+ * SSE streams; every request is recorded in `calls`.
+ */
+
+export interface RecordedCall {
+  method: string
+  path: string
+  headers: Headers
+  body: unknown
+}
+
+type RouteHandler = (request: Request, call: RecordedCall) => Response | Promise<Response>
+
+interface Override {
+  method: string
+  path: string | RegExp
+  handler: RouteHandler
+  once: boolean
+}
+
+export interface FetchMock {
+  store: MockStore
+  calls: RecordedCall[]
+  /** Answer `method path` with `handler` instead of the mock backend. */
+  on: (method: string, path: string | RegExp, handler: RouteHandler) => void
+  /** Like `on`, but only for the next matching request. */
+  once: (method: string, path: string | RegExp, handler: RouteHandler) => void
+  callsTo: (method: string, path: string | RegExp) => RecordedCall[]
+}
+
+function matches(path: string, pattern: string | RegExp): boolean {
+  return typeof pattern === 'string' ? path === pattern : pattern.test(path)
+}
+
+export function installFetchMock(store: MockStore = createMockStore()): FetchMock {
+  const calls: RecordedCall[] = []
+  const overrides: Override[] = []
+
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init)
+    const url = new URL(request.url)
+    const text = request.method === 'GET' || request.method === 'HEAD' ? '' : await request.clone().text()
+
+    const call: RecordedCall = {
+      method: request.method,
+      path: url.pathname,
+      headers: request.headers,
+      body: text ? JSON.parse(text) : undefined,
+    }
+    calls.push(call)
+
+    if (request.signal.aborted) {
+      throw new DOMException('Aborted', 'AbortError')
+    }
+
+    const index = overrides.findIndex(
+      (override) => override.method === request.method && matches(call.path, override.path)
+    )
+    if (index >= 0) {
+      const override = overrides[index]
+      if (override.once) overrides.splice(index, 1)
+      return override.handler(request, call)
+    }
+
+    return handleMockRequest(request, url.pathname, { store, chunkDelay: 0 })
+  })
+
+  vi.stubGlobal('fetch', fetchMock)
+
+  const add = (once: boolean) => (method: string, path: string | RegExp, handler: RouteHandler) => {
+    overrides.push({ method: method.toUpperCase(), path, handler, once })
+  }
+
+  return {
+    store,
+    calls,
+    on: add(false),
+    once: add(true),
+    callsTo: (method, path) =>
+      calls.filter((call) => call.method === method.toUpperCase() && matches(call.path, path)),
+  }
+}
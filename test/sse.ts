@@ -0,0 +1,90 @@
+/**
+ * SSE fakes for tests: build `text/event-stream` responses from the same
+ * payload objects the backend sends.
+ */
+
+export type SsePayload = Record<string, unknown> | string
+
+/** Encode one payload as an SSE frame; strings are sent verbatim as `data:`. */
+export function sseFrame(payload: SsePayload, id?: number): string {
+  const data = typeof payload === 'string' ? payload : JSON.stringify(payload)
+  return `${id !== undefined ? `id: ${id}\n` : ''}data: ${data}\n\n`
+}
+
+/**
+ * A stream that emits `payloads` and closes. `splitEvery` cuts the encoded
+ * text into chunks of that many characters to exercise line buffering.
+ */
+export function sseStream(
+  payloads: SsePayload[],
+  { splitEvery }: { splitEvery?: number } = {}
+): ReadableStream<Uint8Array> {
+  const text = payloads.map((payload) => sseFrame(payload)).join('')
+  const chunks = splitEvery
+    ? text.match(new RegExp(`[\\s\\S]{1,${splitEvery}}`, 'g')) ?? []
+    : [text]
+  const encoder = new TextEncoder()
+
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    },
+  })
+}
+
+export function sseResponse(payloads: SsePayload[], options?: { splitEvery?: number }): Response {
+  return new Response(sseStream(payloads, options), {
+    headers: { 'Content-Type': 'text/event-stream' },
+  })
+}
+
+export interface ControlledSse {
+  response: Response
+  /** Send more payloads down the open stream. */
+  push: (...payloads: SsePayload[]) => void
+  close: () => void
+  /** Fail the stream the way a dropped connection does. */
+  fail: (error?: Error) => void
+}
+
+/**
+ * A stream that stays open until the test closes it, for asserting on
+ * in-flight state (streaming content, stop, abort). Aborting `signal` errors
+ * the stream like `fetch` does.
+ */
+export function controlledSse(signal?: AbortSignal | null): ControlledSse {
+  const encoder = new TextEncoder()
+  let controller!: ReadableStreamDefaultController<Uint8Array>
+  let open = true
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c
+    },
+  })
+
+  const fail = (error: Error = new TypeError('network error')) => {
+    if (!open) return
+    open = false
+    controller.error(error)
+  }
+
+  signal?.addEventListener('abort', () => fail(new DOMException('Aborted', 'AbortError')), {
+    once: true,
+  })
+
+  return {
+    response: new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } }),
+    push: (...payloads) => {
+      if (!open) return
+      payloads.forEach((payload) => controller.enqueue(encoder.encode(sseFrame(payload))))
+    },
+    close: () => {
+      if (!open) return
+      open = false
+      controller.close()
+    },
+    fail,
+  }
+}